@@ -0,0 +1,1572 @@
+import {
+    Diagnostic,
+    DiagnosticSeverity,
+    Range
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as path from 'path';
+import * as fs from 'fs';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { parse, ParseResult } from './parser';
+import { PLUGIN_DEFINITION_SUFFIX, PluginDefinition, PluginRegistry, PluginTask } from './plugins';
+import { NpmDeclaration, NpmPackageResolver, flickType, namedType } from './npmPackages';
+import { DiagnosticCode } from './lintRules';
+import { resolveModuleFile } from './modules';
+import {
+    Argument,
+    AstNode,
+    BinaryExpression,
+    CallExpression,
+    DeclareStatement,
+    DoBlock,
+    Expression,
+    Identifier,
+    ImportStatement,
+    MemberExpression,
+    Program,
+    Statement,
+    TaskDeclaration,
+    forEachChild,
+    walk
+} from './ast';
+
+// Scope analysis, type inference and validation of Flick documents, without an
+// LSP connection: the language server builds on it, and `flick-check` uses it directly
+
+// Advanced symbol tracking with proper scoping
+export interface FlickSymbol {
+    name: string;
+    type: 'variable' | 'task' | 'group' | 'blueprint' | 'parameter' | 'loop-var' | 'field' | 'plugin' | 'module' | 'route-builtin' | 'route';
+    mutable?: boolean;
+    varType?: string;
+    params?: Array<{ name: string; type: string }>;
+    range: Range;
+    dataType?: string;
+    // Type inferred from the initializer when none is written, e.g. `free x := 5`
+    inferredType?: string;
+    // Type of the first `give` value in a task body
+    returnType?: string;
+    moduleScope?: Scope;
+    node?: AstNode;
+    // Set for members of a `use`d module, which are declared in another file
+    uri?: string;
+    // Description from a plugin definition file
+    documentation?: string;
+    // Named arguments a plugin task accepts, e.g. `status=`
+    namedArguments?: string[];
+    // Variable a plugin task binds inside its trailing `=>` block
+    blockBinding?: string;
+    // Set for names imported from an npm package, their members, and variables holding what they return
+    npmPackage?: string;
+    // TypeScript declaration of an npm name, e.g. `function createClient(url: string): SupabaseClient`
+    signature?: string;
+}
+
+export interface Scope {
+    type: 'global' | 'group' | 'task' | 'loop' | 'do-block' | 'blueprint' | 'route' | 'lambda';
+    name?: string;
+    startLine: number;
+    endLine?: number;
+    parent?: Scope;
+    children: Scope[];
+    symbols: Map<string, FlickSymbol>;
+    node?: AstNode;
+    // Group implemented by a `do Blueprint for Group` block
+    targetGroupName?: string;
+}
+
+// An identifier in the AST together with the symbol it binds to
+export interface SymbolBinding {
+    identifier: Identifier;
+    symbol?: FlickSymbol;
+    scope: Scope;
+    declaration: boolean;
+    // Property of a member access such as `obj/method`
+    member?: boolean;
+}
+
+// Everything derived from one version of a document, shared by all providers
+export interface DocumentAnalysis {
+    version: number;
+    parsed: ParseResult;
+    rootScope: Scope;
+    plugins: PluginDeclaration[];
+}
+
+export interface ModuleInfo {
+    // Document version for open files, modification time for files on disk
+    version: number;
+    // Top-level tasks, groups, blueprints and routes, exposed as `Module/name`
+    scope: Scope;
+    // Resolved paths of the files this module `use`s
+    uses: string[];
+}
+
+export interface PluginDeclaration {
+    name: string;
+    argument?: string | number;
+    line: number;
+}
+
+// Bundled plugin definitions, next to `out/` in the extension
+const BUNDLED_PLUGINS_DIRECTORY = path.join(__dirname, '..', 'plugins');
+
+// Built-in value types; `bool` is the type of `yes`/`no` and comparisons
+const PRIMITIVE_TYPES = new Set(['num', 'literal', 'bool']);
+const ARITHMETIC_OPERATORS = new Set(['+', '-', '*', '/', '%']);
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '>', '<=', '>=']);
+// How many levels of npm return and member types get type scopes, e.g. `createClient` -> `from` -> `select`
+const NPM_TYPE_DEPTH = 3;
+
+/**
+ * Analyzes Flick documents: builds their scope trees, links `use`d modules and
+ * declared plugins, infers types and reports diagnostics. Analyses are cached
+ * per document version.
+ */
+export class FlickAnalyzer {
+    protected analyses: Map<string, DocumentAnalysis> = new Map();
+    protected nodeScopes: WeakMap<AstNode, Scope> = new WeakMap();
+    // Root scope -> its groups and blueprints by name
+    private typeScopeIndex: WeakMap<Scope, Map<string, Scope>> = new WeakMap();
+    protected workspaceRoots: string[] = [];
+    protected modules: Map<string, ModuleInfo> = new Map();
+    // Imported file path -> URIs of the documents that `use` it
+    protected moduleDependents: Map<string, Set<string>> = new Map();
+    protected pluginRegistry = new PluginRegistry(BUNDLED_PLUGINS_DIRECTORY, message => this.log(message));
+    protected npmPackages = new NpmPackageResolver();
+
+    /**
+     * Sets the folders searched for `*.flickplugin.json` definitions and, by the
+     * language server, for workspace symbols, and loads the definitions.
+     */
+    public setWorkspaceRoots(roots: string[]): void {
+        this.workspaceRoots = roots;
+        this.findWorkspaceFiles(PLUGIN_DEFINITION_SUFFIX).forEach(file => this.pluginRegistry.loadFile(file));
+    }
+
+    // Unsaved contents win over the file on disk; there are none without an editor
+    protected getOpenDocument(uri: string): TextDocument | undefined {
+        return undefined;
+    }
+
+    protected log(message: string): void {
+        console.error(message);
+    }
+
+    protected resolveExpressionSymbol(expression: Expression, scope: Scope, rootScope: Scope): FlickSymbol | undefined {
+        switch (expression.kind) {
+            case 'Identifier':
+                return this.lookupSymbol(scope, expression.name);
+            case 'MemberExpression': {
+                const objectSymbol = this.resolveExpressionSymbol(expression.object, scope, rootScope);
+                if (!objectSymbol) return undefined;
+                return this.getMembersOfSymbol(objectSymbol, rootScope).find(m => m.name === expression.property.name);
+            }
+            case 'CallExpression':
+                // A call's members come from what the task returns, e.g. `Window.canvas` gives a Canvas
+                return this.resolveExpressionSymbol(expression.callee, scope, rootScope);
+            default:
+                return undefined;
+        }
+    }
+
+    protected lookupSymbol(scope: Scope, name: string): FlickSymbol | undefined {
+        let current: Scope | undefined = scope;
+        while (current) {
+            const symbol = current.symbols.get(name);
+            if (symbol) return symbol;
+            current = current.parent;
+        }
+        return undefined;
+    }
+
+    // `use X "path"` in a saved document; untitled documents have nothing to resolve against
+    protected resolveModulePath(documentUri: string, name: string, modulePath?: string): string | undefined {
+        if (!documentUri.startsWith('file:')) return undefined;
+        return resolveModuleFile(fileURLToPath(documentUri), name, modulePath);
+    }
+
+    // Version of an open document, or the modification time of a file on disk
+    protected getDocumentVersion(uri: string): number | undefined {
+        const open = this.getOpenDocument(uri);
+        if (open) {
+            return open.version;
+        }
+        try {
+            return fs.statSync(fileURLToPath(uri)).mtimeMs;
+        } catch {
+            return undefined;
+        }
+    }
+
+    protected findWorkspaceFiles(...suffixes: string[]): string[] {
+        const files: string[] = [];
+        const visitDirectory = (directory: string) => {
+            let entries: fs.Dirent[];
+            try {
+                entries = fs.readdirSync(directory, { withFileTypes: true });
+            } catch {
+                return;
+            }
+            for (const entry of entries) {
+                if (entry.isDirectory()) {
+                    if (!entry.name.startsWith('.') && entry.name !== 'node_modules' && entry.name !== 'out') {
+                        visitDirectory(path.join(directory, entry.name));
+                    }
+                } else if (suffixes.some(suffix => entry.name.endsWith(suffix))) {
+                    files.push(path.join(directory, entry.name));
+                }
+            }
+        };
+        this.workspaceRoots.forEach(visitDirectory);
+        return files;
+    }
+
+    /**
+     * The open document for `uri`, or its contents read from disk.
+     */
+    protected getDocument(uri: string): TextDocument | undefined {
+        const open = this.getOpenDocument(uri);
+        if (open) return open;
+        try {
+            return TextDocument.create(uri, 'flick', 0, fs.readFileSync(fileURLToPath(uri), 'utf8'));
+        } catch {
+            return undefined;
+        }
+    }
+
+    public validateDocument(document: TextDocument): Diagnostic[] {
+        const diagnostics: Diagnostic[] = [];
+        const { rootScope, parsed, plugins } = this.analyze(document);
+
+        // Validate file imports (use and import statements)
+        this.validateFileImports(document, parsed, diagnostics);
+
+        // Keywords, route-only identifiers and named arguments of the declared plugins
+        const pluginKeywords = new Set<string>();
+        const routeOnlyNames = new Set<string>();
+        const keywordNamedArguments = new Map<string, string[]>();
+        for (const definition of this.getPluginDefinitions(plugins)) {
+            definition.keywords?.forEach(k => pluginKeywords.add(k));
+            definition.routeOnly?.forEach(name => routeOnlyNames.add(name));
+            for (const [keyword, names] of Object.entries(definition.namedArguments ?? {})) {
+                keywordNamedArguments.set(keyword, [...(keywordNamedArguments.get(keyword) ?? []), ...names]);
+            }
+        }
+
+        const keywords = new Set([
+            'task', 'free', 'lock', 'group', 'blueprint', 'assume', 'maybe',
+            'otherwise', 'each', 'march', 'select', 'when', 'suppose', 'end',
+            'print', 'ask', 'give', 'route', 'respond', 'declare', 'import',
+            'use', 'do', 'for', 'with', 'in', 'from', 'to', 'as', 'and',
+            'num', 'literal', 'yes', 'no', 'JSON', 'GET', 'POST', 'PUT', 'DELETE', 'PATCH',
+            ...pluginKeywords
+        ]);
+
+        const checkIdentifier = (identifier: Identifier, scope: Scope) => {
+            const name = identifier.name;
+            // Empty names are placeholders left by parser error recovery
+            if (!name || keywords.has(name)) return;
+            if (this.lookupSymbol(scope, name)) return;
+
+            // Check for route-only keywords used outside route blocks
+            if (routeOnlyNames.has(name)) {
+                if (!this.isInsideScope(scope, 'route')) {
+                    diagnostics.push({
+                        range: identifier.range,
+                        message: `'${name}' can only be used inside route blocks`,
+                        severity: DiagnosticSeverity.Error,
+                        code: DiagnosticCode.RouteOnlyKeyword
+                    });
+                }
+                return;
+            }
+
+            diagnostics.push({
+                range: identifier.range,
+                message: `Variable '${name}' is used outside its scope or is undefined`,
+                severity: DiagnosticSeverity.Error,
+                code: DiagnosticCode.UndefinedVariable
+            });
+        };
+
+        const checkMember = (member: MemberExpression, scope: Scope) => {
+            if (member.object.kind !== 'Identifier') return;
+            const objectName = member.object.name;
+            const objectSymbol = this.lookupSymbol(scope, objectName);
+            if (!objectSymbol) return;
+            // A missing module file is reported on its `use` statement instead
+            if (objectSymbol.type === 'module' && !objectSymbol.moduleScope) return;
+            // Only part of what `.d.ts` files declare is read (no generics, mapped or conditional types)
+            if (objectSymbol.npmPackage) return;
+
+            // Check if the member exists on this type
+            const members = this.getMembersOfSymbol(objectSymbol, rootScope);
+            if (!members.some(m => m.name === member.property.name)) {
+                const typeName = objectSymbol.varType || objectSymbol.name;
+                diagnostics.push({
+                    range: member.property.range,
+                    message: `Property or method '${member.property.name}' does not exist on type '${typeName}'`,
+                    severity: DiagnosticSeverity.Error,
+                    code: DiagnosticCode.UnknownMember
+                });
+            }
+        };
+
+        const hasWebPlugin = plugins.some(plugin => plugin.name === 'web');
+        const checkWebPlugin = (keyword: string, node: AstNode) => {
+            if (hasWebPlugin) return;
+            const start = node.range.start;
+            diagnostics.push({
+                range: { start, end: { line: start.line, character: start.character + keyword.length } },
+                message: `'${keyword}' requires the web plugin. Add 'declare web' to use it.`,
+                severity: DiagnosticSeverity.Error,
+                code: DiagnosticCode.WebPluginNotDeclared
+            });
+        };
+
+        // Names declared so far in each scope, in source order
+        const declaredNames = new Map<Scope, Set<string>>();
+        const checkRedeclaration = (identifier: Identifier, scope: Scope) => {
+            if (!identifier.name) return;
+            let names = declaredNames.get(scope);
+            if (!names) {
+                names = new Set();
+                declaredNames.set(scope, names);
+            }
+            if (names.has(identifier.name)) {
+                diagnostics.push({
+                    range: identifier.range,
+                    message: `'${identifier.name}' is already declared in this scope`,
+                    severity: DiagnosticSeverity.Error,
+                    code: DiagnosticCode.Redeclaration
+                });
+            }
+            names.add(identifier.name);
+        };
+
+        const checkAssignmentTarget = (target: Expression, symbol: FlickSymbol, scope: Scope) => {
+            if (symbol.mutable === false) {
+                const message = symbol.type === 'loop-var'
+                    ? `Cannot reassign loop variable '${symbol.name}'`
+                    : symbol.node?.kind === 'VariableDeclaration'
+                        ? `Cannot reassign '${symbol.name}' because it is declared with 'lock'`
+                        : `Cannot reassign '${symbol.name}'`;
+                diagnostics.push({ range: target.range, message, severity: DiagnosticSeverity.Error, code: DiagnosticCode.ImmutableReassignment });
+                return;
+            }
+
+            if (target.kind === 'Identifier' && this.isAssignedBeforeDeclaration(target, symbol, scope)) {
+                diagnostics.push({
+                    range: target.range,
+                    message: `Variable '${symbol.name}' is assigned before it is declared`,
+                    severity: DiagnosticSeverity.Error,
+                    code: DiagnosticCode.AssignedBeforeDeclaration
+                });
+            }
+
+            if (target.kind === 'MemberExpression' && symbol.type === 'field') {
+                const objectSymbol = this.resolveExpressionSymbol(target.object, scope, rootScope);
+                const groupName = objectSymbol && this.resolveTypeName(objectSymbol, rootScope);
+                const groupScope = groupName ? this.findScopeByName(rootScope, groupName) : undefined;
+                if (groupScope && !this.isInsideGroup(scope, groupScope)) {
+                    diagnostics.push({
+                        range: target.range,
+                        message: `Field '${symbol.name}' of group '${groupScope.name}' can only be reassigned inside the group. Add a task to '${groupScope.name}' to change it.`,
+                        severity: DiagnosticSeverity.Error,
+                        code: DiagnosticCode.FieldAssignmentOutsideGroup
+                    });
+                }
+            }
+        };
+
+        const checkAssignable = (expected: string, value: Expression, name: string, scope: Scope) => {
+            const actual = this.inferType(value, scope, rootScope);
+            if (actual && this.isTypeMismatch(expected, actual, rootScope)) {
+                diagnostics.push({
+                    range: value.range,
+                    message: `Type '${actual}' is not assignable to '${expected}' variable '${name}'`,
+                    severity: DiagnosticSeverity.Error,
+                    code: DiagnosticCode.TypeMismatch
+                });
+            }
+        };
+
+        const checkArity = (taskSymbol: FlickSymbol, args: Expression[], callRange: Range) => {
+            const expected = taskSymbol.params!.length;
+            if (args.length === expected) return;
+            const plural = expected === 1 ? 'argument' : 'arguments';
+            diagnostics.push({
+                // Point at the surplus arguments, or at the whole call when some are missing
+                range: args.length > expected
+                    ? { start: args[expected].range.start, end: args[args.length - 1].range.end }
+                    : callRange,
+                message: `Task '${taskSymbol.name}' expects ${expected} ${plural} but got ${args.length}`,
+                severity: DiagnosticSeverity.Error,
+                code: DiagnosticCode.ArgumentCount
+            });
+        };
+
+        const checkCallArguments = (call: CallExpression, scope: Scope) => {
+            const taskSymbol = this.resolveExpressionSymbol(call.callee, scope, rootScope);
+            if (taskSymbol?.type !== 'task') return;
+            // Plugin tasks list the named arguments they accept
+            if (!taskSymbol.node && !taskSymbol.uri) {
+                checkNamedArguments(call.args, taskSymbol.name, taskSymbol.namedArguments ?? []);
+            }
+            if (!taskSymbol.params) return;
+
+            const positional = call.args.filter((arg): arg is Expression => arg.kind !== 'NamedArgument');
+            // npm functions have optional and rest parameters, and overloads
+            if (positional.length === call.args.length && !taskSymbol.npmPackage) {
+                checkArity(taskSymbol, positional, call.range);
+            }
+            positional.forEach((arg, index) => {
+                const param = taskSymbol.params![index];
+                if (!param) return;
+                const actual = this.inferType(arg, scope, rootScope);
+                if (actual && this.isTypeMismatch(param.type, actual, rootScope)) {
+                    diagnostics.push({
+                        range: arg.range,
+                        message: `Argument of type '${actual}' is not assignable to parameter '${param.name}' of type '${param.type}' in '${taskSymbol.name}'`,
+                        severity: DiagnosticSeverity.Error,
+                        code: DiagnosticCode.ArgumentType
+                    });
+                }
+            });
+        };
+
+        const checkNamedArguments = (args: Argument[], callee: string, accepted: string[]) => {
+            for (const arg of args) {
+                if (arg.kind !== 'NamedArgument' || accepted.includes(arg.name.name)) continue;
+                diagnostics.push({
+                    range: arg.name.range,
+                    message: accepted.length > 0
+                        ? `Unknown named argument '${arg.name.name}' for '${callee}'. Expected one of: ${accepted.join(', ')}`
+                        : `'${callee}' does not take named arguments`,
+                    severity: DiagnosticSeverity.Error,
+                    code: DiagnosticCode.UnknownNamedArgument
+                });
+            }
+        };
+
+        const checkDeclare = (statement: DeclareStatement) => {
+            const name = statement.plugin.name;
+            if (!name) return;
+            const definition = this.pluginRegistry.get(name);
+            if (!definition) {
+                diagnostics.push({
+                    range: statement.plugin.range,
+                    message: `Unknown plugin '${name}'. No definition was found among the bundled plugins or '*${PLUGIN_DEFINITION_SUFFIX}' files in the workspace.`,
+                    severity: DiagnosticSeverity.Warning,
+                    code: DiagnosticCode.UnknownPlugin
+                });
+                return;
+            }
+            const expected = definition.argument;
+            const argument = statement.argument;
+            if (argument && !expected) {
+                diagnostics.push({
+                    range: argument.range,
+                    message: `Plugin '${name}' does not take an '@' argument`,
+                    severity: DiagnosticSeverity.Error,
+                    code: DiagnosticCode.PluginArgument
+                });
+            } else if (!argument && expected?.required) {
+                diagnostics.push({
+                    range: statement.range,
+                    message: `Plugin '${name}' requires an argument: 'declare ${name}@${expected.name}'`,
+                    severity: DiagnosticSeverity.Error,
+                    code: DiagnosticCode.PluginArgument
+                });
+            } else if (argument && expected?.type === 'num' && !/^\d+(\.\d+)?$/.test(argument.value)) {
+                diagnostics.push({
+                    range: argument.range,
+                    message: `Plugin '${name}' expects a 'num' for its '${expected.name}' argument`,
+                    severity: DiagnosticSeverity.Error,
+                    code: DiagnosticCode.PluginArgument
+                });
+            }
+        };
+
+        const checkArithmetic = (expression: BinaryExpression, scope: Scope) => {
+            if (!ARITHMETIC_OPERATORS.has(expression.operator)) return;
+            for (const operand of [expression.left, expression.right]) {
+                const actual = this.inferType(operand, scope, rootScope);
+                if (actual && actual !== 'num' && this.isKnownType(actual, rootScope)) {
+                    diagnostics.push({
+                        range: operand.range,
+                        message: `Operator '${expression.operator}' cannot be applied to type '${actual}'; expected 'num'. Use 'and' to join text.`,
+                        severity: DiagnosticSeverity.Error,
+                        code: DiagnosticCode.NonNumericOperand
+                    });
+                }
+            }
+        };
+
+        const visit = (node: AstNode, scope: Scope): void => {
+            const ownScope = this.nodeScopes.get(node) ?? scope;
+            switch (node.kind) {
+                case 'DeclareStatement':
+                    checkDeclare(node);
+                    return;
+                case 'UseStatement':
+                case 'ImportStatement':
+                    return;
+                case 'BlueprintDeclaration':
+                    // Blueprint bodies hold signatures only; just check they are unique
+                    checkRedeclaration(node.name, scope);
+                    node.body.forEach(statement => {
+                        if (statement.kind === 'TaskDeclaration') checkRedeclaration(statement.name, ownScope);
+                    });
+                    return;
+                case 'Identifier':
+                    checkIdentifier(node, scope);
+                    return;
+                case 'MemberExpression': {
+                    // `Module/name` with a module file next to the document but no `use Module`
+                    const object = node.object;
+                    if (node.operator === '/' && object.kind === 'Identifier' && object.name && !this.lookupSymbol(scope, object.name) &&
+                        this.resolveModulePath(document.uri, object.name)) {
+                        diagnostics.push({
+                            range: object.range,
+                            message: `Module '${object.name}' is not imported. Use 'use ${object.name}' to import it.`,
+                            severity: DiagnosticSeverity.Error,
+                            code: DiagnosticCode.ModuleNotImported,
+                            data: { module: object.name }
+                        });
+                        return;
+                    }
+                    visit(object, scope);
+                    checkMember(node, scope);
+                    return;
+                }
+                case 'NamedArgument':
+                case 'Property':
+                    // Keys like `json=` or `{width: 0}` are not variable usages
+                    visit(node.value, scope);
+                    return;
+                case 'VariableDeclaration':
+                    checkRedeclaration(node.name, scope);
+                    if (node.initializer) {
+                        visit(node.initializer, scope);
+                        if (node.typeAnnotation) {
+                            checkAssignable(node.typeAnnotation.name, node.initializer, node.name.name, scope);
+                        }
+                    }
+                    return;
+                case 'Assignment': {
+                    visit(node.target, scope);
+                    visit(node.value, scope);
+                    const targetSymbol = this.resolveExpressionSymbol(node.target, scope, rootScope);
+                    if (targetSymbol) {
+                        checkAssignmentTarget(node.target, targetSymbol, scope);
+                    }
+                    if (targetSymbol?.varType) {
+                        checkAssignable(targetSymbol.varType, node.value, targetSymbol.name, scope);
+                    }
+                    return;
+                }
+                case 'CallExpression':
+                    forEachChild(node, child => visit(child, scope));
+                    checkCallArguments(node, scope);
+                    return;
+                case 'ExpressionStatement': {
+                    visit(node.expression, scope);
+                    // A task named on its own line is called without arguments
+                    if (node.expression.kind === 'Identifier' || node.expression.kind === 'MemberExpression') {
+                        const taskSymbol = this.resolveExpressionSymbol(node.expression, scope, rootScope);
+                        if (taskSymbol?.type === 'task' && taskSymbol.params) {
+                            checkArity(taskSymbol, [], node.expression.range);
+                        }
+                    }
+                    return;
+                }
+                case 'BinaryExpression':
+                    visit(node.left, scope);
+                    visit(node.right, scope);
+                    checkArithmetic(node, scope);
+                    return;
+                case 'TaskDeclaration':
+                    checkRedeclaration(node.name, scope);
+                    node.params.forEach(param => checkRedeclaration(param.name, ownScope));
+                    node.body?.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'GroupDeclaration':
+                    checkRedeclaration(node.name, scope);
+                    node.body.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'DoBlock':
+                    this.checkBlueprintConformance(node, scope, diagnostics);
+                    node.body.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'LambdaExpression':
+                    node.body.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'Branch':
+                    if (node.condition) visit(node.condition, scope);
+                    if (node.binding) checkRedeclaration(node.binding, ownScope);
+                    node.body.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'EachStatement':
+                    visit(node.iterable, scope);
+                    checkRedeclaration(node.variable, ownScope);
+                    node.body.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'MarchStatement':
+                    visit(node.from, scope);
+                    visit(node.to, scope);
+                    checkRedeclaration(node.variable, ownScope);
+                    node.body.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'RouteStatement':
+                    if (node.forward) {
+                        // Validate route forwarding to a module
+                        const moduleName = node.forward.name;
+                        if (moduleName && this.lookupSymbol(scope, moduleName)?.type !== 'module') {
+                            diagnostics.push({
+                                range: node.forward.range,
+                                message: `Module '${moduleName}' is not imported. Use 'use ${moduleName}' to import it.`,
+                                severity: DiagnosticSeverity.Error,
+                                code: DiagnosticCode.ModuleNotImported,
+                                data: { module: moduleName }
+                            });
+                        }
+                    }
+                    checkWebPlugin('route', node);
+                    node.body?.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'RespondStatement':
+                    checkWebPlugin('respond', node);
+                    if (hasWebPlugin) {
+                        checkNamedArguments(node.args, 'respond', keywordNamedArguments.get('respond') ?? []);
+                    }
+                    forEachChild(node, child => visit(child, ownScope));
+                    return;
+                default:
+                    forEachChild(node, child => visit(child, ownScope));
+            }
+        };
+        visit(parsed.program, rootScope);
+
+        // Report syntax errors and unclosed blocks
+        for (const error of parsed.errors) {
+            if (!error.block) {
+                diagnostics.push({ range: error.range, message: error.message, severity: DiagnosticSeverity.Error, source: 'flick', code: DiagnosticCode.SyntaxError });
+            }
+        }
+        diagnostics.push(...this.validateBlockStructure(parsed));
+
+        return diagnostics;
+    }
+
+    /**
+     * Parses the document and builds its scope tree, reusing the previous
+     * result while the document version is unchanged.
+     */
+    public analyze(document: TextDocument): DocumentAnalysis {
+        const uri = document.uri.toString();
+        const cached = this.analyses.get(uri);
+        if (cached && cached.version === document.version) {
+            return cached;
+        }
+
+        const parsed = parse(document.getText());
+
+        const globalScope: Scope = {
+            type: 'global',
+            startLine: 0,
+            endLine: document.lineCount - 1,
+            symbols: new Map(),
+            children: [],
+            parent: undefined,
+            node: parsed.program
+        };
+
+        const plugins: PluginDeclaration[] = [];
+        this.nodeScopes.set(parsed.program, globalScope);
+        for (const definition of this.pluginRegistry.implicit()) {
+            this.declarePlugin(definition, globalScope);
+        }
+        this.declareImports(document.uri, parsed.program, globalScope);
+        for (const statement of parsed.program.body) {
+            this.declareStatement(statement, globalScope, plugins);
+        }
+
+        this.linkDoBlocksToGroups(globalScope);
+        this.linkModules(document.uri, globalScope);
+        this.inferTypes(parsed.program, globalScope, globalScope);
+
+        const analysis: DocumentAnalysis = { version: document.version, parsed, rootScope: globalScope, plugins };
+        this.analyses.set(uri, analysis);
+        return analysis;
+    }
+
+    private declareStatement(statement: Statement, currentScope: Scope, plugins: PluginDeclaration[]): void {
+        switch (statement.kind) {
+            case 'DeclareStatement': {
+                const pluginName = statement.plugin.name;
+                plugins.push({ name: pluginName, argument: statement.argument?.value, line: statement.range.start.line });
+                const definition = this.pluginRegistry.get(pluginName);
+                currentScope.symbols.set(pluginName, {
+                    name: pluginName,
+                    type: 'plugin',
+                    range: statement.plugin.range,
+                    node: statement,
+                    documentation: definition && this.describePlugin(definition)
+                });
+                if (definition) {
+                    this.declarePlugin(definition, currentScope, statement);
+                }
+                return;
+            }
+            case 'UseStatement':
+                currentScope.symbols.set(statement.name.name, { name: statement.name.name, type: 'module', range: statement.name.range, node: statement });
+                return;
+            case 'ImportStatement':
+                return;
+            case 'VariableDeclaration': {
+                const symbolType = currentScope.type === 'group' ? 'field' : 'variable';
+                const varSymbol: FlickSymbol = {
+                    name: statement.name.name,
+                    type: symbolType,
+                    mutable: statement.mutable,
+                    varType: statement.typeAnnotation?.name,
+                    range: statement.name.range,
+                    node: statement
+                };
+                const objectType = statement.initializer && this.objectCallType(statement.initializer, currentScope);
+                if (objectType) {
+                    if (!varSymbol.varType) {
+                        varSymbol.varType = objectType;
+                    }
+                    varSymbol.dataType = objectType;
+                }
+                varSymbol.npmPackage = statement.initializer && this.npmValueSource(statement.initializer, currentScope);
+                if (statement.name.name) {
+                    currentScope.symbols.set(statement.name.name, varSymbol);
+                }
+                if (statement.initializer) {
+                    this.declareExpression(statement.initializer, currentScope, plugins);
+                }
+                return;
+            }
+            case 'TaskDeclaration': {
+                const params = statement.params.map(p => ({ name: p.name.name, type: p.typeAnnotation.name }));
+                currentScope.symbols.set(statement.name.name, { name: statement.name.name, type: 'task', params, range: statement.name.range, node: statement });
+                if (!statement.body) {
+                    // Blueprint signature: no body, no scope
+                    return;
+                }
+                const taskScope = this.createScope('task', statement, currentScope, statement.name.name);
+                for (const param of statement.params) {
+                    taskScope.symbols.set(param.name.name, { name: param.name.name, type: 'parameter', varType: param.typeAnnotation.name, mutable: true, range: param.name.range, node: param });
+                }
+                statement.body.forEach(s => this.declareStatement(s, taskScope, plugins));
+                return;
+            }
+            case 'GroupDeclaration':
+            case 'BlueprintDeclaration': {
+                const type = statement.kind === 'GroupDeclaration' ? 'group' : 'blueprint';
+                currentScope.symbols.set(statement.name.name, { name: statement.name.name, type, range: statement.name.range, node: statement });
+                const scope = this.createScope(type, statement, currentScope, statement.name.name);
+                statement.body.forEach(s => this.declareStatement(s, scope, plugins));
+                return;
+            }
+            case 'DoBlock': {
+                const doScope = this.createScope('do-block', statement, currentScope, `${statement.blueprint.name}:${statement.group.name}`);
+                doScope.targetGroupName = statement.group.name;
+                statement.body.forEach(s => this.declareStatement(s, doScope, plugins));
+                return;
+            }
+            case 'AssumeStatement':
+            case 'SelectStatement':
+            case 'AttemptStatement': {
+                if (statement.kind === 'SelectStatement') {
+                    this.declareExpression(statement.subject, currentScope, plugins);
+                }
+                const branches = statement.kind === 'SelectStatement' ? statement.cases : statement.branches;
+                for (const branch of branches) {
+                    if (branch.condition) {
+                        this.declareExpression(branch.condition, currentScope, plugins);
+                    }
+                    // Control-flow branches share the 'loop' scope type
+                    const branchScope = this.createScope('loop', branch, currentScope);
+                    if (branch.binding) {
+                        branchScope.symbols.set(branch.binding.name, { name: branch.binding.name, type: 'variable', mutable: false, range: branch.binding.range, node: branch });
+                    }
+                    branch.body.forEach(s => this.declareStatement(s, branchScope, plugins));
+                }
+                return;
+            }
+            case 'EachStatement':
+            case 'MarchStatement': {
+                if (statement.kind === 'EachStatement') {
+                    this.declareExpression(statement.iterable, currentScope, plugins);
+                } else {
+                    this.declareExpression(statement.from, currentScope, plugins);
+                    this.declareExpression(statement.to, currentScope, plugins);
+                }
+                const loopScope = this.createScope('loop', statement, currentScope);
+                loopScope.symbols.set(statement.variable.name, { name: statement.variable.name, type: 'loop-var', mutable: false, range: statement.variable.range, node: statement });
+                statement.body.forEach(s => this.declareStatement(s, loopScope, plugins));
+                return;
+            }
+            case 'RouteStatement': {
+                if (!statement.body) {
+                    return;
+                }
+                const routeName = `${statement.method?.name ?? ''} ${statement.path.value}`.trim();
+                const routeScope = this.createScope('route', statement, currentScope, routeName);
+                statement.body.forEach(s => this.declareStatement(s, routeScope, plugins));
+                return;
+            }
+            default:
+                forEachChild(statement, child => this.declareExpression(child, currentScope, plugins));
+        }
+    }
+
+    private declareExpression(expression: AstNode, currentScope: Scope, plugins: PluginDeclaration[]): void {
+        walk(expression, (node, parent) => {
+            if (node.kind !== 'LambdaExpression') {
+                return true;
+            }
+            const lambdaScope = this.createScope('lambda', node, currentScope);
+            const member = parent?.kind === 'CallExpression' ? this.objectCallMember(parent, currentScope) : undefined;
+            if (member?.blockBinding) {
+                lambdaScope.symbols.set(member.blockBinding, {
+                    name: member.blockBinding,
+                    type: 'variable',
+                    mutable: false,
+                    varType: member.dataType ?? member.returnType,
+                    range: node.range
+                });
+            }
+            node.body.forEach(s => this.declareStatement(s, lambdaScope, plugins));
+            return false;
+        });
+    }
+
+    /**
+     * Declares what a plugin definition provides: its tasks in the current scope,
+     * its namespace object, and a type scope for each of its object types.
+     */
+    private declarePlugin(definition: PluginDefinition, currentScope: Scope, statement?: DeclareStatement): void {
+        let globalScope = currentScope;
+        while (globalScope.parent) {
+            globalScope = globalScope.parent;
+        }
+        const range = statement?.range ?? Range.create(0, 0, 0, 0);
+        const line = range.start.line;
+        const typeNames = new Set(definition.types?.map(type => type.name));
+
+        for (const task of definition.tasks ?? []) {
+            currentScope.symbols.set(task.name, this.pluginTaskSymbol(task, range, typeNames));
+        }
+
+        if (definition.namespace) {
+            currentScope.symbols.set(definition.namespace, {
+                name: definition.namespace,
+                type: 'plugin',
+                varType: definition.namespace,
+                range,
+                node: statement,
+                documentation: definition.description
+            });
+        }
+
+        for (const type of definition.types ?? []) {
+            const typeScope: Scope = {
+                type: 'group',
+                name: type.name,
+                startLine: line,
+                endLine: line,
+                parent: globalScope,
+                symbols: new Map(),
+                children: []
+            };
+            for (const member of type.members) {
+                typeScope.symbols.set(member.name, this.pluginTaskSymbol(member, range, typeNames));
+            }
+            globalScope.children.push(typeScope);
+        }
+    }
+
+    private pluginTaskSymbol(task: PluginTask, range: Range, typeNames: Set<string>): FlickSymbol {
+        return {
+            name: task.name,
+            type: 'task',
+            params: task.params?.map(param => ({ name: param.name, type: param.type })),
+            returnType: task.returns,
+            // Plugin object types, such as the `Canvas` from `Window.canvas`, resolve members
+            dataType: task.returns && typeNames.has(task.returns) ? task.returns : undefined,
+            documentation: task.description,
+            namedArguments: task.namedArguments,
+            blockBinding: task.blockBinding,
+            range
+        };
+    }
+
+    // Hover text for a `declare` line, including the `@` argument format
+    protected describePlugin(definition: PluginDefinition): string {
+        let text = definition.description ?? '';
+        if (definition.argument) {
+            const argument = definition.argument;
+            text += `\n\nArgument: \`declare ${definition.name}@${argument.name}\` (\`${argument.type}\`${argument.required ? '' : ', optional'})`;
+            if (argument.description) {
+                text += ` - ${argument.description}`;
+            }
+        }
+        return text.trim();
+    }
+
+    // Definitions for the plugins a document declares, plus the implicit ones
+    protected getPluginDefinitions(plugins: PluginDeclaration[]): PluginDefinition[] {
+        const definitions = new Set(this.pluginRegistry.implicit());
+        for (const plugin of plugins) {
+            const definition = this.pluginRegistry.get(plugin.name);
+            if (definition) definitions.add(definition);
+        }
+        return Array.from(definitions);
+    }
+
+    private createScope(type: Scope['type'], node: AstNode, parent: Scope, name?: string): Scope {
+        const scope: Scope = {
+            type,
+            name,
+            startLine: node.range.start.line,
+            endLine: node.range.end.line,
+            parent,
+            symbols: new Map(),
+            children: [],
+            node
+        };
+        parent.children.push(scope);
+        this.nodeScopes.set(node, scope);
+        return scope;
+    }
+
+    /**
+     * The plugin or npm object type returned by a call such as `Window.canvas 400, 300`
+     * or `createClient url, key`, so that the variable it initializes gets that type's members.
+     */
+    private objectCallType(expression: Expression, scope: Scope): string | undefined {
+        return this.objectCallMember(expression, scope)?.dataType;
+    }
+
+    private objectCallMember(expression: Expression, scope: Scope): FlickSymbol | undefined {
+        const callee = expression.kind === 'CallExpression' ? expression.callee : expression;
+        if (callee.kind === 'Identifier') {
+            const symbol = this.lookupSymbol(scope, callee.name);
+            return symbol?.npmPackage ? symbol : undefined;
+        }
+        if (callee.kind !== 'MemberExpression' || callee.object.kind !== 'Identifier') return undefined;
+        // Plugin namespaces such as `Window`, or npm values such as `client` in `client.from "users"`
+        const objectSymbol = this.lookupSymbol(scope, callee.object.name);
+        const typeName = objectSymbol?.type === 'plugin' ? objectSymbol.varType : objectSymbol?.npmPackage ? objectSymbol.dataType : undefined;
+        if (!typeName) return undefined;
+        let globalScope = scope;
+        while (globalScope.parent) {
+            globalScope = globalScope.parent;
+        }
+        const typeScope = globalScope.children.find(child => child.type === 'group' && child.name === typeName);
+        return typeScope?.symbols.get(callee.property.name);
+    }
+
+    // The npm package of the name an expression such as `client.from("users").select` starts with
+    private npmValueSource(expression: Expression, scope: Scope): string | undefined {
+        switch (expression.kind) {
+            case 'Identifier':
+                return this.lookupSymbol(scope, expression.name)?.npmPackage;
+            case 'CallExpression':
+                return this.npmValueSource(expression.callee, scope);
+            case 'MemberExpression':
+                return this.npmValueSource(expression.object, scope);
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Declares the names `import` statements bring in, before the rest of the
+     * document since JavaScript hoists imports. Names found in the package's
+     * `.d.ts` files get its signatures and documentation, and the classes and
+     * interfaces they return become type scopes for member completion.
+     */
+    private declareImports(documentUri: string, program: Program, globalScope: Scope): void {
+        const imports = program.body.filter((statement): statement is ImportStatement => statement.kind === 'ImportStatement' && !!statement.source);
+        if (imports.length === 0) return;
+        const directory = documentUri.startsWith('file:') ? path.dirname(fileURLToPath(documentUri)) : this.workspaceRoots[0];
+        // Groups and blueprints of the document keep their names
+        const reserved = new Set(program.body.flatMap(statement =>
+            statement.kind === 'GroupDeclaration' || statement.kind === 'BlueprintDeclaration' ? [statement.name.name] : []));
+        const typeScopes = new Map<string, Scope>();
+
+        const typeScopeFor = (type: string | undefined, file: string, packageName: string, depth: number): string | undefined => {
+            const name = type && namedType(type);
+            if (!name || reserved.has(name) || depth > NPM_TYPE_DEPTH) return undefined;
+            if (typeScopes.has(name)) return name;
+            const declaration = this.npmPackages.findType(file, name);
+            if (!declaration) return undefined;
+            const scope: Scope = { type: 'group', name, startLine: -1, endLine: -1, parent: globalScope, symbols: new Map(), children: [] };
+            typeScopes.set(name, scope);
+            globalScope.children.push(scope);
+            for (const member of this.npmPackages.membersOf(declaration)) {
+                if (!scope.symbols.has(member.name)) {
+                    scope.symbols.set(member.name, npmSymbol(member, member.name, packageName, depth + 1));
+                }
+            }
+            return name;
+        };
+
+        const npmSymbol = (declaration: NpmDeclaration, name: string, packageName: string, depth: number): FlickSymbol => {
+            const symbol: FlickSymbol = {
+                name,
+                type: 'variable',
+                range: declaration.range,
+                uri: pathToFileURL(declaration.file).toString(),
+                npmPackage: packageName,
+                signature: declaration.signature,
+                documentation: declaration.documentation
+            };
+            switch (declaration.kind) {
+                case 'function': {
+                    symbol.type = 'task';
+                    symbol.params = declaration.params?.map(param => ({ name: param.name, type: flickType(param.type) ?? param.type }));
+                    symbol.dataType = typeScopeFor(declaration.type, declaration.file, packageName, depth);
+                    symbol.returnType = declaration.type && (symbol.dataType ?? flickType(declaration.type));
+                    return symbol;
+                }
+                case 'class':
+                case 'interface':
+                case 'type':
+                    // `free client := Client` instantiates the class, like a group
+                    symbol.type = declaration.kind === 'class' ? 'group' : 'blueprint';
+                    symbol.dataType = typeScopeFor(declaration.name, declaration.file, packageName, depth);
+                    return symbol;
+                default:
+                    // Variables, and namespaces and enums, whose members are reached with `.`
+                    symbol.mutable = false;
+                    symbol.dataType = declaration.kind === 'variable'
+                        ? typeScopeFor(declaration.type, declaration.file, packageName, depth)
+                        : typeScopeFor(declaration.name, declaration.file, packageName, depth);
+                    symbol.varType = symbol.dataType ?? (declaration.type && flickType(declaration.type));
+                    return symbol;
+            }
+        };
+
+        for (const statement of imports) {
+            const packageName = statement.source!.value;
+            const resolved = directory ? this.npmPackages.resolve(directory, packageName) : undefined;
+            const bindings = [
+                ...(statement.defaultImport ? [{ local: statement.defaultImport, imported: 'default', node: statement as AstNode }] : []),
+                ...statement.namedImports.map(specifier => ({ local: specifier.local, imported: specifier.imported.name, node: specifier as AstNode }))
+            ];
+            for (const { local, imported, node } of bindings) {
+                if (!local.name) continue;
+                const declaration = resolved?.typesFile ? this.npmPackages.findExport(resolved.typesFile, imported)?.[0] : undefined;
+                if (declaration) {
+                    globalScope.symbols.set(local.name, { ...npmSymbol(declaration, local.name, packageName, 1), node });
+                    continue;
+                }
+                // Without declarations only the name is known; it leads to the loaded file when there is one
+                globalScope.symbols.set(local.name, {
+                    name: local.name,
+                    type: 'variable',
+                    mutable: false,
+                    range: resolved?.entryFile ? Range.create(0, 0, 0, 0) : local.range,
+                    uri: resolved?.entryFile && pathToFileURL(resolved.entryFile).toString(),
+                    npmPackage: packageName,
+                    node
+                });
+            }
+        }
+    }
+
+    private isInsideScope(scope: Scope, type: Scope['type']): boolean {
+        let current: Scope | undefined = scope;
+        while (current) {
+            if (current.type === type) {
+                return true;
+            }
+            current = current.parent;
+        }
+        return false;
+    }
+
+    private linkDoBlocksToGroups(rootScope: Scope): void {
+        const findAllDoBlocks = (scope: Scope, doBlocks: Scope[] = []): Scope[] => {
+            if (scope.type === 'do-block') {
+                doBlocks.push(scope);
+            }
+            for (const child of scope.children) {
+                findAllDoBlocks(child, doBlocks);
+            }
+            return doBlocks;
+        };
+
+        const doBlocks = findAllDoBlocks(rootScope);
+        
+        for (const doBlock of doBlocks) {
+            const targetGroupName = doBlock.targetGroupName;
+            if (targetGroupName) {
+                const groupScope = this.findScopeByName(rootScope, targetGroupName);
+                if (groupScope) {
+                    // Add all tasks from do-block to the group scope
+                    for (const [name, symbol] of doBlock.symbols.entries()) {
+                        if (symbol.type === 'task') {
+                            groupScope.symbols.set(name, symbol);
+                        }
+                    }
+                    // Make the group's fields visible inside the do-block
+                    for (const [name, symbol] of groupScope.symbols.entries()) {
+                        if (!doBlock.symbols.has(name)) {
+                            doBlock.symbols.set(name, symbol);
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Checks a `do Blueprint for Group` block against the blueprint's task
+     * signatures: missing and extra tasks, and parameter count or type mismatches.
+     */
+    private checkBlueprintConformance(node: DoBlock, scope: Scope, diagnostics: Diagnostic[]): void {
+        const groupSymbol = node.group.name ? this.lookupSymbol(scope, node.group.name) : undefined;
+        if (node.group.name && groupSymbol?.type !== 'group') {
+            diagnostics.push({
+                range: node.group.range,
+                message: `Unknown group '${node.group.name}'`,
+                severity: DiagnosticSeverity.Error,
+                code: DiagnosticCode.UnknownGroup
+            });
+        }
+
+        const blueprintName = node.blueprint.name;
+        if (!blueprintName) return;
+        const blueprintSymbol = this.lookupSymbol(scope, blueprintName);
+        if (blueprintSymbol?.type !== 'blueprint' || blueprintSymbol.node?.kind !== 'BlueprintDeclaration') {
+            diagnostics.push({
+                range: node.blueprint.range,
+                message: blueprintSymbol?.type === 'group'
+                    ? `'${blueprintName}' is a group, not a blueprint`
+                    : `Unknown blueprint '${blueprintName}'`,
+                severity: DiagnosticSeverity.Error,
+                code: DiagnosticCode.UnknownBlueprint
+            });
+            return;
+        }
+
+        const signatures = blueprintSymbol.node.body.filter((s): s is TaskDeclaration => s.kind === 'TaskDeclaration');
+        const implementations = node.body.filter((s): s is TaskDeclaration => s.kind === 'TaskDeclaration');
+
+        for (const task of implementations) {
+            const signature = signatures.find(s => s.name.name === task.name.name);
+            if (!signature) {
+                diagnostics.push({
+                    range: task.name.range,
+                    message: `Task '${task.name.name}' is not declared in blueprint '${blueprintName}'`,
+                    severity: DiagnosticSeverity.Warning,
+                    code: DiagnosticCode.ExtraBlueprintTask
+                });
+                continue;
+            }
+            if (task.params.length !== signature.params.length) {
+                diagnostics.push({
+                    range: task.name.range,
+                    message: `Task '${task.name.name}' takes ${task.params.length} ${task.params.length === 1 ? 'parameter' : 'parameters'} but blueprint '${blueprintName}' declares ${signature.params.length}: ${this.formatSignature(signature)}`,
+                    severity: DiagnosticSeverity.Error,
+                    code: DiagnosticCode.BlueprintSignatureMismatch
+                });
+                continue;
+            }
+            task.params.forEach((param, index) => {
+                const expected = signature.params[index].typeAnnotation.name;
+                if (param.typeAnnotation.name !== expected) {
+                    diagnostics.push({
+                        range: param.typeAnnotation.range,
+                        message: `Parameter '${param.name.name}' of '${task.name.name}' has type '${param.typeAnnotation.name}' but blueprint '${blueprintName}' declares '${expected}'`,
+                        severity: DiagnosticSeverity.Error,
+                        code: DiagnosticCode.BlueprintSignatureMismatch
+                    });
+                }
+            });
+        }
+
+        const missing = signatures.filter(signature => !implementations.some(task => task.name.name === signature.name.name));
+        if (missing.length > 0) {
+            diagnostics.push({
+                range: { start: node.range.start, end: node.group.range.end },
+                message: `'${node.group.name}' does not implement ${missing.map(task => `'${task.name.name}'`).join(', ')} from blueprint '${blueprintName}'`,
+                severity: DiagnosticSeverity.Error,
+                code: DiagnosticCode.MissingBlueprintTasks,
+                data: { stubs: missing.map(task => this.formatSignature(task)) }
+            });
+        }
+    }
+
+    // `task draw with num(x), num(y)`
+    private formatSignature(task: TaskDeclaration): string {
+        const params = task.params.map(param => `${param.typeAnnotation.name}(${param.name.name})`).join(', ');
+        return `task ${task.name.name}${params ? ` with ${params}` : ''}`;
+    }
+
+    /**
+     * A `:=` that runs before the variable's declaration in the same flow of
+     * execution. Task and callback bodies run later, so they may assign
+     * variables declared further down in an enclosing scope.
+     */
+    private isAssignedBeforeDeclaration(target: Identifier, symbol: FlickSymbol, scope: Scope): boolean {
+        if (symbol.node?.kind !== 'VariableDeclaration') return false;
+        const declared = symbol.range.start;
+        const assigned = target.range.start;
+        if (declared.line < assigned.line || (declared.line === assigned.line && declared.character < assigned.character)) {
+            return false;
+        }
+        let current: Scope | undefined = scope;
+        while (current && current.symbols.get(symbol.name) !== symbol) {
+            if (current.type !== 'loop' && current.type !== 'route') {
+                return false;
+            }
+            current = current.parent;
+        }
+        return current !== undefined;
+    }
+
+    private isInsideGroup(scope: Scope, groupScope: Scope): boolean {
+        let current: Scope | undefined = scope;
+        while (current) {
+            if (current === groupScope || (current.type === 'do-block' && current.targetGroupName === groupScope.name)) {
+                return true;
+            }
+            current = current.parent;
+        }
+        return false;
+    }
+
+    protected getMembersOfSymbol(symbol: FlickSymbol, rootScope: Scope): FlickSymbol[] {
+        if (symbol.type === 'module' && symbol.moduleScope) {
+            return Array.from(symbol.moduleScope.symbols.values());
+        }
+        const typeName = this.resolveTypeName(symbol, rootScope);
+        if (typeName) {
+            const groupOrBlueprintScope = this.findScopeByName(rootScope, typeName);
+            if (groupOrBlueprintScope) {
+                return Array.from(groupOrBlueprintScope.symbols.values());
+            }
+        }
+        return [];
+    }
+
+    /**
+     * The group or blueprint a symbol's members come from: its declared type,
+     * or the group it was instantiated from (`free player1 := Player`).
+     */
+    protected resolveTypeName(symbol: FlickSymbol, rootScope: Scope): string | undefined {
+        if (symbol.dataType || symbol.varType) {
+            return symbol.dataType || symbol.varType;
+        }
+        const node = symbol.node;
+        if (node?.kind === 'VariableDeclaration' && node.initializer) {
+            const initializer = node.initializer;
+            const callee = initializer.kind === 'CallExpression' ? initializer.callee : initializer;
+            if (callee.kind === 'Identifier' && this.findScopeByName(rootScope, callee.name)?.type === 'group') {
+                return callee.name;
+            }
+        }
+        return undefined;
+    }
+
+    protected findScopeByName(rootScope: Scope, name: string): Scope | undefined {
+        let index = this.typeScopeIndex.get(rootScope);
+        if (!index) {
+            index = new Map();
+            this.indexTypeScopes(rootScope, index);
+            this.typeScopeIndex.set(rootScope, index);
+        }
+        return index.get(name);
+    }
+
+    private indexTypeScopes(scope: Scope, index: Map<string, Scope>): void {
+        if ((scope.type === 'group' || scope.type === 'blueprint') && scope.name && !index.has(scope.name)) {
+            index.set(scope.name, scope);
+        }
+        for (const child of scope.children) {
+            this.indexTypeScopes(child, index);
+        }
+    }
+
+    /**
+     * Records inferred types on declarations without an annotation, and the
+     * return types of tasks, in source order.
+     */
+    private inferTypes(node: AstNode, scope: Scope, rootScope: Scope, task?: FlickSymbol): void {
+        const ownScope = this.nodeScopes.get(node) ?? scope;
+        switch (node.kind) {
+            case 'VariableDeclaration': {
+                const symbol = scope.symbols.get(node.name.name);
+                if (symbol?.node === node && !symbol.varType && node.initializer) {
+                    symbol.inferredType = this.inferType(node.initializer, scope, rootScope);
+                }
+                break;
+            }
+            case 'MarchStatement': {
+                const symbol = ownScope.symbols.get(node.variable.name);
+                if (symbol) symbol.inferredType = 'num';
+                break;
+            }
+            case 'GiveStatement':
+                if (task && !task.returnType && node.value) {
+                    task.returnType = this.inferType(node.value, scope, rootScope);
+                }
+                break;
+            case 'TaskDeclaration': {
+                const symbol = scope.symbols.get(node.name.name);
+                task = symbol?.node === node ? symbol : undefined;
+                break;
+            }
+            case 'LambdaExpression':
+                // `give` inside a callback block returns from the callback
+                task = undefined;
+                break;
+        }
+        forEachChild(node, child => this.inferTypes(child, ownScope, rootScope, task));
+    }
+
+    private inferType(expression: Expression, scope: Scope, rootScope: Scope): string | undefined {
+        switch (expression.kind) {
+            case 'NumberLiteral':
+                return 'num';
+            case 'StringLiteral':
+            case 'AskExpression':
+                return 'literal';
+            case 'BooleanLiteral':
+                return 'bool';
+            case 'ArrayLiteral':
+                return 'list';
+            case 'ObjectLiteral':
+                return 'object';
+            case 'Identifier':
+            case 'MemberExpression': {
+                const symbol = this.resolveExpressionSymbol(expression, scope, rootScope);
+                return symbol ? this.typeOfSymbol(symbol) : undefined;
+            }
+            case 'CallExpression': {
+                if (expression.callee.kind === 'Identifier' && !this.lookupSymbol(scope, expression.callee.name)) {
+                    // Built-in conversions
+                    if (expression.callee.name === 'str') return 'literal';
+                    if (expression.callee.name === 'num') return 'num';
+                }
+                const symbol = this.resolveExpressionSymbol(expression.callee, scope, rootScope);
+                return symbol ? this.typeOfSymbol(symbol) : undefined;
+            }
+            case 'BinaryExpression':
+                if (expression.operator === 'and') return 'literal';
+                if (ARITHMETIC_OPERATORS.has(expression.operator)) return 'num';
+                if (COMPARISON_OPERATORS.has(expression.operator)) return 'bool';
+                return undefined;
+            case 'UnaryExpression':
+                return expression.operator === '-' ? 'num' : 'bool';
+            case 'AssumeExpression': {
+                // Known only when every arm agrees
+                const armTypes = new Set(expression.arms.map(arm => this.inferType(arm.value, scope, rootScope)));
+                return armTypes.size === 1 ? armTypes.values().next().value : undefined;
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    // Type of the value a symbol refers to; groups instantiate, tasks give their return type
+    private typeOfSymbol(symbol: FlickSymbol): string | undefined {
+        switch (symbol.type) {
+            case 'group':
+                return symbol.name;
+            case 'task':
+                return symbol.returnType;
+            case 'blueprint':
+            case 'module':
+            case 'plugin':
+                return undefined;
+            default:
+                return symbol.varType || symbol.dataType || symbol.inferredType;
+        }
+    }
+
+    private isKnownType(type: string, rootScope: Scope): boolean {
+        return PRIMITIVE_TYPES.has(type) || this.findScopeByName(rootScope, type)?.type === 'group';
+    }
+
+    // Only types the checker fully understands are compared; anything else is assumed compatible
+    private isTypeMismatch(expected: string, actual: string, rootScope: Scope): boolean {
+        return expected !== actual && this.isKnownType(expected, rootScope) && this.isKnownType(actual, rootScope);
+    }
+
+    private validateFileImports(document: TextDocument, parsed: ParseResult, diagnostics: Diagnostic[]): void {
+        if (!document.uri.startsWith('file:')) return;
+        const documentPath = fileURLToPath(document.uri);
+
+        this.forgetDependent(document.uri);
+        walk(parsed.program, node => {
+            if (node.kind === 'ImportStatement' && node.source && !this.npmPackages.resolve(path.dirname(documentPath), node.source.value)) {
+                const specifier = node.source.value;
+                diagnostics.push({
+                    range: node.source.range,
+                    message: specifier.startsWith('.') || path.isAbsolute(specifier)
+                        ? `Cannot find '${specifier}' relative to this file.`
+                        : `Package '${specifier}' is not installed. Run 'npm install ${specifier.split('/').slice(0, specifier.startsWith('@') ? 2 : 1).join('/')}' in the project.`,
+                    severity: DiagnosticSeverity.Error,
+                    code: DiagnosticCode.PackageNotFound,
+                    source: 'flick'
+                });
+                return;
+            }
+            if (node.kind !== 'UseStatement' || !node.name.name) return;
+
+            const modulePath = this.resolveModulePath(document.uri, node.name.name, node.path?.value);
+            if (!modulePath) {
+                const expected = node.path
+                    ? `'${node.path.value}' relative to this file`
+                    : `'${node.name.name}.fk' or '${node.name.name}.flick' next to this file`;
+                diagnostics.push({
+                    range: node.path?.range ?? node.name.range,
+                    message: `Module '${node.name.name}' not found. Expected ${expected}.`,
+                    severity: DiagnosticSeverity.Error,
+                    code: DiagnosticCode.ModuleNotFound,
+                    source: 'flick'
+                });
+                return;
+            }
+
+            let dependents = this.moduleDependents.get(modulePath);
+            if (!dependents) {
+                dependents = new Set();
+                this.moduleDependents.set(modulePath, dependents);
+            }
+            dependents.add(document.uri);
+
+            const cycle = this.findUseCycle(modulePath, documentPath, [documentPath, modulePath]);
+            if (cycle) {
+                diagnostics.push({
+                    range: node.range,
+                    message: `Circular 'use' chain: ${cycle.map(p => path.basename(p)).join(' -> ')}`,
+                    severity: DiagnosticSeverity.Error,
+                    code: DiagnosticCode.CircularUse,
+                    source: 'flick'
+                });
+            }
+        });
+    }
+
+    /**
+     * Depth-first search through `use` statements for a path from `fromPath`
+     * back to `targetPath`. Returns the chain of files when one exists.
+     */
+    private findUseCycle(fromPath: string, targetPath: string, chain: string[], visited: Set<string> = new Set()): string[] | undefined {
+        if (fromPath === targetPath) return chain;
+        if (visited.has(fromPath)) return undefined;
+        visited.add(fromPath);
+
+        const module = this.loadModule(fromPath);
+        for (const usedPath of module?.uses ?? []) {
+            const cycle = this.findUseCycle(usedPath, targetPath, [...chain, usedPath], visited);
+            if (cycle) return cycle;
+        }
+        return undefined;
+    }
+
+    /**
+     * Fills in `moduleScope` for every `use` in the document so that
+     * `Module/name` resolves to the imported file's top-level declarations.
+     */
+    private linkModules(documentUri: string, scope: Scope): void {
+        for (const symbol of scope.symbols.values()) {
+            if (symbol.type !== 'module' || symbol.node?.kind !== 'UseStatement') continue;
+            const modulePath = this.resolveModulePath(documentUri, symbol.name, symbol.node.path?.value);
+            symbol.moduleScope = modulePath ? this.loadModule(modulePath)?.scope : undefined;
+        }
+        for (const child of scope.children) {
+            this.linkModules(documentUri, child);
+        }
+    }
+
+    private loadModule(modulePath: string): ModuleInfo | undefined {
+        const uri = pathToFileURL(modulePath).toString();
+        const version = this.getDocumentVersion(uri);
+        if (version === undefined) {
+            this.modules.delete(modulePath);
+            return undefined;
+        }
+
+        const cached = this.modules.get(modulePath);
+        if (cached && cached.version === version) {
+            return cached;
+        }
+
+        const document = this.getDocument(uri);
+        if (!document) return undefined;
+        const parsed = parse(document.getText());
+
+        const scope: Scope = {
+            type: 'global',
+            name: path.basename(modulePath),
+            startLine: 0,
+            endLine: document.lineCount - 1,
+            symbols: new Map(),
+            children: [],
+            parent: undefined,
+            node: parsed.program
+        };
+        const plugins: PluginDeclaration[] = [];
+        for (const statement of parsed.program.body) {
+            this.declareStatement(statement, scope, plugins);
+        }
+        this.inferTypes(parsed.program, scope, scope);
+
+        // Only declarations are visible to importers; top-level variables stay private
+        const members = new Map<string, FlickSymbol>();
+        for (const symbol of scope.symbols.values()) {
+            // Tasks from the module's own plugins are not its members
+            if ((symbol.type === 'task' || symbol.type === 'group' || symbol.type === 'blueprint') && symbol.node) {
+                members.set(symbol.name, { ...symbol, uri });
+            }
+        }
+        const uses: string[] = [];
+        for (const statement of parsed.program.body) {
+            if (statement.kind === 'RouteStatement') {
+                const name = `${statement.method?.name ?? ''} ${statement.path.value}`.trim();
+                members.set(name, { name, type: 'route', range: statement.path.range, node: statement, uri });
+            } else if (statement.kind === 'UseStatement' && statement.name.name) {
+                const usedPath = this.resolveModulePath(uri, statement.name.name, statement.path?.value);
+                if (usedPath) uses.push(usedPath);
+            }
+        }
+        scope.symbols = members;
+
+        const module: ModuleInfo = { version, scope, uses };
+        this.modules.set(modulePath, module);
+        return module;
+    }
+
+    protected forgetDependent(uri: string): void {
+        for (const dependents of this.moduleDependents.values()) {
+            dependents.delete(uri);
+        }
+    }
+
+    public validateBlockStructure(parsed: ParseResult): Diagnostic[] {
+        // The parser matches every `=> ... end` and `{ ... }` pair while building the AST
+        return parsed.errors
+            .filter(error => error.block)
+            .map(error => ({
+                severity: DiagnosticSeverity.Error,
+                range: error.range,
+                message: error.message,
+                source: 'flick',
+                code: error.closer ? DiagnosticCode.UnclosedBlock : DiagnosticCode.BlockStructure,
+                data: error.closer ? { closer: error.closer } : undefined
+            }));
+    }
+}
@@ -0,0 +1,387 @@
+import { Position, Range } from 'vscode-languageserver-textdocument';
+
+// Typed syntax tree produced by the Flick parser
+
+export interface NodeBase {
+    kind: string;
+    range: Range;
+}
+
+export interface Program extends NodeBase {
+    kind: 'Program';
+    body: Statement[];
+}
+
+// ---------------------------------------------------------------------------
+// Statements
+// ---------------------------------------------------------------------------
+
+export interface DeclareStatement extends NodeBase {
+    kind: 'DeclareStatement';
+    plugin: Identifier;
+    argument?: { value: string; range: Range };
+}
+
+export interface UseStatement extends NodeBase {
+    kind: 'UseStatement';
+    name: Identifier;
+    path?: StringLiteral;
+}
+
+export interface ImportSpecifier extends NodeBase {
+    kind: 'ImportSpecifier';
+    imported: Identifier;
+    local: Identifier;
+}
+
+export interface ImportStatement extends NodeBase {
+    kind: 'ImportStatement';
+    defaultImport?: Identifier;
+    namedImports: ImportSpecifier[];
+    source?: StringLiteral;
+}
+
+export interface VariableDeclaration extends NodeBase {
+    kind: 'VariableDeclaration';
+    mutable: boolean;
+    typeAnnotation?: Identifier;
+    name: Identifier;
+    initializer?: Expression;
+}
+
+export interface Assignment extends NodeBase {
+    kind: 'Assignment';
+    target: Expression;
+    value: Expression;
+}
+
+export interface Parameter extends NodeBase {
+    kind: 'Parameter';
+    typeAnnotation: Identifier;
+    name: Identifier;
+}
+
+export interface TaskDeclaration extends NodeBase {
+    kind: 'TaskDeclaration';
+    name: Identifier;
+    params: Parameter[];
+    // Undefined for blueprint signatures, which have no body
+    body?: Statement[];
+}
+
+export interface GroupDeclaration extends NodeBase {
+    kind: 'GroupDeclaration';
+    name: Identifier;
+    body: Statement[];
+}
+
+export interface BlueprintDeclaration extends NodeBase {
+    kind: 'BlueprintDeclaration';
+    name: Identifier;
+    body: Statement[];
+}
+
+export interface DoBlock extends NodeBase {
+    kind: 'DoBlock';
+    blueprint: Identifier;
+    group: Identifier;
+    body: Statement[];
+}
+
+export interface Branch extends NodeBase {
+    kind: 'Branch';
+    keyword: 'assume' | 'maybe' | 'otherwise' | 'when' | 'suppose' | 'attempt' | 'oopsie';
+    keywordRange: Range;
+    condition?: Expression;
+    // Error binding for `oopsie err =>`
+    binding?: Identifier;
+    body: Statement[];
+}
+
+export interface AssumeStatement extends NodeBase {
+    kind: 'AssumeStatement';
+    branches: Branch[];
+}
+
+export interface SelectStatement extends NodeBase {
+    kind: 'SelectStatement';
+    subject: Expression;
+    cases: Branch[];
+}
+
+export interface AttemptStatement extends NodeBase {
+    kind: 'AttemptStatement';
+    branches: Branch[];
+}
+
+export interface EachStatement extends NodeBase {
+    kind: 'EachStatement';
+    variable: Identifier;
+    iterable: Expression;
+    body: Statement[];
+}
+
+export interface MarchStatement extends NodeBase {
+    kind: 'MarchStatement';
+    variable: Identifier;
+    from: Expression;
+    to: Expression;
+    body: Statement[];
+}
+
+export interface RouteStatement extends NodeBase {
+    kind: 'RouteStatement';
+    method?: Identifier;
+    path: StringLiteral;
+    // `route "/api" -> module` forwards instead of declaring a body
+    forward?: Identifier;
+    body?: Statement[];
+}
+
+export interface RespondStatement extends NodeBase {
+    kind: 'RespondStatement';
+    args: Argument[];
+}
+
+export interface PrintStatement extends NodeBase {
+    kind: 'PrintStatement';
+    value?: Expression;
+}
+
+export interface GiveStatement extends NodeBase {
+    kind: 'GiveStatement';
+    value?: Expression;
+}
+
+export interface ExpressionStatement extends NodeBase {
+    kind: 'ExpressionStatement';
+    expression: Expression;
+}
+
+export type Statement =
+    | DeclareStatement
+    | UseStatement
+    | ImportStatement
+    | VariableDeclaration
+    | Assignment
+    | TaskDeclaration
+    | GroupDeclaration
+    | BlueprintDeclaration
+    | DoBlock
+    | AssumeStatement
+    | SelectStatement
+    | AttemptStatement
+    | EachStatement
+    | MarchStatement
+    | RouteStatement
+    | RespondStatement
+    | PrintStatement
+    | GiveStatement
+    | ExpressionStatement;
+
+// ---------------------------------------------------------------------------
+// Expressions
+// ---------------------------------------------------------------------------
+
+export interface Identifier extends NodeBase {
+    kind: 'Identifier';
+    name: string;
+}
+
+export interface NumberLiteral extends NodeBase {
+    kind: 'NumberLiteral';
+    value: number;
+    raw: string;
+}
+
+export interface StringLiteral extends NodeBase {
+    kind: 'StringLiteral';
+    value: string;
+    raw: string;
+}
+
+export interface BooleanLiteral extends NodeBase {
+    kind: 'BooleanLiteral';
+    value: boolean;
+}
+
+export interface ArrayLiteral extends NodeBase {
+    kind: 'ArrayLiteral';
+    elements: Expression[];
+}
+
+export interface Property extends NodeBase {
+    kind: 'Property';
+    key: Identifier | StringLiteral;
+    value: Expression;
+}
+
+export interface ObjectLiteral extends NodeBase {
+    kind: 'ObjectLiteral';
+    properties: Property[];
+}
+
+export interface MemberExpression extends NodeBase {
+    kind: 'MemberExpression';
+    object: Expression;
+    property: Identifier;
+    operator: '/' | '.';
+}
+
+export interface IndexExpression extends NodeBase {
+    kind: 'IndexExpression';
+    object: Expression;
+    index: Expression;
+}
+
+export interface NamedArgument extends NodeBase {
+    kind: 'NamedArgument';
+    name: Identifier;
+    value: Expression;
+}
+
+export type Argument = Expression | NamedArgument;
+
+export interface CallExpression extends NodeBase {
+    kind: 'CallExpression';
+    callee: Expression;
+    args: Argument[];
+    // `str(x)` as opposed to `greet name, 3`
+    parenthesized: boolean;
+}
+
+export interface BinaryExpression extends NodeBase {
+    kind: 'BinaryExpression';
+    operator: string;
+    left: Expression;
+    right: Expression;
+}
+
+export interface UnaryExpression extends NodeBase {
+    kind: 'UnaryExpression';
+    operator: string;
+    operand: Expression;
+}
+
+export interface ConditionalArm extends NodeBase {
+    kind: 'ConditionalArm';
+    condition?: Expression;
+    value: Expression;
+}
+
+// Inline `assume cond => a, otherwise => b`
+export interface AssumeExpression extends NodeBase {
+    kind: 'AssumeExpression';
+    arms: ConditionalArm[];
+}
+
+export interface AskExpression extends NodeBase {
+    kind: 'AskExpression';
+    prompt?: Expression;
+}
+
+// Trailing `=> ... end` block passed to a call, e.g. `Window.button "Go" =>`
+export interface LambdaExpression extends NodeBase {
+    kind: 'LambdaExpression';
+    body: Statement[];
+}
+
+// Placeholder left behind by error recovery
+export interface InvalidExpression extends NodeBase {
+    kind: 'InvalidExpression';
+}
+
+export type Expression =
+    | Identifier
+    | NumberLiteral
+    | StringLiteral
+    | BooleanLiteral
+    | ArrayLiteral
+    | ObjectLiteral
+    | MemberExpression
+    | IndexExpression
+    | CallExpression
+    | BinaryExpression
+    | UnaryExpression
+    | AssumeExpression
+    | AskExpression
+    | LambdaExpression
+    | InvalidExpression;
+
+export type AstNode =
+    | Program
+    | Statement
+    | Expression
+    | Branch
+    | Parameter
+    | ImportSpecifier
+    | Property
+    | NamedArgument
+    | ConditionalArm;
+
+/**
+ * Calls `visit` for every direct child node of `node`, in source order.
+ */
+export function forEachChild(node: AstNode, visit: (child: AstNode) => void): void {
+    for (const key of Object.keys(node)) {
+        if (key === 'range' || key === 'keywordRange') {
+            continue;
+        }
+        const value: unknown = (node as unknown as Record<string, unknown>)[key];
+        if (Array.isArray(value)) {
+            for (const item of value) {
+                if (isNode(item)) {
+                    visit(item);
+                }
+            }
+        } else if (isNode(value)) {
+            visit(value);
+        }
+    }
+}
+
+/**
+ * Depth-first walk. Returning `false` from `visit` skips the node's children.
+ */
+export function walk(node: AstNode, visit: (node: AstNode, parent?: AstNode) => boolean | void, parent?: AstNode): void {
+    if (visit(node, parent) === false) {
+        return;
+    }
+    forEachChild(node, child => walk(child, visit, node));
+}
+
+/**
+ * Returns the chain of nodes from `root` down to the innermost node containing `position`.
+ */
+export function findNodePath(root: AstNode, position: Position): AstNode[] {
+    const path: AstNode[] = [];
+    let node: AstNode | undefined = root;
+    while (node) {
+        path.push(node);
+        let next: AstNode | undefined;
+        forEachChild(node, child => {
+            if (!next && containsPosition(child.range, position)) {
+                next = child;
+            }
+        });
+        node = next;
+    }
+    return path;
+}
+
+export function containsPosition(range: Range, position: Position): boolean {
+    if (position.line < range.start.line || position.line > range.end.line) {
+        return false;
+    }
+    if (position.line === range.start.line && position.character < range.start.character) {
+        return false;
+    }
+    if (position.line === range.end.line && position.character > range.end.character) {
+        return false;
+    }
+    return true;
+}
+
+function isNode(value: unknown): value is AstNode {
+    return typeof value === 'object' && value !== null && 'kind' in value && typeof value.kind === 'string' && 'range' in value;
+}
@@ -0,0 +1,136 @@
+// The workspace call graph built by the language server for `flick/callGraph`,
+// and its DOT and JSON output
+
+export type CallGraphFormat = 'dot' | 'json';
+
+export interface CallGraphParams {
+    format: CallGraphFormat;
+}
+
+export interface CallGraphNode {
+    // `file.fk:name`, `file.fk:Group/name`, or `file.fk` for the file's top-level code
+    id: string;
+    kind: 'task' | 'file';
+    name: string;
+    // Group or blueprint of a member task
+    container?: string;
+    // Relative to the workspace folder
+    file: string;
+    // 1-based line of the task's name
+    line: number;
+}
+
+export interface CallGraphEdge {
+    from: string;
+    to: string;
+    // Call sites of `to` in `from`
+    calls: number;
+}
+
+export interface CallGraph {
+    nodes: CallGraphNode[];
+    edges: CallGraphEdge[];
+}
+
+export const CALL_GRAPH_REQUEST = 'flick/callGraph';
+export const CALL_GRAPH_FORMATS: CallGraphFormat[] = ['dot', 'json'];
+
+export function formatCallGraph(graph: CallGraph, format: CallGraphFormat): string {
+    return format === 'dot' ? toDot(graph) : toJson(graph);
+}
+
+/**
+ * Tasks nothing in the workspace calls. Top-level code is the entry point, so
+ * tasks called only from outside the workspace, such as tests, are listed too.
+ */
+export function findUncalledTasks(graph: CallGraph): string[] {
+    const called = new Set(graph.edges.filter(edge => edge.from !== edge.to).map(edge => edge.to));
+    return graph.nodes.filter(node => node.kind === 'task' && !called.has(node.id)).map(node => node.id);
+}
+
+/**
+ * Groups of tasks that call each other in a loop (strongly connected
+ * components, Tarjan's algorithm), including tasks that call themselves.
+ */
+export function findCycles(graph: CallGraph): string[][] {
+    const callees = new Map<string, string[]>();
+    for (const edge of graph.edges) {
+        callees.set(edge.from, [...(callees.get(edge.from) ?? []), edge.to]);
+    }
+    const indexes = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+
+    const connect = (id: string) => {
+        indexes.set(id, indexes.size);
+        lowLinks.set(id, indexes.get(id)!);
+        stack.push(id);
+        onStack.add(id);
+        for (const callee of callees.get(id) ?? []) {
+            if (!indexes.has(callee)) {
+                connect(callee);
+                lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(callee)!));
+            } else if (onStack.has(callee)) {
+                lowLinks.set(id, Math.min(lowLinks.get(id)!, indexes.get(callee)!));
+            }
+        }
+        if (lowLinks.get(id) !== indexes.get(id)) return;
+        const component: string[] = [];
+        let member: string;
+        do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+        } while (member !== id);
+        if (component.length > 1 || callees.get(id)?.includes(id)) {
+            cycles.push(component.reverse());
+        }
+    };
+    for (const node of graph.nodes) {
+        if (!indexes.has(node.id)) connect(node.id);
+    }
+    return cycles;
+}
+
+function toJson(graph: CallGraph): string {
+    return JSON.stringify({
+        nodes: graph.nodes,
+        edges: graph.edges,
+        uncalled: findUncalledTasks(graph),
+        cycles: findCycles(graph)
+    }, null, 2) + '\n';
+}
+
+// Files are clusters; uncalled tasks are dashed and calls within a cycle red
+function toDot(graph: CallGraph): string {
+    const uncalled = new Set(findUncalledTasks(graph));
+    const cycleOf = new Map<string, number>();
+    findCycles(graph).forEach((cycle, index) => cycle.forEach(id => cycleOf.set(id, index)));
+
+    const lines = ['digraph calls {', '    rankdir=LR;', '    node [shape=box, fontname="Helvetica"];'];
+    const files = Array.from(new Set(graph.nodes.map(node => node.file)));
+    files.forEach((file, index) => {
+        lines.push(`    subgraph cluster_${index} {`, `        label=${quote(file)};`);
+        for (const node of graph.nodes.filter(candidate => candidate.file === file)) {
+            const attributes = [`label=${quote(node.kind === 'file' ? '(top level)' : node.container ? `${node.container}/${node.name}` : node.name)}`];
+            if (node.kind === 'file') attributes.push('shape=ellipse');
+            if (uncalled.has(node.id)) attributes.push('style=dashed', 'color=gray50');
+            lines.push(`        ${quote(node.id)} [${attributes.join(', ')}];`);
+        }
+        lines.push('    }');
+    });
+    for (const edge of graph.edges) {
+        const attributes: string[] = [];
+        if (edge.calls > 1) attributes.push(`label="${edge.calls}"`);
+        if (cycleOf.has(edge.from) && cycleOf.get(edge.from) === cycleOf.get(edge.to)) attributes.push('color=red');
+        lines.push(`    ${quote(edge.from)} -> ${quote(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+    }
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+function quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
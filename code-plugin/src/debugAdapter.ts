@@ -0,0 +1,301 @@
+import * as path from 'path';
+import { DebugAdapter, DebugProtocolMessage, Event, EventEmitter } from 'vscode';
+import {
+    InterpreterBinding,
+    InterpreterConnection,
+    InterpreterEvent,
+    InterpreterLauncher,
+    InterpreterScope,
+    LaunchedInterpreter,
+    isInterpreterBreakpoint,
+    isInterpreterFrame,
+    isInterpreterScope,
+    isRecord,
+    responseList
+} from './debugConnection';
+
+// The parts of the Debug Adapter Protocol the adapter uses
+interface DebugRequest {
+    seq: number;
+    type: 'request';
+    command: string;
+    // Checked by the handler of each command
+    arguments?: unknown;
+}
+
+export interface FlickLaunchArguments {
+    program: string;
+    cwd?: string;
+    args?: string[];
+    stopOnEntry?: boolean;
+}
+
+// Flick programs run on a single thread
+const THREAD_ID = 1;
+
+// What a variablesReference handed to the client points at
+type VariableContainer = { frame: number; scope: string } | { bindings: InterpreterBinding[] };
+
+/**
+ * Debug adapter for Flick programs, run inline in the extension host. It
+ * translates DAP requests from VS Code into the interpreter's line-based debug
+ * protocol (see debugConnection.ts) and its events back into DAP events.
+ */
+export class FlickDebugAdapter implements DebugAdapter {
+    private readonly sendMessage = new EventEmitter<DebugProtocolMessage>();
+    public readonly onDidSendMessage: Event<DebugProtocolMessage> = this.sendMessage.event;
+
+    private seq = 1;
+    private interpreter: LaunchedInterpreter | undefined;
+    private stopOnEntry = false;
+    // Reset whenever the program resumes, since the frames they point into are gone
+    private containers: VariableContainer[] = [];
+    private scopeCache: Map<number, InterpreterScope[]> = new Map();
+
+    constructor(
+        private readonly interpreterPath: string,
+        private readonly launchInterpreter: InterpreterLauncher
+    ) {}
+
+    public handleMessage(message: DebugProtocolMessage): void {
+        const request = message as DebugRequest;
+        if (request.type !== 'request') return;
+        this.dispatch(request).catch(error => this.sendErrorResponse(request, error instanceof Error ? error.message : String(error)));
+    }
+
+    public dispose(): void {
+        this.interpreter?.stop();
+        this.interpreter = undefined;
+        this.sendMessage.dispose();
+    }
+
+    private async dispatch(request: DebugRequest): Promise<void> {
+        const args = isRecord(request.arguments) ? request.arguments : {};
+        switch (request.command) {
+            case 'initialize':
+                this.sendResponse(request, {
+                    supportsConfigurationDoneRequest: true,
+                    supportsTerminateRequest: true
+                });
+                return;
+            case 'launch':
+                await this.launch(launchArguments(args));
+                this.sendResponse(request);
+                // Ask for breakpoints now that there is an interpreter to send them to
+                this.sendEvent('initialized');
+                return;
+            case 'setBreakpoints':
+                this.sendResponse(request, { breakpoints: await this.setBreakpoints(sourcePath(args.source), breakpointLines(args.breakpoints)) });
+                return;
+            case 'configurationDone':
+                await this.connection().request('start', { stopOnEntry: this.stopOnEntry });
+                this.sendResponse(request);
+                return;
+            case 'threads':
+                this.sendResponse(request, { threads: [{ id: THREAD_ID, name: 'main' }] });
+                return;
+            case 'stackTrace':
+                this.sendResponse(request, await this.stackTrace());
+                return;
+            case 'scopes':
+                this.sendResponse(request, { scopes: await this.scopes(numberArgument(args, 'frameId')) });
+                return;
+            case 'variables':
+                this.sendResponse(request, { variables: await this.variables(numberArgument(args, 'variablesReference')) });
+                return;
+            case 'continue':
+            case 'next':
+            case 'stepIn':
+            case 'stepOut':
+                this.resetVariables();
+                await this.connection().request(request.command);
+                this.sendResponse(request, request.command === 'continue' ? { allThreadsContinued: true } : undefined);
+                return;
+            case 'pause':
+                await this.connection().request('pause');
+                this.sendResponse(request);
+                return;
+            case 'disconnect':
+            case 'terminate':
+                this.interpreter?.stop();
+                this.interpreter = undefined;
+                this.sendResponse(request);
+                if (request.command === 'terminate') this.sendEvent('terminated');
+                return;
+            default:
+                this.sendErrorResponse(request, `Unsupported request '${request.command}'.`);
+        }
+    }
+
+    private async launch(args: FlickLaunchArguments): Promise<void> {
+        this.stopOnEntry = args.stopOnEntry ?? false;
+        this.interpreter = await this.launchInterpreter(
+            {
+                interpreter: this.interpreterPath,
+                program: args.program,
+                cwd: args.cwd ?? path.dirname(args.program),
+                args: args.args ?? []
+            },
+            (category, text) => this.sendEvent('output', { category, output: text })
+        );
+        this.interpreter.connection.onEvent(event => this.interpreterEvent(event));
+    }
+
+    private interpreterEvent(event: InterpreterEvent): void {
+        switch (event.event) {
+            case 'stopped':
+                this.resetVariables();
+                this.sendEvent('stopped', {
+                    reason: event.reason,
+                    description: event.description,
+                    threadId: THREAD_ID,
+                    allThreadsStopped: true
+                });
+                break;
+            case 'output':
+                this.sendEvent('output', { category: event.category, output: event.text });
+                break;
+            case 'exited':
+                this.sendEvent('exited', { exitCode: event.code });
+                this.sendEvent('terminated');
+                this.interpreter?.stop();
+                this.interpreter = undefined;
+                break;
+        }
+    }
+
+    private async setBreakpoints(file: string | undefined, lines: number[]): Promise<object[]> {
+        if (!file) return [];
+        const result = await this.connection().request('setBreakpoints', { file, lines });
+        const placed = responseList(result, 'breakpoints', isInterpreterBreakpoint);
+        // The interpreter may move a breakpoint to the next line with a statement on it
+        return lines.map((line, index) => ({
+            verified: placed[index]?.verified ?? false,
+            line: placed[index]?.line ?? line
+        }));
+    }
+
+    private async stackTrace(): Promise<object> {
+        const frames = responseList(await this.connection().request('stackTrace'), 'frames', isInterpreterFrame);
+        return {
+            stackFrames: frames.map((frame, index) => ({
+                id: index,
+                name: frame.task ?? '<top level>',
+                source: { name: path.basename(frame.file), path: frame.file },
+                line: frame.line,
+                column: frame.column ?? 1
+            })),
+            totalFrames: frames.length
+        };
+    }
+
+    private async scopes(frame: number): Promise<object[]> {
+        const scopes = await this.frameScopes(frame);
+        return scopes.map(scope => ({
+            name: scope.name,
+            variablesReference: this.addContainer({ frame, scope: scope.name }),
+            namedVariables: scope.bindings.length,
+            expensive: false
+        }));
+    }
+
+    private async variables(reference: number): Promise<object[]> {
+        const container = this.containers[reference - 1];
+        if (!container) return [];
+        const bindings = 'bindings' in container
+            ? container.bindings
+            : (await this.frameScopes(container.frame)).find(scope => scope.name === container.scope)?.bindings ?? [];
+        return bindings.map(binding => ({
+            name: binding.name,
+            value: binding.value,
+            // `lock x: num` shows as `lock num`, group fields just as their type
+            type: binding.mutable === undefined ? binding.type : `${binding.mutable ? 'free' : 'lock'}${binding.type ? ` ${binding.type}` : ''}`,
+            presentationHint: binding.mutable === false ? { attributes: ['readOnly'] } : undefined,
+            variablesReference: binding.fields && binding.fields.length > 0 ? this.addContainer({ bindings: binding.fields }) : 0
+        }));
+    }
+
+    private async frameScopes(frame: number): Promise<InterpreterScope[]> {
+        let scopes = this.scopeCache.get(frame);
+        if (!scopes) {
+            scopes = responseList(await this.connection().request('variables', { frame }), 'scopes', isInterpreterScope);
+            this.scopeCache.set(frame, scopes);
+        }
+        return scopes;
+    }
+
+    // References are 1-based; 0 means "nothing to expand"
+    private addContainer(container: VariableContainer): number {
+        this.containers.push(container);
+        return this.containers.length;
+    }
+
+    private resetVariables(): void {
+        this.containers = [];
+        this.scopeCache.clear();
+    }
+
+    private connection(): InterpreterConnection {
+        if (!this.interpreter) {
+            throw new Error('The program is not running.');
+        }
+        return this.interpreter.connection;
+    }
+
+    private sendResponse(request: DebugRequest, body?: object): void {
+        this.sendMessage.fire({
+            seq: this.seq++,
+            type: 'response',
+            request_seq: request.seq,
+            command: request.command,
+            success: true,
+            body
+        } as DebugProtocolMessage);
+    }
+
+    private sendErrorResponse(request: DebugRequest, message: string): void {
+        this.sendMessage.fire({
+            seq: this.seq++,
+            type: 'response',
+            request_seq: request.seq,
+            command: request.command,
+            success: false,
+            message
+        } as DebugProtocolMessage);
+    }
+
+    private sendEvent(event: string, body?: object): void {
+        this.sendMessage.fire({ seq: this.seq++, type: 'event', event, body } as DebugProtocolMessage);
+    }
+}
+
+// The launch configuration, checked since it comes from the user's launch.json
+function launchArguments(args: Record<string, unknown>): FlickLaunchArguments {
+    if (typeof args.program !== 'string' || !args.program) {
+        throw new Error('The launch configuration has no \'program\' to debug.');
+    }
+    if (args.cwd !== undefined && typeof args.cwd !== 'string') {
+        throw new Error('\'cwd\' in the launch configuration must be a path.');
+    }
+    if (args.args !== undefined && !(Array.isArray(args.args) && args.args.every(arg => typeof arg === 'string'))) {
+        throw new Error('\'args\' in the launch configuration must be a list of strings.');
+    }
+    return { program: args.program, cwd: args.cwd, args: args.args, stopOnEntry: args.stopOnEntry === true };
+}
+
+function sourcePath(source: unknown): string | undefined {
+    return isRecord(source) && typeof source.path === 'string' ? source.path : undefined;
+}
+
+function breakpointLines(breakpoints: unknown): number[] {
+    return Array.isArray(breakpoints)
+        ? breakpoints.flatMap(breakpoint => isRecord(breakpoint) && typeof breakpoint.line === 'number' ? [breakpoint.line] : [])
+        : [];
+}
+
+function numberArgument(args: Record<string, unknown>, name: string): number {
+    if (typeof args[name] !== 'number') {
+        throw new Error(`The '${name}' argument must be a number.`);
+    }
+    return args[name];
+}
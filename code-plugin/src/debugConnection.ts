@@ -0,0 +1,274 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as net from 'net';
+
+// The interpreter's debug protocol: one JSON object per line over a local TCP
+// socket. The adapter listens, starts `flick debug <program> --port <port>`, and
+// the interpreter connects back. Requests carry an `id` that the response repeats;
+// events are sent whenever the program stops, prints or exits.
+
+export interface InterpreterFrame {
+    // Undefined for top-level code
+    task?: string;
+    file: string;
+    // 1-based
+    line: number;
+    column?: number;
+}
+
+export interface InterpreterBinding {
+    name: string;
+    value: string;
+    type?: string;
+    // `free` bindings are mutable, `lock` bindings are not
+    mutable?: boolean;
+    // Fields of a group instance
+    fields?: InterpreterBinding[];
+}
+
+export interface InterpreterScope {
+    name: string;
+    bindings: InterpreterBinding[];
+}
+
+// Where the interpreter placed a requested breakpoint
+export interface InterpreterBreakpoint {
+    line: number;
+    verified: boolean;
+}
+
+const STOP_REASONS = ['entry', 'breakpoint', 'step', 'pause', 'exception'] as const;
+
+export type InterpreterEvent =
+    | { event: 'stopped'; reason: typeof STOP_REASONS[number]; description?: string }
+    | { event: 'output'; category: 'stdout' | 'stderr'; text: string }
+    | { event: 'exited'; code: number };
+
+/**
+ * What the debug adapter needs from a running interpreter. `SocketInterpreter`
+ * talks to a real one; a stub can stand in for it when testing the adapter.
+ */
+export interface InterpreterConnection {
+    onEvent(listener: (event: InterpreterEvent) => void): void;
+    // Resolves with the response's `result`, which callers check before use
+    request(command: string, args?: object): Promise<unknown>;
+    close(): void;
+}
+
+export interface LaunchOptions {
+    interpreter: string;
+    program: string;
+    cwd: string;
+    args: string[];
+}
+
+export interface LaunchedInterpreter {
+    connection: InterpreterConnection;
+    stop(): void;
+}
+
+export type InterpreterLauncher = (
+    options: LaunchOptions,
+    output: (category: 'stdout' | 'stderr', text: string) => void
+) => Promise<LaunchedInterpreter>;
+
+// How long the interpreter gets to connect back after it starts
+const CONNECT_TIMEOUT_MS = 10000;
+
+export class SocketInterpreter implements InterpreterConnection {
+    private nextId = 1;
+    private pending: Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }> = new Map();
+    private listeners: Array<(event: InterpreterEvent) => void> = [];
+    private buffer = '';
+    private exited = false;
+
+    // `report` is told about lines that aren't protocol messages, such as stray prints, and socket errors
+    constructor(private readonly socket: net.Socket, private readonly report: (text: string) => void = () => {}) {
+        socket.setEncoding('utf8');
+        socket.on('data', (chunk: string) => this.receive(chunk));
+        // Followed by 'close', which fails the pending requests
+        socket.on('error', error => this.report(`The debug connection failed: ${error.message}\n`));
+        socket.on('close', () => {
+            for (const { reject } of this.pending.values()) {
+                reject(new Error('The interpreter disconnected.'));
+            }
+            this.pending.clear();
+        });
+    }
+
+    public onEvent(listener: (event: InterpreterEvent) => void): void {
+        this.listeners.push(listener);
+    }
+
+    public request(command: string, args: object = {}): Promise<unknown> {
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            this.socket.write(JSON.stringify({ id, command, ...args }) + '\n');
+        });
+    }
+
+    /**
+     * Ends the session as if the interpreter had sent `exited`, for an
+     * interpreter that crashed or dropped the connection. Does nothing once
+     * it has exited.
+     */
+    public end(code: number): void {
+        this.dispatch({ event: 'exited', code });
+    }
+
+    public close(): void {
+        this.socket.destroy();
+    }
+
+    private receive(chunk: string): void {
+        this.buffer += chunk;
+        let newline: number;
+        while ((newline = this.buffer.indexOf('\n')) >= 0) {
+            const line = this.buffer.slice(0, newline).trim();
+            this.buffer = this.buffer.slice(newline + 1);
+            if (line.length === 0) continue;
+            let message: unknown;
+            try {
+                message = JSON.parse(line);
+            } catch {
+                message = undefined;
+            }
+            if (isRecord(message) && (typeof message.id === 'number' || isInterpreterEvent(message))) {
+                this.dispatch(message);
+            } else {
+                this.report(`Ignoring a line from the interpreter that is not a debug message: ${line}\n`);
+            }
+        }
+    }
+
+    private dispatch(message: Record<string, unknown> | InterpreterEvent): void {
+        if ('id' in message && typeof message.id === 'number') {
+            const pending = this.pending.get(message.id);
+            this.pending.delete(message.id);
+            if (message.error) {
+                pending?.reject(new Error(String(message.error)));
+            } else {
+                pending?.resolve(message.result);
+            }
+        } else if (isInterpreterEvent(message)) {
+            if (message.event === 'exited') {
+                if (this.exited) return;
+                this.exited = true;
+            }
+            this.listeners.forEach(listener => listener(message));
+        }
+    }
+}
+
+/**
+ * Starts `flick debug` for the program and waits for it to connect to a socket
+ * on the loopback interface.
+ */
+export const launchSocketInterpreter: InterpreterLauncher = (options, output) => {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        let child: ChildProcess | undefined;
+        const fail = (message: string) => {
+            clearTimeout(timer);
+            server.close();
+            child?.kill();
+            reject(new Error(message));
+        };
+        const timer = setTimeout(
+            () => fail(`The interpreter did not connect within ${CONNECT_TIMEOUT_MS / 1000} seconds. Does '${options.interpreter}' support 'flick debug'?`),
+            CONNECT_TIMEOUT_MS
+        );
+
+        server.once('connection', socket => {
+            clearTimeout(timer);
+            // One debuggee per session
+            server.close();
+            const connection = new SocketInterpreter(socket, text => output('stderr', text));
+            let stopped = false;
+            // An interpreter that crashes or drops the connection never sends `exited`, so the
+            // session ends with the process: once both the socket and the process are gone
+            const ended = () => {
+                if (stopped || !child || !socket.destroyed) return;
+                if (child.exitCode === null && child.signalCode === null) {
+                    child.kill();
+                } else {
+                    connection.end(child.exitCode ?? 1);
+                }
+            };
+            socket.on('close', ended);
+            child?.on('exit', ended);
+            resolve({
+                connection,
+                stop: () => {
+                    stopped = true;
+                    socket.destroy();
+                    if (child && child.exitCode === null) child.kill();
+                }
+            });
+        });
+
+        server.listen(0, '127.0.0.1', () => {
+            const port = (server.address() as net.AddressInfo).port;
+            child = spawn(options.interpreter, ['debug', options.program, '--port', String(port), ...options.args], {
+                cwd: options.cwd,
+                shell: process.platform === 'win32'
+            });
+            child.stdout?.on('data', (data: Buffer) => output('stdout', data.toString()));
+            child.stderr?.on('data', (data: Buffer) => output('stderr', data.toString()));
+            child.on('error', error => fail(`Could not start the Flick interpreter '${options.interpreter}': ${error.message}`));
+            child.on('exit', code => {
+                if (server.listening) fail(`The interpreter exited with code ${code} before the debugger connected.`);
+            });
+        });
+    });
+};
+
+/**
+ * The `key` list of a response, checked item by item. A malformed response
+ * fails the request rather than the code that reads it.
+ */
+export function responseList<T>(result: unknown, key: string, isItem: (value: unknown) => value is T): T[] {
+    const list = isRecord(result) ? result[key] : undefined;
+    if (!Array.isArray(list) || !list.every(isItem)) {
+        throw new Error(`The interpreter sent a malformed '${key}' response.`);
+    }
+    return list;
+}
+
+export function isInterpreterFrame(value: unknown): value is InterpreterFrame {
+    return isRecord(value) && typeof value.file === 'string' && typeof value.line === 'number' &&
+        (value.task === undefined || typeof value.task === 'string') &&
+        (value.column === undefined || typeof value.column === 'number');
+}
+
+export function isInterpreterScope(value: unknown): value is InterpreterScope {
+    return isRecord(value) && typeof value.name === 'string' && Array.isArray(value.bindings) && value.bindings.every(isInterpreterBinding);
+}
+
+export function isInterpreterBreakpoint(value: unknown): value is InterpreterBreakpoint {
+    return isRecord(value) && typeof value.line === 'number' && typeof value.verified === 'boolean';
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isInterpreterBinding(value: unknown): value is InterpreterBinding {
+    return isRecord(value) && typeof value.name === 'string' && typeof value.value === 'string' &&
+        (value.type === undefined || typeof value.type === 'string') &&
+        (value.mutable === undefined || typeof value.mutable === 'boolean') &&
+        (value.fields === undefined || (Array.isArray(value.fields) && value.fields.every(isInterpreterBinding)));
+}
+
+function isInterpreterEvent(message: Record<string, unknown>): message is InterpreterEvent {
+    switch (message.event) {
+        case 'stopped':
+            return STOP_REASONS.some(reason => reason === message.reason) && (message.description === undefined || typeof message.description === 'string');
+        case 'output':
+            return (message.category === 'stdout' || message.category === 'stderr') && typeof message.text === 'string';
+        case 'exited':
+            return typeof message.code === 'number';
+        default:
+            return false;
+    }
+}
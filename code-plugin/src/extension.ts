@@ -1,11 +1,17 @@
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import {
     workspace,
     ExtensionContext,
     commands,
     window,
+    languages,
     TextDocument,
-    Terminal
+    Uri,
+    debug,
+    DebugAdapterInlineImplementation,
+    DebugConfiguration
 } from 'vscode';
 
 import {
@@ -14,8 +20,22 @@ import {
     ServerOptions,
     TransportKind
 } from 'vscode-languageclient/node';
+import { CALL_GRAPH_REQUEST, CallGraphFormat, CallGraphParams } from './callGraph';
+import { FlickDebugAdapter } from './debugAdapter';
+import { launchSocketInterpreter } from './debugConnection';
+import { RouteExplorer } from './routeExplorer';
+import { FlickRunner, SourceMap } from './runner';
+import { buildSelectionProgram, generatedProgramFile } from './selection';
+import { FlickTestController } from './testController';
 
 let client: LanguageClient;
+let runner: FlickRunner;
+
+// Programs built by `flick.runSelection` for unsaved files are written here;
+// those of saved files go next to the file
+const SELECTION_DIRECTORY = path.join(os.tmpdir(), 'flick-selection');
+// Selection programs whose run hasn't finished, removed on deactivation
+const selectionFiles: Set<string> = new Set();
 
 export function activate(context: ExtensionContext) {
     console.log('Flick extension is now active!');
@@ -40,8 +60,8 @@ export function activate(context: ExtensionContext) {
         // Register the server for flick documents
         documentSelector: [{ scheme: 'file', language: 'flick' }],
         synchronize: {
-            // Notify the server about file changes to '.clientrc files contained in the workspace
-            fileEvents: workspace.createFileSystemWatcher('**/.clientrc')
+            // Notify the server about Flick files, plugin definitions and lint configs changing on disk
+            fileEvents: workspace.createFileSystemWatcher('**/{*.fk,*.flick,*.flickplugin.json,.flickrc,flick.json}')
         }
     };
 
@@ -56,6 +76,11 @@ export function activate(context: ExtensionContext) {
     // Start the client. This will also launch the server
     client.start();
 
+    runner = new FlickRunner(window.createOutputChannel('Flick'), languages.createDiagnosticCollection('flick-runtime'));
+    context.subscriptions.push(runner);
+    context.subscriptions.push(new FlickTestController(getInterpreterPath));
+    context.subscriptions.push(new RouteExplorer(file => runFlickProgram(Uri.file(file), file)));
+
     context.subscriptions.push(
         commands.registerCommand('flick.runFile', async () => {
             const editor = window.activeTextEditor;
@@ -92,56 +117,140 @@ export function activate(context: ExtensionContext) {
                 return;
             }
 
-            window.showInformationMessage('Running selection is not supported yet. Running entire file instead.');
-            if (document.isDirty) {
-                await document.save();
+            const selection = editor.selection;
+            if (selection.isEmpty) {
+                window.showErrorMessage('Select the Flick code to run.');
+                return;
+            }
+
+            // A selection ending at the start of a line doesn't include that line
+            const endLine = selection.end.character === 0 && selection.end.line > selection.start.line
+                ? selection.end.line - 1
+                : selection.end.line;
+            const program = buildSelectionProgram(document.getText(), document.uri.fsPath, selection.start.line, endLine);
+            const programFile = writeSelectionFile(document, program.text);
+            runFlickProgram(document.uri, programFile, {
+                sourceFile: document.uri.fsPath,
+                sourceLines: program.sourceLines
+            }).finally(() => removeSelectionFile(programFile));
+        })
+    );
+
+    context.subscriptions.push(
+        commands.registerCommand('flick.sendInput', async () => {
+            const text = await window.showInputBox({ prompt: 'Input for the running Flick program', placeHolder: 'Answer to `ask`' });
+            if (text === undefined) return;
+            if (!runner.sendInput(text)) {
+                window.showErrorMessage('No Flick program is running.');
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        commands.registerCommand('flick.exportCallGraph', async () => {
+            const choice = await window.showQuickPick([
+                { label: 'DOT', description: 'Graphviz, e.g. `dot -Tsvg callgraph.dot`', format: 'dot' as CallGraphFormat },
+                { label: 'JSON', description: 'Nodes, edges, uncalled tasks and cycles', format: 'json' as CallGraphFormat }
+            ], { placeHolder: 'Export the workspace call graph as' });
+            if (!choice) {
+                return;
+            }
+
+            const folder = workspace.workspaceFolders?.[0]?.uri;
+            const target = await window.showSaveDialog({
+                defaultUri: folder && Uri.joinPath(folder, `callgraph.${choice.format}`),
+                filters: { [choice.label]: [choice.format] }
+            });
+            if (!target) {
+                return;
+            }
+
+            const params: CallGraphParams = { format: choice.format };
+            const graph = await client.sendRequest<string>(CALL_GRAPH_REQUEST, params);
+            await workspace.fs.writeFile(target, Buffer.from(graph, 'utf8'));
+            await window.showTextDocument(target);
+        })
+    );
+
+    context.subscriptions.push(
+        debug.registerDebugConfigurationProvider('flick', {
+            resolveDebugConfiguration(folder, config: DebugConfiguration) {
+                // F5 without a launch.json debugs the active Flick file
+                if (!config.type && !config.request && !config.name) {
+                    const editor = window.activeTextEditor;
+                    if (editor?.document.languageId === 'flick') {
+                        config.type = 'flick';
+                        config.request = 'launch';
+                        config.name = 'Debug Flick File';
+                        config.program = '${file}';
+                    }
+                }
+                if (!config.program) {
+                    window.showErrorMessage('Open a Flick file or set \'program\' in the launch configuration to debug.');
+                    return undefined;
+                }
+                config.cwd ??= folder?.uri.fsPath;
+                return config;
+            }
+        }),
+        debug.registerDebugAdapterDescriptorFactory('flick', {
+            createDebugAdapterDescriptor() {
+                return new DebugAdapterInlineImplementation(new FlickDebugAdapter(getInterpreterPath(), launchSocketInterpreter));
             }
-            runFlickFile(document);
         })
     );
 }
 
 export function deactivate(): Thenable<void> | undefined {
+    selectionFiles.forEach(removeSelectionFile);
+    fs.rmSync(SELECTION_DIRECTORY, { recursive: true, force: true });
     if (!client) {
         return undefined;
     }
     return client.stop();
 }
 
-function getOrCreateTerminal(): Terminal {
-    const existing = window.terminals.find(t => t.name === 'Flick');
-    return existing ?? window.createTerminal({ name: 'Flick' });
-}
-
 function getInterpreterPath(): string {
     const config = workspace.getConfiguration('flick');
     const configured = config.get<string>('interpreterPath');
     return configured && configured.trim().length > 0 ? configured : 'flick';
 }
 
-function buildRunFileCommand(interpreter: string, relativePath: string): string {
-    return `${quote(interpreter)} run ${quote(relativePath)}`;
+function runFlickFile(document: TextDocument): void {
+    runFlickProgram(document.uri, document.uri.fsPath);
+}
+
+/**
+ * Runs `filePath` from the directory `source` would run from (its workspace
+ * folder), so relative paths in the program resolve the same way.
+ */
+function runFlickProgram(source: Uri, filePath: string, sourceMap?: SourceMap): Promise<number | null> {
+    const folder = workspace.getWorkspaceFolder(source);
+    const cwd = folder?.uri.fsPath ?? path.dirname(source.fsPath);
+    const relativePath = path.relative(cwd, filePath);
+    return runner.run({
+        interpreter: getInterpreterPath(),
+        programPath: relativePath.startsWith('..') || path.isAbsolute(relativePath) ? filePath : relativePath,
+        cwd,
+        sourceMap
+    });
 }
 
-function runFlickFile(document: TextDocument): void {
-    const interpreter = getInterpreterPath();
-    const folder = workspace.getWorkspaceFolder(document.uri);
-    const filePath = document.uri.fsPath;
-    const basePath = folder?.uri.fsPath;
-    const relativePath = basePath ? path.relative(basePath, filePath) : filePath;
-    const terminal = getOrCreateTerminal();
-    terminal.show(true);
-    if (basePath) {
-        terminal.sendText(`cd ${quote(basePath)}`, true);
+// Next to a saved file, so its relative imports and `node_modules` resolve; one file per run
+function writeSelectionFile(document: TextDocument, program: string): string {
+    let filePath: string;
+    if (document.uri.scheme === 'file') {
+        filePath = generatedProgramFile(document.uri.fsPath, 'selection');
+    } else {
+        fs.mkdirSync(SELECTION_DIRECTORY, { recursive: true });
+        filePath = generatedProgramFile(path.join(SELECTION_DIRECTORY, `${path.parse(document.uri.fsPath).name || 'untitled'}.fk`), 'selection');
     }
-    const command = buildRunFileCommand(interpreter, relativePath);
-    terminal.sendText(command, true);
+    fs.writeFileSync(filePath, program);
+    selectionFiles.add(filePath);
+    return filePath;
 }
 
-function quote(value: string): string {
-    if (/^[^\s"']+$/.test(value)) {
-        return value;
-    }
-    const escaped = value.replace(/"/g, '\\"');
-    return `"${escaped}"`;
+function removeSelectionFile(filePath: string): void {
+    fs.rmSync(filePath, { force: true });
+    selectionFiles.delete(filePath);
 }
@@ -0,0 +1,228 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { FlickAnalyzer } from './analyzer';
+import { LintRules, applyLintRules, findLintConfig, readLintConfig } from './lintRules';
+
+// `flick-check`: reports the diagnostics the editor shows for Flick files, for CI
+
+type OutputFormat = 'human' | 'json' | 'sarif';
+
+interface FileResult {
+    file: string;
+    diagnostics: Diagnostic[];
+}
+
+const FORMATS: OutputFormat[] = ['human', 'json', 'sarif'];
+const FLICK_EXTENSIONS = ['.fk', '.flick'];
+
+const USAGE = `Usage: flick-check [--format human|json|sarif] [file or directory ...]
+
+Checks Flick files, and every .fk/.flick file under the given directories
+(the current directory by default). Lint rules are read from the nearest
+.flickrc or flick.json. Exits with 1 when any error is reported, and with 2
+when a file can't be read.`;
+
+const SEVERITY_NAMES: Record<DiagnosticSeverity, string> = {
+    [DiagnosticSeverity.Error]: 'error',
+    [DiagnosticSeverity.Warning]: 'warning',
+    [DiagnosticSeverity.Information]: 'info',
+    [DiagnosticSeverity.Hint]: 'hint'
+};
+
+// SARIF has no separate level for hints
+const SARIF_LEVELS: Record<DiagnosticSeverity, string> = {
+    [DiagnosticSeverity.Error]: 'error',
+    [DiagnosticSeverity.Warning]: 'warning',
+    [DiagnosticSeverity.Information]: 'note',
+    [DiagnosticSeverity.Hint]: 'note'
+};
+
+function main(args: string[]): number {
+    let format: OutputFormat = 'human';
+    const inputs: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--help' || arg === '-h') {
+            console.log(USAGE);
+            return 0;
+        } else if (arg === '--format' || arg === '-f' || arg.startsWith('--format=')) {
+            const value = arg.startsWith('--format=') ? arg.slice('--format='.length) : args[++i];
+            if (!FORMATS.includes(value as OutputFormat)) {
+                console.error(`flick-check: --format must be one of ${FORMATS.join(', ')}`);
+                return 2;
+            }
+            format = value as OutputFormat;
+        } else if (arg.startsWith('-')) {
+            console.error(`flick-check: unknown option '${arg}'\n\n${USAGE}`);
+            return 2;
+        } else {
+            inputs.push(arg);
+        }
+    }
+
+    const files: string[] = [];
+    for (const input of inputs.length > 0 ? inputs : ['.']) {
+        const resolved = path.resolve(input);
+        if (!fs.existsSync(resolved)) {
+            console.error(`flick-check: '${input}' does not exist`);
+            return 2;
+        }
+        if (fs.statSync(resolved).isDirectory()) {
+            files.push(...findFlickFiles(resolved));
+        } else {
+            files.push(resolved);
+        }
+    }
+
+    let unreadable = false;
+    const results = checkFiles(files, process.cwd(), message => {
+        unreadable = true;
+        console.error(message);
+    });
+    const output = format === 'json' ? formatJson(results) : format === 'sarif' ? formatSarif(results) : formatHuman(results);
+    process.stdout.write(output);
+    const hasErrors = results.some(result => result.diagnostics.some(d => (d.severity ?? DiagnosticSeverity.Error) === DiagnosticSeverity.Error));
+    return unreadable ? 2 : hasErrors ? 1 : 0;
+}
+
+/**
+ * Validates each file and applies the lint rules of its project. Files that
+ * can't be read are reported as `path: message` and left out of the results.
+ */
+export function checkFiles(files: string[], cwd: string = process.cwd(), reportError: (message: string) => void = console.error): FileResult[] {
+    const analyzer = new FlickAnalyzer();
+    analyzer.setWorkspaceRoots([cwd]);
+    const configs = new Map<string, LintRules>();
+    const rulesFor = (file: string): LintRules => {
+        const configFile = findLintConfig(file, [cwd]);
+        if (!configFile) return {};
+        let rules = configs.get(configFile);
+        if (!rules) {
+            rules = readLintConfig(configFile, message => console.error(`flick-check: ${message}`));
+            configs.set(configFile, rules);
+        }
+        return rules;
+    };
+
+    const results: FileResult[] = [];
+    for (const file of files) {
+        let text: string;
+        try {
+            text = fs.readFileSync(file, 'utf8');
+        } catch (error) {
+            reportError(`${path.relative(cwd, file)}: ${error instanceof Error ? error.message : String(error)}`);
+            continue;
+        }
+        const document = TextDocument.create(pathToFileURL(file).toString(), 'flick', 0, text);
+        const diagnostics = applyLintRules(analyzer.validateDocument(document), text, rulesFor(file))
+            .sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+        results.push({ file, diagnostics });
+    }
+    return results;
+}
+
+function findFlickFiles(directory: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            if (!entry.name.startsWith('.') && entry.name !== 'node_modules' && entry.name !== 'out') {
+                files.push(...findFlickFiles(entryPath));
+            }
+        } else if (FLICK_EXTENSIONS.includes(path.extname(entry.name))) {
+            files.push(entryPath);
+        }
+    }
+    return files.sort();
+}
+
+function severityOf(diagnostic: Diagnostic): DiagnosticSeverity {
+    return diagnostic.severity ?? DiagnosticSeverity.Error;
+}
+
+// `src/main.fk:12:5: error: Variable 'x' is undefined [undefined-variable]`, then a summary
+function formatHuman(results: FileResult[]): string {
+    const lines: string[] = [];
+    const counts = new Map<DiagnosticSeverity, number>();
+    for (const { file, diagnostics } of results) {
+        for (const diagnostic of diagnostics) {
+            const { line, character } = diagnostic.range.start;
+            const severity = severityOf(diagnostic);
+            counts.set(severity, (counts.get(severity) ?? 0) + 1);
+            const rule = diagnostic.code ? ` [${diagnostic.code}]` : '';
+            lines.push(`${path.relative(process.cwd(), file)}:${line + 1}:${character + 1}: ${SEVERITY_NAMES[severity]}: ${diagnostic.message}${rule}`);
+        }
+    }
+    const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+    lines.push(`${plural(counts.get(DiagnosticSeverity.Error) ?? 0, 'error')}, ${plural(counts.get(DiagnosticSeverity.Warning) ?? 0, 'warning')} in ${plural(results.length, 'file')}`);
+    return lines.join('\n') + '\n';
+}
+
+// Lines and columns are 1-based, as in the human format
+function formatJson(results: FileResult[]): string {
+    return JSON.stringify(results.map(({ file, diagnostics }) => ({
+        file: path.relative(process.cwd(), file),
+        diagnostics: diagnostics.map(diagnostic => ({
+            rule: diagnostic.code,
+            severity: SEVERITY_NAMES[severityOf(diagnostic)],
+            message: diagnostic.message,
+            start: { line: diagnostic.range.start.line + 1, column: diagnostic.range.start.character + 1 },
+            end: { line: diagnostic.range.end.line + 1, column: diagnostic.range.end.character + 1 }
+        }))
+    })), null, 2) + '\n';
+}
+
+// SARIF 2.1.0, as read by GitHub code scanning and other CI tools
+function formatSarif(results: FileResult[]): string {
+    const ruleIds = new Set<string>();
+    const sarifResults = results.flatMap(({ file, diagnostics }) => diagnostics.map(diagnostic => {
+        const ruleId = String(diagnostic.code ?? 'flick');
+        ruleIds.add(ruleId);
+        return {
+            ruleId,
+            level: SARIF_LEVELS[severityOf(diagnostic)],
+            message: { text: diagnostic.message },
+            locations: [{
+                physicalLocation: {
+                    artifactLocation: { uri: path.relative(process.cwd(), file).split(path.sep).join('/') },
+                    region: {
+                        startLine: diagnostic.range.start.line + 1,
+                        startColumn: diagnostic.range.start.character + 1,
+                        endLine: diagnostic.range.end.line + 1,
+                        endColumn: diagnostic.range.end.character + 1
+                    }
+                }
+            }]
+        };
+    }));
+    return JSON.stringify({
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'flick-check',
+                    version: packageVersion(),
+                    rules: Array.from(ruleIds).sort().map(id => ({ id }))
+                }
+            },
+            results: sarifResults
+        }]
+    }, null, 2) + '\n';
+}
+
+function packageVersion(): string | undefined {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')).version;
+    } catch {
+        return undefined;
+    }
+}
+
+if (require.main === module) {
+    process.exitCode = main(process.argv.slice(2));
+}
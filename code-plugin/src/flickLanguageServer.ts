@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+import * as net from 'net';
+import { ProposedFeatures, createConnection } from 'vscode-languageserver/node';
+import { FlickLanguageServer } from './languageServer';
+
+// `flick-language-server`: the language server for editors other than VS Code
+
+const USAGE = `Usage: flick-language-server [--stdio | --socket=<port> | --listen=<port>]
+
+Speaks the Language Server Protocol over stdin and stdout (the default), over
+a connection to a client listening on <port> (--socket), or with the first
+client that connects to <port> on localhost (--listen).
+
+Plugin definitions and settings can be passed as initializationOptions:
+  { "plugins": ["path/to/a.flickplugin.json", "plugins/"], "settings": { "lint": { "rules": {} } } }`;
+
+// Passed by some clients and read by vscode-languageserver itself
+const IGNORED_OPTIONS = ['--clientProcessId'];
+
+function main(args: string[]): number | undefined {
+    let transport: { kind: 'stdio' } | { kind: 'socket' | 'listen'; port: number } = { kind: 'stdio' };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const [name, inlineValue] = arg.split('=', 2);
+        if (arg === '--help' || arg === '-h') {
+            console.log(USAGE);
+            return 0;
+        } else if (arg === '--version' || arg === '-v') {
+            console.log(require('../package.json').version);
+            return 0;
+        } else if (arg === '--stdio') {
+            transport = { kind: 'stdio' };
+        } else if (name === '--socket' || name === '--listen') {
+            const value = inlineValue ?? args[++i];
+            const port = Number(value);
+            if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+                console.error(`flick-language-server: ${name} needs a port number, not '${value ?? ''}'`);
+                return 2;
+            }
+            transport = { kind: name === '--socket' ? 'socket' : 'listen', port };
+        } else if (IGNORED_OPTIONS.includes(name)) {
+            if (inlineValue === undefined) i++;
+        } else {
+            console.error(`flick-language-server: unknown option '${arg}'\n\n${USAGE}`);
+            return 2;
+        }
+    }
+
+    switch (transport.kind) {
+        case 'stdio':
+            // Created from `--stdio` on the command line, so console output goes to the client's log instead of the protocol stream
+            if (!process.argv.includes('--stdio')) process.argv.push('--stdio');
+            new FlickLanguageServer();
+            break;
+        case 'socket': {
+            const socket = net.connect(transport.port, '127.0.0.1');
+            socket.on('error', error => {
+                console.error(`flick-language-server: could not connect to port ${transport.port}: ${error.message}`);
+                process.exit(1);
+            });
+            new FlickLanguageServer(createConnection(ProposedFeatures.all, socket, socket));
+            break;
+        }
+        case 'listen': {
+            const port = transport.port;
+            // One server per client; the port is released once it has connected
+            const server = net.createServer(socket => {
+                server.close();
+                new FlickLanguageServer(createConnection(ProposedFeatures.all, socket, socket));
+            });
+            server.on('error', error => {
+                console.error(`flick-language-server: could not listen on port ${port}: ${error.message}`);
+                process.exit(1);
+            });
+            server.listen(port, '127.0.0.1', () => console.error(`flick-language-server: listening on 127.0.0.1:${port}`));
+            break;
+        }
+    }
+    return undefined;
+}
+
+if (require.main === module) {
+    const exitCode = main(process.argv.slice(2));
+    if (exitCode !== undefined) process.exitCode = exitCode;
+}
@@ -0,0 +1,178 @@
+import { Comment, Token, tokenize } from './lexer';
+
+export interface FormatOptions {
+    tabSize: number;
+    insertSpaces: boolean;
+}
+
+// What an open indentation level belongs to
+type IndentKind = 'block' | 'branch' | 'select' | 'case' | 'bracket';
+
+// Keywords whose `=>` opens a body that runs until `end`, even with a statement after the arrow
+const BLOCK_KEYWORDS = new Set(['task', 'each', 'march', 'route', 'do']);
+// `assume ... maybe ... otherwise ... end` and `attempt ... oopsie ... end` share one closing `end`
+const BRANCH_KEYWORDS = new Set(['assume', 'maybe', 'otherwise', 'attempt', 'oopsie']);
+const CASE_KEYWORDS = new Set(['when', 'suppose']);
+const OPENING_BRACKETS = new Set(['{', '[', '(']);
+const CLOSING_BRACKETS = new Set(['}', ']', ')']);
+// Always written with exactly one space on each side
+const SPACED_TOKENS = new Set([':=', '==', '->', 'and']);
+const CONTINUATION_OPERATORS = new Set(['+', '-', '*', '/', '%', '==', '!=', '<', '>', '<=', '>=', 'and', ',']);
+
+/**
+ * Line-based formatter for Flick. Re-indents `=> ... end` and `{ ... }` blocks,
+ * aligns `maybe`/`otherwise`/`oopsie` with their opening keyword and normalizes
+ * spacing around a few operators. Strings and comments are copied verbatim.
+ */
+export class FlickFormatter {
+    private lines: string[];
+    private tokensByLine: Token[][];
+    private commentsByLine: Map<number, Comment> = new Map();
+    private stack: IndentKind[] = [];
+    private indentUnit: string;
+
+    constructor(private readonly text: string, options: FormatOptions) {
+        this.lines = text.split('\n');
+        this.indentUnit = options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+
+        const lexed = tokenize(text);
+        this.tokensByLine = this.lines.map(() => []);
+        for (const token of lexed.tokens) {
+            if (token.type !== 'newline' && token.type !== 'eof') {
+                this.tokensByLine[token.range.start.line].push(token);
+            }
+        }
+        for (const comment of lexed.comments) {
+            this.commentsByLine.set(comment.range.start.line, comment);
+        }
+    }
+
+    /**
+     * Returns the formatted text of every line, without line terminators.
+     */
+    public format(): string[] {
+        const result: string[] = [];
+        let continuation = false;
+
+        for (let line = 0; line < this.lines.length; line++) {
+            const tokens = this.tokensByLine[line];
+            const comment = this.commentsByLine.get(line);
+            if (tokens.length === 0 && !comment) {
+                result.push('');
+                continue;
+            }
+
+            const leading = tokens.length > 0 ? this.closeLeading(tokens[0]) : false;
+            const level = this.stack.length + (continuation && !leading ? 1 : 0);
+            result.push(this.indentUnit.repeat(level) + this.renderLine(tokens, comment));
+
+            if (tokens.length > 0) {
+                this.openAndClose(tokens, leading);
+                const last = tokens[tokens.length - 1];
+                continuation = CONTINUATION_OPERATORS.has(last.value) && this.stack[this.stack.length - 1] !== 'bracket';
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Applies a closer at the start of the line (`end`, `}`, `maybe`, `when`, ...)
+     * so that the line itself is dedented. Returns whether the first token was one.
+     */
+    private closeLeading(first: Token): boolean {
+        const top = this.stack[this.stack.length - 1];
+        if (first.value === 'end' && first.type === 'keyword') {
+            this.closeEnd();
+            return true;
+        }
+        if (CLOSING_BRACKETS.has(first.value) && top === 'bracket') {
+            this.stack.pop();
+            return true;
+        }
+        if (BRANCH_KEYWORDS.has(first.value) && first.value !== 'assume' && first.value !== 'attempt' && top === 'branch') {
+            this.stack.pop();
+            return true;
+        }
+        if (CASE_KEYWORDS.has(first.value) && top === 'case') {
+            this.stack.pop();
+            return true;
+        }
+        return false;
+    }
+
+    private openAndClose(tokens: Token[], leadingHandled: boolean): void {
+        const first = tokens[0];
+        let opened = false;
+
+        tokens.forEach((token, index) => {
+            if (index === 0 && leadingHandled) {
+                return;
+            }
+            if (OPENING_BRACKETS.has(token.value)) {
+                this.stack.push('bracket');
+            } else if (CLOSING_BRACKETS.has(token.value)) {
+                if (this.stack[this.stack.length - 1] === 'bracket') this.stack.pop();
+            } else if (token.value === 'end' && token.type === 'keyword' && index > 0) {
+                this.closeEnd();
+            } else if (token.value === '=>' && !opened) {
+                // An arrow opens a block when a block keyword leads the line, or when it ends the line
+                const kind = this.blockKindFor(first);
+                if (kind) {
+                    this.stack.push(kind);
+                    opened = true;
+                } else if (index === tokens.length - 1) {
+                    // Trailing callback block such as `Window.button "Go" =>`
+                    this.stack.push('block');
+                    opened = true;
+                }
+            }
+        });
+    }
+
+    private blockKindFor(first: Token): IndentKind | undefined {
+        if (first.type !== 'keyword') return undefined;
+        if (first.value === 'select') return 'select';
+        if (CASE_KEYWORDS.has(first.value)) return 'case';
+        if (BRANCH_KEYWORDS.has(first.value)) return 'branch';
+        if (BLOCK_KEYWORDS.has(first.value)) return 'block';
+        return undefined;
+    }
+
+    // `end` closes the innermost block; inside a select it closes the last case too
+    private closeEnd(): void {
+        const top = this.stack.pop();
+        if (top === 'case' && this.stack[this.stack.length - 1] === 'select') {
+            this.stack.pop();
+        }
+    }
+
+    /**
+     * Rebuilds the code on a line from its tokens, keeping the original gaps
+     * except around operators that always take single spaces.
+     */
+    private renderLine(tokens: Token[], comment: Comment | undefined): string {
+        let code = '';
+        tokens.forEach((token, index) => {
+            if (index > 0) {
+                const previous = tokens[index - 1];
+                const gap = this.text.slice(previous.end, token.offset);
+                code += SPACED_TOKENS.has(previous.value) || SPACED_TOKENS.has(token.value) ? ' ' : gap;
+            }
+            code += token.value;
+        });
+
+        if (!comment) {
+            return code;
+        }
+        if (tokens.length === 0) {
+            return comment.text;
+        }
+        const last = tokens[tokens.length - 1];
+        const gap = this.text.slice(last.end, comment.offset);
+        return code + (gap.length > 0 ? gap : ' ') + comment.text;
+    }
+}
+
+export function format(text: string, options: FormatOptions): string[] {
+    return new FlickFormatter(text, options).format();
+}
@@ -1,8 +1,8 @@
 import {
+    Connection,
     createConnection,
     TextDocuments,
     Diagnostic,
-    DiagnosticSeverity,
     ProposedFeatures,
     InitializeParams,
     CompletionItem,
@@ -14,81 +14,258 @@ import {
     MarkupKind,
     Range,
     Position,
-    TextDocumentChangeEvent
+    Location,
+    ReferenceParams,
+    RenameParams,
+    PrepareRenameParams,
+    WorkspaceEdit,
+    TextEdit,
+    ResponseError,
+    ErrorCodes,
+    DocumentSymbol,
+    DocumentSymbolParams,
+    SymbolInformation,
+    SymbolKind,
+    WorkspaceSymbolParams,
+    DidChangeWatchedFilesParams,
+    CancellationToken,
+    FileChangeType,
+    LSPErrorCodes,
+    SignatureHelp,
+    SignatureHelpParams,
+    DocumentFormattingParams,
+    DocumentRangeFormattingParams,
+    DocumentOnTypeFormattingParams,
+    FormattingOptions,
+    CodeAction,
+    CodeActionKind,
+    CodeActionParams,
+    SemanticTokens,
+    SemanticTokensBuilder,
+    SemanticTokensDelta,
+    SemanticTokensDeltaParams,
+    SemanticTokensLegend,
+    SemanticTokensParams,
+    SignatureInformation,
+    ParameterInformation,
+    TextDocumentChangeEvent,
+    DidChangeConfigurationNotification,
+    DidChangeConfigurationParams,
+    FoldingRange,
+    FoldingRangeKind,
+    FoldingRangeParams,
+    SelectionRange,
+    SelectionRangeParams,
+    CallHierarchyItem,
+    CallHierarchyIncomingCall,
+    CallHierarchyOutgoingCall,
+    CallHierarchyPrepareParams,
+    CallHierarchyIncomingCallsParams,
+    CallHierarchyOutgoingCallsParams
 } from 'vscode-languageserver/node';
 
 import {
     TextDocument
 } from 'vscode-languageserver-textdocument';
-import * as path from 'path';
 import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { setImmediate as yieldToEventLoop } from 'timers/promises';
+import { parse, ParseResult } from './parser';
+import { KEYWORDS, Token, tokenize } from './lexer';
+import { format } from './formatter';
+import { PLUGIN_DEFINITION_SUFFIX } from './plugins';
+import { FlickAnalyzer, FlickSymbol, Scope, SymbolBinding } from './analyzer';
+import { CALL_GRAPH_FORMATS, CALL_GRAPH_REQUEST, CallGraph, CallGraphParams, formatCallGraph } from './callGraph';
+import { DiagnosticCode, LINT_CONFIG_FILES, LintRules, applyLintRules, findLintConfig, readLintConfig, validateRules } from './lintRules';
+import {
+    AstNode,
+    DoBlock,
+    Expression,
+    Identifier,
+    MemberExpression,
+    Program,
+    Statement,
+    TaskDeclaration,
+    findNodePath,
+    forEachChild,
+    walk
+} from './ast';
+
+interface WorkspaceSymbolEntry {
+    // Document version for open files, modification time for files on disk
+    version: number;
+    symbols: SymbolInformation[];
+}
 
-// Advanced symbol tracking with proper scoping
-interface FlickSymbol {
-    name: string;
-    type: 'variable' | 'task' | 'group' | 'blueprint' | 'parameter' | 'loop-var' | 'field' | 'plugin' | 'module' | 'route-builtin' | 'property' | 'object';
-    mutable?: boolean;
-    varType?: string;
-    params?: Array<{ name: string; type: string }>;
+// A task call found in a document
+interface TaskCall {
+    // Undefined for calls made by the file's top-level code
+    caller?: TaskDeclaration;
+    callerContainer?: string;
+    callee: TaskDeclaration;
+    // The callee's file, which differs for tasks of `use` modules
+    calleeUri: string;
+    calleeContainer?: string;
+    // Of the called name
     range: Range;
-    value?: any;
-    line?: number;
-    dataType?: string;
-    moduleScope?: Scope;
 }
 
-interface Scope {
-    type: 'global' | 'group' | 'task' | 'loop' | 'do-block' | 'blueprint' | 'route' | 'lambda';
-    name?: string;
-    startLine: number;
-    endLine?: number;
-    parent?: Scope;
-    children: Scope[];
-    symbols: Map<string, FlickSymbol>;
+// The `flick` section of the client's settings
+interface FlickSettings {
+    enableDiagnostics: boolean;
+    lint: {
+        rules: LintRules;
+    };
 }
 
-interface PluginDeclaration {
-    name: string;
-    argument?: string | number;
-    line: number;
+// What clients other than the extension can pass as `initializationOptions`
+interface FlickInitializationOptions {
+    // Plugin definition files, directories containing them, or inline definitions
+    plugins?: unknown[];
+    // Used for documents the client has no `flick` settings for
+    settings?: unknown;
 }
 
-// Plugin-specific keywords and functions
-const WEB_PLUGIN_KEYWORDS = new Set(['route', 'respond', 'GET', 'POST', 'PUT', 'DELETE', 'PATCH']);
-const WEB_ROUTE_ONLY_KEYWORDS = new Set(['query', 'body', 'headers', 'req']);
-const FILE_PLUGIN_KEYWORDS = new Set(['read', 'write', 'exists', 'listdir']);
-const TIME_PLUGIN_KEYWORDS = new Set(['now', 'timestamp', 'sleep']);
+const DEFAULT_SETTINGS: FlickSettings = { enableDiagnostics: true, lint: { rules: {} } };
 
-const NAMED_PARAM_CONTEXTS = new Set(['respond']); // Contexts where named params like json=, status= are valid
+// Keywords that continue a block rather than follow it
+const PARSER_BRANCH_KEYWORDS = new Set(['maybe', 'otherwise', 'when', 'suppose', 'oopsie']);
 
-export class FlickLanguageServer {
-    private connection = createConnection(ProposedFeatures.all);
-    private documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
-    private documentScopes: Map<string, Scope> = new Map();
-    private documentPlugins: Map<string, PluginDeclaration[]> = new Map();
+// Wait for a pause in typing before re-validating a document
+const VALIDATION_DELAY_MS = 250;
+
+// Semantic token types and modifiers, in legend order
+const TOKEN_TYPES = ['namespace', 'class', 'interface', 'parameter', 'variable', 'property', 'method', 'function'] as const;
+const TOKEN_MODIFIERS = ['declaration', 'readonly', 'defaultLibrary'] as const;
+const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+    tokenTypes: [...TOKEN_TYPES],
+    tokenModifiers: [...TOKEN_MODIFIERS]
+};
 
-    constructor() {
+export class FlickLanguageServer extends FlickAnalyzer {
+    private documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
+    private pendingValidations: Map<string, NodeJS.Timeout> = new Map();
+    // Previous semantic tokens per document, for delta requests
+    private semanticTokenBuilders: Map<string, SemanticTokensBuilder> = new Map();
+    private workspaceSymbolIndex: Map<string, WorkspaceSymbolEntry> = new Map();
+    // Parse trees of files that aren't open, kept until the file watcher reports a change
+    private diskParses: Map<string, ParseResult> = new Map();
+    private hasConfigurationCapability = false;
+    // Used when the client can't be asked for settings per document
+    private globalSettings: FlickSettings = DEFAULT_SETTINGS;
+    // From the client's initialization options
+    private initializationSettings: FlickSettings = DEFAULT_SETTINGS;
+    private documentSettings: Map<string, Promise<FlickSettings>> = new Map();
+    // Lint config file path -> its rules
+    private lintConfigs: Map<string, LintRules> = new Map();
+
+    /**
+     * Serves `connection`, by default the one the command line asks for
+     * (`--node-ipc`, `--stdio` or `--socket=<port>`).
+     */
+    constructor(private readonly connection: Connection = createConnection(ProposedFeatures.all)) {
+        super();
         this.connection.onInitialize((params: InitializeParams) => {
+            if (params.workspaceFolders && params.workspaceFolders.length > 0) {
+                this.setWorkspaceRoots(params.workspaceFolders.map(folder => fileURLToPath(folder.uri)));
+            } else if (params.rootUri) {
+                this.setWorkspaceRoots([fileURLToPath(params.rootUri)]);
+            }
+            this.hasConfigurationCapability = !!params.capabilities.workspace?.configuration;
+            this.applyInitializationOptions(params.initializationOptions);
+
             const result: InitializeResult = {
                 capabilities: {
                     textDocumentSync: TextDocumentSyncKind.Incremental,
                     completionProvider: {
                         resolveProvider: true
                     },
-                    hoverProvider: true
+                    hoverProvider: true,
+                    definitionProvider: true,
+                    typeDefinitionProvider: true,
+                    referencesProvider: true,
+                    renameProvider: {
+                        prepareProvider: true
+                    },
+                    documentSymbolProvider: true,
+                    workspaceSymbolProvider: true,
+                    foldingRangeProvider: true,
+                    selectionRangeProvider: true,
+                    callHierarchyProvider: true,
+                    signatureHelpProvider: {
+                        // Flick calls separate the task name from its arguments with a space
+                        triggerCharacters: [' ', ','],
+                        retriggerCharacters: [',']
+                    },
+                    semanticTokensProvider: {
+                        legend: SEMANTIC_TOKENS_LEGEND,
+                        full: { delta: true }
+                    },
+                    documentFormattingProvider: true,
+                    documentRangeFormattingProvider: true,
+                    codeActionProvider: {
+                        codeActionKinds: [CodeActionKind.QuickFix]
+                    },
+                    documentOnTypeFormattingProvider: {
+                        firstTriggerCharacter: '\n',
+                        // Last letter of `end`, and a closing brace
+                        moreTriggerCharacter: ['d', '}']
+                    }
                 }
             };
             return result;
         });
 
+        this.connection.onInitialized(() => {
+            if (this.hasConfigurationCapability) {
+                this.connection.client.register(DidChangeConfigurationNotification.type, undefined);
+            }
+        });
+
+        this.connection.onDidChangeConfiguration((change: DidChangeConfigurationParams) => {
+            if (this.hasConfigurationCapability) {
+                this.documentSettings.clear();
+            } else {
+                this.globalSettings = change.settings?.flick ? this.toSettings(change.settings.flick) : this.initializationSettings;
+            }
+            this.revalidateAll();
+        });
+
         this.documents.onDidChangeContent((change: TextDocumentChangeEvent<TextDocument>) => {
-            this.validateTextDocument(change.document);
+            this.scheduleValidation(change.document.uri);
+        });
+
+        this.connection.onDidChangeWatchedFiles((params: DidChangeWatchedFilesParams) => {
+            const configChanges = params.changes.filter(change => LINT_CONFIG_FILES.includes(path.basename(fileURLToPath(change.uri))));
+            if (configChanges.length > 0) {
+                configChanges.forEach(change => this.lintConfigs.delete(fileURLToPath(change.uri)));
+                this.revalidateAll();
+            }
+            const pluginChanges = params.changes.filter(change => change.uri.endsWith(PLUGIN_DEFINITION_SUFFIX));
+            if (pluginChanges.length > 0) {
+                for (const change of pluginChanges) {
+                    const filePath = fileURLToPath(change.uri);
+                    if (change.type === FileChangeType.Deleted) {
+                        this.pluginRegistry.forgetFile(filePath);
+                    } else {
+                        this.pluginRegistry.loadFile(filePath);
+                    }
+                }
+                this.reanalyzeAll();
+            }
+            for (const change of params.changes.filter(change => !pluginChanges.includes(change) && !configChanges.includes(change))) {
+                this.workspaceSymbolIndex.delete(change.uri);
+                this.diskParses.delete(change.uri);
+                this.modules.delete(fileURLToPath(change.uri));
+                this.revalidateDependents(change.uri);
+            }
         });
 
         this.connection.onCompletion(
-            (textDocumentPosition: TextDocumentPositionParams): CompletionItem[] => {
+            (textDocumentPosition: TextDocumentPositionParams, token: CancellationToken): CompletionItem[] => {
                 const document = this.documents.get(textDocumentPosition.textDocument.uri);
-                if (!document) {
+                if (!document || token.isCancellationRequested) {
                     return [];
                 }
                 return this.provideCompletionItems(document, textDocumentPosition.position);
@@ -100,38 +277,295 @@ export class FlickLanguageServer {
         });
 
         this.connection.onHover(
-            (textDocumentPosition: TextDocumentPositionParams): Hover | null => {
+            (textDocumentPosition: TextDocumentPositionParams, token: CancellationToken): Hover | null => {
                 const document = this.documents.get(textDocumentPosition.textDocument.uri);
-                if (!document) {
+                if (!document || token.isCancellationRequested) {
                     return null;
                 }
                 return this.provideHover(document, textDocumentPosition.position);
             }
         );
 
+        this.connection.onDefinition(
+            (textDocumentPosition: TextDocumentPositionParams, token: CancellationToken): Location | null => {
+                const document = this.documents.get(textDocumentPosition.textDocument.uri);
+                if (!document || token.isCancellationRequested) {
+                    return null;
+                }
+                return this.provideDefinition(document, textDocumentPosition.position);
+            }
+        );
+
+        this.connection.onTypeDefinition(
+            (textDocumentPosition: TextDocumentPositionParams, token: CancellationToken): Location | null => {
+                const document = this.documents.get(textDocumentPosition.textDocument.uri);
+                if (!document || token.isCancellationRequested) {
+                    return null;
+                }
+                return this.provideTypeDefinition(document, textDocumentPosition.position);
+            }
+        );
+
+        this.connection.onReferences((params: ReferenceParams, token: CancellationToken) => {
+            const document = this.documents.get(params.textDocument.uri);
+            if (!document) {
+                return [];
+            }
+            return this.provideReferences(document, params.position, params.context.includeDeclaration, token);
+        });
+
+        this.connection.onPrepareRename((params: PrepareRenameParams, token: CancellationToken) => {
+            const document = this.documents.get(params.textDocument.uri);
+            if (!document || token.isCancellationRequested) {
+                return null;
+            }
+            return this.prepareRename(document, params.position);
+        });
+
+        this.connection.onRenameRequest((params: RenameParams, token: CancellationToken) => {
+            const document = this.documents.get(params.textDocument.uri);
+            if (!document) {
+                return null;
+            }
+            return this.provideRename(document, params.position, params.newName, token);
+        });
+
+        this.connection.onSignatureHelp(
+            (params: SignatureHelpParams, token: CancellationToken): SignatureHelp | null => {
+                const document = this.documents.get(params.textDocument.uri);
+                if (!document || token.isCancellationRequested) {
+                    return null;
+                }
+                return this.provideSignatureHelp(document, params.position);
+            }
+        );
+
+        this.connection.onCodeAction((params: CodeActionParams, token: CancellationToken): CodeAction[] => {
+            const document = this.documents.get(params.textDocument.uri);
+            if (!document || token.isCancellationRequested) {
+                return [];
+            }
+            return this.provideCodeActions(document, params.context.diagnostics);
+        });
+
+        this.connection.languages.semanticTokens.on((params: SemanticTokensParams, token: CancellationToken): SemanticTokens => {
+            const document = this.documents.get(params.textDocument.uri);
+            if (!document || token.isCancellationRequested) {
+                return { data: [] };
+            }
+            return this.provideSemanticTokens(document).build();
+        });
+
+        this.connection.languages.semanticTokens.onDelta(
+            (params: SemanticTokensDeltaParams, token: CancellationToken): SemanticTokens | SemanticTokensDelta => {
+                const document = this.documents.get(params.textDocument.uri);
+                if (!document || token.isCancellationRequested) {
+                    return { edits: [] };
+                }
+                return this.provideSemanticTokens(document, params.previousResultId).buildEdits();
+            }
+        );
+
+        this.connection.onDocumentFormatting((params: DocumentFormattingParams): TextEdit[] => {
+            const document = this.documents.get(params.textDocument.uri);
+            if (!document) {
+                return [];
+            }
+            return this.provideFormattingEdits(document, params.options);
+        });
+
+        this.connection.onDocumentRangeFormatting((params: DocumentRangeFormattingParams): TextEdit[] => {
+            const document = this.documents.get(params.textDocument.uri);
+            if (!document) {
+                return [];
+            }
+            return this.provideFormattingEdits(document, params.options, params.range.start.line, params.range.end.line);
+        });
+
+        this.connection.onDocumentOnTypeFormatting((params: DocumentOnTypeFormattingParams): TextEdit[] => {
+            const document = this.documents.get(params.textDocument.uri);
+            if (!document) {
+                return [];
+            }
+            return this.provideOnTypeFormattingEdits(document, params.position, params.ch, params.options);
+        });
+
+        this.connection.onDocumentSymbol((params: DocumentSymbolParams, token: CancellationToken): DocumentSymbol[] => {
+            const document = this.documents.get(params.textDocument.uri);
+            if (!document || token.isCancellationRequested) {
+                return [];
+            }
+            return this.provideDocumentSymbols(document);
+        });
+
+        this.connection.onFoldingRanges((params: FoldingRangeParams, token: CancellationToken): FoldingRange[] => {
+            const document = this.documents.get(params.textDocument.uri);
+            if (!document || token.isCancellationRequested) {
+                return [];
+            }
+            return this.provideFoldingRanges(document);
+        });
+
+        this.connection.onSelectionRanges((params: SelectionRangeParams, token: CancellationToken): SelectionRange[] => {
+            const document = this.documents.get(params.textDocument.uri);
+            if (!document || token.isCancellationRequested) {
+                return [];
+            }
+            return this.provideSelectionRanges(document, params.positions);
+        });
+
+        this.connection.languages.callHierarchy.onPrepare((params: CallHierarchyPrepareParams): CallHierarchyItem[] | null => {
+            const document = this.documents.get(params.textDocument.uri);
+            if (!document) {
+                return null;
+            }
+            return this.prepareCallHierarchy(document, params.position);
+        });
+
+        this.connection.languages.callHierarchy.onIncomingCalls((params: CallHierarchyIncomingCallsParams, token: CancellationToken) => {
+            return this.provideIncomingCalls(params.item, token);
+        });
+
+        this.connection.languages.callHierarchy.onOutgoingCalls((params: CallHierarchyOutgoingCallsParams): CallHierarchyOutgoingCall[] => {
+            return this.provideOutgoingCalls(params.item);
+        });
+
+        this.connection.onRequest(CALL_GRAPH_REQUEST, async (params: CallGraphParams, token: CancellationToken) => {
+            if (!CALL_GRAPH_FORMATS.includes(params?.format)) {
+                return new ResponseError(ErrorCodes.InvalidParams, `format must be one of ${CALL_GRAPH_FORMATS.join(', ')}.`);
+            }
+            const graph = await this.buildCallGraph(token);
+            return graph ? formatCallGraph(graph, params.format) : this.cancelledError();
+        });
+
+        this.connection.onWorkspaceSymbol((params: WorkspaceSymbolParams, token: CancellationToken) => {
+            return this.provideWorkspaceSymbols(params.query, token);
+        });
+
         this.documents.listen(this.connection);
 
         this.documents.onDidClose((e: TextDocumentChangeEvent<TextDocument>) => {
-            this.documentScopes.delete(e.document.uri);
+            const pending = this.pendingValidations.get(e.document.uri);
+            if (pending) {
+                clearTimeout(pending);
+                this.pendingValidations.delete(e.document.uri);
+            }
+            this.analyses.delete(e.document.uri);
+            this.documentSettings.delete(e.document.uri);
+            this.semanticTokenBuilders.delete(e.document.uri);
+            this.forgetDependent(e.document.uri);
+            // Dependents fall back to the saved file on disk
+            this.revalidateDependents(e.document.uri);
         });
 
         this.connection.listen();
     }
 
-    private getDocumentSettings(uri: string): Promise<any> {
-        return Promise.resolve({});
+    protected getOpenDocument(uri: string): TextDocument | undefined {
+        return this.documents.get(uri);
+    }
+
+    protected log(message: string): void {
+        this.connection.console.error(message);
+    }
+
+    /**
+     * Loads the plugin definitions and settings passed by clients that have no
+     * workspace files or configuration section for them.
+     */
+    private applyInitializationOptions(options: FlickInitializationOptions | undefined): void {
+        if (typeof options !== 'object' || options === null) return;
+        if (options.settings !== undefined) {
+            this.initializationSettings = this.toSettings(options.settings);
+            this.globalSettings = this.initializationSettings;
+        }
+        (Array.isArray(options.plugins) ? options.plugins : []).forEach((plugin, index) => {
+            if (typeof plugin !== 'string') {
+                this.pluginRegistry.loadDefinition(plugin, `initializationOptions.plugins[${index}]`);
+                return;
+            }
+            const pluginPath = path.resolve(this.workspaceRoots[0] ?? process.cwd(), plugin);
+            let files = [pluginPath];
+            try {
+                if (fs.statSync(pluginPath).isDirectory()) {
+                    files = fs.readdirSync(pluginPath)
+                        .filter(file => file.endsWith(PLUGIN_DEFINITION_SUFFIX))
+                        .map(file => path.join(pluginPath, file));
+                }
+            } catch {
+                // Reported as unreadable by the registry
+            }
+            files.forEach(file => this.pluginRegistry.loadFile(file));
+        });
+    }
+
+    private getDocumentSettings(uri: string): Promise<FlickSettings> {
+        if (!this.hasConfigurationCapability) {
+            return Promise.resolve(this.globalSettings);
+        }
+        let settings = this.documentSettings.get(uri);
+        if (!settings) {
+            // Clients without a `flick` section answer null
+            settings = this.connection.workspace.getConfiguration({ scopeUri: uri, section: 'flick' })
+                .then(section => section ? this.toSettings(section) : this.initializationSettings, () => this.initializationSettings);
+            this.documentSettings.set(uri, settings);
+        }
+        return settings;
+    }
+
+    private toSettings(section: any): FlickSettings {
+        return {
+            enableDiagnostics: section?.enableDiagnostics ?? DEFAULT_SETTINGS.enableDiagnostics,
+            lint: {
+                rules: validateRules(section?.lint?.rules, 'flick.lint.rules', message => this.connection.console.warn(message))
+            }
+        };
+    }
+
+    /**
+     * Rule severities for a document: the `flick.lint.rules` setting, overridden
+     * by the nearest `.flickrc` or `flick.json`.
+     */
+    private getLintRules(uri: string, settings: FlickSettings): LintRules {
+        if (!uri.startsWith('file:')) return settings.lint.rules;
+        const configFile = findLintConfig(fileURLToPath(uri), this.workspaceRoots);
+        if (!configFile) return settings.lint.rules;
+        let projectRules = this.lintConfigs.get(configFile);
+        if (!projectRules) {
+            projectRules = readLintConfig(configFile, message => this.connection.console.warn(message));
+            this.lintConfigs.set(configFile, projectRules);
+        }
+        return { ...settings.lint.rules, ...projectRules };
     }
 
     public provideCompletionItems(
         document: TextDocument,
         position: Position
     ): CompletionItem[] {
-        const rootScope = this.buildScopeTree(document);
+        const { rootScope } = this.analyze(document);
         const currentScope = this.findScopeAtPosition(rootScope, position.line);
         const completions: CompletionItem[] = [];
 
         // Check if we're in a member access context (after / or .)
         const line = document.getText({ start: { line: position.line, character: 0 }, end: { line: position.line, character: position.character } });
+
+        // Plugin names after `declare`
+        if (/^\s*declare\s+\w*$/.test(line)) {
+            return this.pluginRegistry.all()
+                .filter(definition => !definition.implicit)
+                .map(definition => {
+                    const item = CompletionItem.create(definition.name);
+                    item.kind = CompletionItemKind.Module;
+                    item.detail = `plugin ${definition.name}`;
+                    item.documentation = this.describePlugin(definition);
+                    return item;
+                });
+        }
+
+        // Package names after `from '`, and the names a package exports inside `import { ... }`
+        const importCompletions = this.provideImportCompletions(document, position, line);
+        if (importCompletions) return importCompletions;
+
         const memberAccessMatch = line.match(/([a-zA-Z_][a-zA-Z0-9_]*)\s*[/.]\s*([a-zA-Z_][a-zA-Z0-9_]*)?$/);
         
         if (memberAccessMatch) {
@@ -151,12 +585,22 @@ export class FlickLanguageServer {
                     }
                     
                     const item = CompletionItem.create(member.name);
-                    if (member.type === 'task') {
+                    item.documentation = member.documentation;
+                    if (member.signature) {
+                        item.kind = member.type === 'task' ? CompletionItemKind.Method : CompletionItemKind.Property;
+                        item.detail = member.signature;
+                    } else if (member.type === 'task') {
                         item.kind = CompletionItemKind.Method;
                         item.detail = `task ${member.name}`;
                         if (member.params) {
                             item.detail += ` with ${member.params.map((p: { type: string; name: string }) => `${p.type}(${p.name})`).join(', ')}`;
                         }
+                    } else if (member.type === 'group' || member.type === 'blueprint') {
+                        item.kind = member.type === 'group' ? CompletionItemKind.Class : CompletionItemKind.Interface;
+                        item.detail = `${member.type} ${member.name}`;
+                    } else if (member.type === 'route') {
+                        item.kind = CompletionItemKind.Event;
+                        item.detail = `route ${member.name}`;
                     } else {
                         item.kind = CompletionItemKind.Property;
                         item.detail = `${member.mutable ? 'free' : 'lock'} ${member.varType || ''} ${member.name}`;
@@ -171,7 +615,8 @@ export class FlickLanguageServer {
         const visibleSymbols = this.getVisibleSymbols(currentScope);
         for (const symbol of visibleSymbols) {
             const item = CompletionItem.create(symbol.name);
-            
+            item.documentation = symbol.documentation;
+
             switch (symbol.type) {
                 case 'task':
                     item.kind = CompletionItemKind.Function;
@@ -196,6 +641,13 @@ export class FlickLanguageServer {
                     item.kind = CompletionItemKind.Interface;
                     item.detail = `blueprint ${symbol.name}`;
                     break;
+                case 'plugin':
+                    item.kind = CompletionItemKind.Module;
+                    item.detail = `plugin ${symbol.name}`;
+                    break;
+            }
+            if (symbol.npmPackage && symbol.node?.kind !== 'VariableDeclaration') {
+                item.detail = symbol.signature ?? `import from '${symbol.npmPackage}'`;
             }
             
             completions.push(item);
@@ -209,6 +661,12 @@ export class FlickLanguageServer {
             'use', 'do', 'for', 'with', 'in', 'from', 'to', 'as', 'and'
         ];
         
+        for (const definition of this.getPluginDefinitions(this.analyze(document).plugins)) {
+            definition.keywords?.forEach(keyword => {
+                if (!keywords.includes(keyword)) keywords.push(keyword);
+            });
+        }
+
         for (const keyword of keywords) {
             const item = CompletionItem.create(keyword);
             item.kind = CompletionItemKind.Keyword;
@@ -221,7 +679,6 @@ export class FlickLanguageServer {
             { name: 'literal', kind: CompletionItemKind.TypeParameter },
             { name: 'yes', kind: CompletionItemKind.Constant },
             { name: 'no', kind: CompletionItemKind.Constant },
-            { name: 'JSON', kind: CompletionItemKind.Module },
         ];
 
         for (const builtin of builtins) {
@@ -233,6 +690,36 @@ export class FlickLanguageServer {
         return completions;
     }
 
+    private provideImportCompletions(document: TextDocument, position: Position, linePrefix: string): CompletionItem[] | undefined {
+        const fullLine = document.getText({ start: { line: position.line, character: 0 }, end: { line: position.line + 1, character: 0 } });
+        const directory = document.uri.startsWith('file:') ? path.dirname(fileURLToPath(document.uri)) : this.workspaceRoots[0];
+        if (!directory || !/^\s*import\b/.test(linePrefix)) return undefined;
+
+        if (/\bfrom\s+['"][^'"]*$/.test(linePrefix)) {
+            return this.npmPackages.installedPackages(directory).map(name => {
+                const item = CompletionItem.create(name);
+                item.kind = CompletionItemKind.Module;
+                item.detail = 'npm package';
+                return item;
+            });
+        }
+        const source = fullLine.match(/\bfrom\s+['"]([^'"]+)['"]/);
+        if (!source || !/\{[^}]*$/.test(linePrefix)) return undefined;
+        const typesFile = this.npmPackages.resolve(directory, source[1])?.typesFile;
+        if (!typesFile) return [];
+        return this.npmPackages.exportNames(typesFile).filter(name => name !== 'default').map(name => {
+            const item = CompletionItem.create(name);
+            const declaration = this.npmPackages.findExport(typesFile, name)?.[0];
+            item.kind = declaration?.kind === 'function' ? CompletionItemKind.Function
+                : declaration?.kind === 'class' ? CompletionItemKind.Class
+                : declaration?.kind === 'interface' || declaration?.kind === 'type' ? CompletionItemKind.Interface
+                : CompletionItemKind.Variable;
+            item.detail = declaration?.signature;
+            item.documentation = declaration?.documentation;
+            return item;
+        });
+    }
+
     public provideHover(
         document: TextDocument,
         position: Position
@@ -241,13 +728,24 @@ export class FlickLanguageServer {
         if (!wordRange) return null;
 
         const word = document.getText(wordRange);
-        const rootScope = this.buildScopeTree(document);
+        const { rootScope } = this.analyze(document);
         const currentScope = this.findScopeAtPosition(rootScope, position.line);
-        const visibleSymbols = this.getVisibleSymbols(currentScope);
-        
-        const symbol = visibleSymbols.find(s => s.name === word);
+        // Members such as `client.from` resolve through the object's type
+        const symbol = this.resolveSymbolAtPosition(document, position)?.symbol ?? this.lookupSymbol(currentScope, word);
         if (!symbol) return null;
 
+        if (symbol.npmPackage && symbol.node?.kind !== 'VariableDeclaration') {
+            const value = symbol.signature
+                ? ['```typescript', symbol.signature, '```', ...(symbol.documentation ? ['', symbol.documentation] : [])]
+                : [`**import** \`${symbol.name}\``, '', '_(no type declarations found)_'];
+            return {
+                contents: {
+                    kind: MarkupKind.Markdown,
+                    value: [...value, '', `From npm package \`${symbol.npmPackage}\``].join('\n')
+                }
+            };
+        }
+
         let markdown = '';
         switch (symbol.type) {
             case 'task':
@@ -255,6 +753,12 @@ export class FlickLanguageServer {
                 if (symbol.params) {
                     markdown += `\n\nParameters: ${symbol.params.map(p => `\`${p.type}(${p.name})\``).join(', ')}`;
                 }
+                if (symbol.returnType) {
+                    markdown += `\n\nReturns: \`${symbol.returnType}\``;
+                }
+                if (symbol.documentation) {
+                    markdown += `\n\n${symbol.documentation}`;
+                }
                 break;
             case 'variable':
             case 'parameter':
@@ -263,6 +767,8 @@ export class FlickLanguageServer {
                 markdown = `**${symbol.mutable ? 'free' : 'lock'}** \`${symbol.name}\``;
                 if (symbol.varType) {
                     markdown += `\n\nType: \`${symbol.varType}\``;
+                } else if (symbol.dataType || symbol.inferredType) {
+                    markdown += `\n\nType: \`${symbol.dataType || symbol.inferredType}\` _(inferred)_`;
                 }
                 if (symbol.type === 'parameter') {
                     markdown += `\n\n_(task parameter)_`;
@@ -278,6 +784,12 @@ export class FlickLanguageServer {
             case 'blueprint':
                 markdown = `**blueprint** \`${symbol.name}\``;
                 break;
+            case 'plugin':
+                markdown = `**plugin** \`${symbol.name}\``;
+                if (symbol.documentation) {
+                    markdown += `\n\n${symbol.documentation}`;
+                }
+                break;
         }
 
         return {
@@ -288,730 +800,1375 @@ export class FlickLanguageServer {
         };
     }
 
-    private getWordRangeAtPosition(document: TextDocument, position: Position): Range | undefined {
-        const line = document.getText({ start: { line: position.line, character: 0 }, end: { line: position.line + 1, character: 0 } });
-        const wordRegex = /[\w\d_]+/g;
-        let match;
-        while (match = wordRegex.exec(line)) {
-            const start = match.index;
-            const end = start + match[0].length;
-            if (position.character >= start && position.character <= end) {
-                return { start: { line: position.line, character: start }, end: { line: position.line, character: end } };
+    public provideSignatureHelp(
+        document: TextDocument,
+        position: Position
+    ): SignatureHelp | null {
+        const { rootScope } = this.analyze(document);
+        const scope = this.findScopeAtPosition(rootScope, position.line);
+        const linePrefix = document.getText({ start: { line: position.line, character: 0 }, end: position });
+        const call = this.findCallBeforeCursor(linePrefix, scope, rootScope);
+        if (!call || !call.task.params || call.task.params.length === 0) return null;
+
+        const params = call.task.params;
+        let label = `task ${call.task.name} with `;
+        const parameters: ParameterInformation[] = params.map((param, index) => {
+            const start = label.length;
+            label += `${param.type}(${param.name})`;
+            const end = label.length;
+            if (index < params.length - 1) label += ', ';
+            return ParameterInformation.create([start, end]);
+        });
+
+        return {
+            signatures: [SignatureInformation.create(label, undefined, ...parameters)],
+            activeSignature: 0,
+            activeParameter: Math.min(call.activeParameter, params.length - 1)
+        };
+    }
+
+    /**
+     * Scans the current line backwards from the cursor for the task call being
+     * typed: either `task(` or a task name followed by a space, as in
+     * `player1/addScore 50`. Commas at the same nesting level give the active parameter.
+     */
+    private findCallBeforeCursor(
+        linePrefix: string,
+        scope: Scope,
+        rootScope: Scope
+    ): { task: FlickSymbol; activeParameter: number } | undefined {
+        const tokens = tokenize(linePrefix).tokens.filter(t => t.type !== 'eof' && t.type !== 'newline');
+        let depth = 0;
+        let commas = 0;
+
+        for (let i = tokens.length - 1; i >= 0; i--) {
+            const token = tokens[i];
+            if (token.value === ')' || token.value === ']' || token.value === '}') {
+                depth++;
+                continue;
+            }
+            if (token.value === '(' || token.value === '[' || token.value === '{') {
+                if (depth > 0) {
+                    depth--;
+                    continue;
+                }
+                // `task(` directly after the name is a parenthesized call; any other bracket ends the search
+                const callee = token.value === '(' && i > 0 && tokens[i - 1].end === token.offset
+                    ? this.resolveTokenChain(tokens, i - 1, scope, rootScope)
+                    : undefined;
+                return callee?.type === 'task' ? { task: callee, activeParameter: commas } : undefined;
+            }
+            if (depth > 0) continue;
+
+            if (token.value === ',') {
+                commas++;
+            } else if (token.value === '=>' || token.value === ':=' || token.value === '=' ||
+                (token.type === 'keyword' && token.value !== 'and' && token.value !== 'yes' && token.value !== 'no')) {
+                return undefined;
+            } else if (token.type === 'identifier') {
+                // A callee is followed by whitespace, not by its own member access or argument
+                const next = tokens[i + 1];
+                const followedBySpace = next ? next.offset > token.end : linePrefix.length > token.end;
+                if (!followedBySpace) continue;
+                const callee = this.resolveTokenChain(tokens, i, scope, rootScope);
+                if (callee?.type === 'task') {
+                    return { task: callee, activeParameter: commas };
+                }
             }
         }
         return undefined;
     }
 
-    public validateDocument(document: TextDocument): Diagnostic[] {
-        const diagnostics: Diagnostic[] = [];
-        const rootScope = this.buildScopeTree(document);
-        const plugins = this.documentPlugins.get(document.uri.toString()) || [];
-        const text = document.getText();
-        const lines = text.split('\n');
+    // Resolves `a`, `a/b` or `a.b` ending at tokens[index], with no whitespace inside
+    private resolveTokenChain(tokens: Token[], index: number, scope: Scope, rootScope: Scope): FlickSymbol | undefined {
+        if (tokens[index].type !== 'identifier') return undefined;
+        const names = [tokens[index].value];
+        let i = index;
+        while (i >= 2 && (tokens[i - 1].value === '/' || tokens[i - 1].value === '.') &&
+            tokens[i - 1].end === tokens[i].offset && tokens[i - 2].end === tokens[i - 1].offset &&
+            tokens[i - 2].type === 'identifier') {
+            names.unshift(tokens[i - 2].value);
+            i -= 2;
+        }
 
-        // Validate file imports (use and import statements)
-        this.validateFileImports(document, lines, diagnostics);
+        let symbol = this.lookupSymbol(scope, names[0]);
+        for (const name of names.slice(1)) {
+            if (!symbol) return undefined;
+            symbol = this.getMembersOfSymbol(symbol, rootScope).find(m => m.name === name);
+        }
+        return symbol;
+    }
 
-        // Build set of plugin keywords available
-        const pluginKeywords = new Set<string>();
-        for (const plugin of plugins) {
-            if (plugin.name === 'web') {
-                WEB_PLUGIN_KEYWORDS.forEach(k => pluginKeywords.add(k));
-            } else if (plugin.name === 'files') {
-                FILE_PLUGIN_KEYWORDS.forEach(k => pluginKeywords.add(k));
-            } else if (plugin.name === 'time') {
-                TIME_PLUGIN_KEYWORDS.forEach(k => pluginKeywords.add(k));
+    public provideDefinition(
+        document: TextDocument,
+        position: Position
+    ): Location | null {
+        const target = this.resolveSymbolAtPosition(document, position);
+        if (!target) return null;
+
+        const { symbol } = target;
+        if (symbol.type === 'module' && symbol.node?.kind === 'UseStatement') {
+            // Jump into the imported file rather than to the `use` line
+            const modulePath = this.resolveModulePath(document.uri, symbol.name, symbol.node.path?.value);
+            if (modulePath) {
+                return Location.create(pathToFileURL(modulePath).toString(), Range.create(0, 0, 0, 0));
             }
         }
+        return Location.create(symbol.uri ?? document.uri, symbol.range);
+    }
 
-        const keywords = new Set([
-            'task', 'free', 'lock', 'group', 'blueprint', 'assume', 'maybe',
-            'otherwise', 'each', 'march', 'select', 'when', 'suppose', 'end',
-            'print', 'ask', 'give', 'route', 'respond', 'declare', 'import',
-            'use', 'do', 'for', 'with', 'in', 'from', 'to', 'as', 'and',
-            'num', 'literal', 'yes', 'no', 'JSON', 'GET', 'POST', 'PUT', 'DELETE', 'PATCH',
-            ...pluginKeywords
-        ]);
+    public provideTypeDefinition(
+        document: TextDocument,
+        position: Position
+    ): Location | null {
+        const target = this.resolveSymbolAtPosition(document, position);
+        if (!target) return null;
+
+        const { symbol, rootScope } = target;
+        const typeSymbol = symbol.type === 'group' || symbol.type === 'blueprint'
+            ? symbol
+            : this.resolveTypeSymbol(symbol, rootScope);
+        const typeNode = typeSymbol?.node;
+        if (!typeSymbol || (typeNode?.kind !== 'GroupDeclaration' && typeNode?.kind !== 'BlueprintDeclaration')) {
+            // Built-in plugin types such as Window have no source location
+            return null;
+        }
+        return Location.create(typeSymbol.uri ?? document.uri, typeNode.name.range);
+    }
 
-        const identifierPattern = /\b([a-zA-Z_][a-zA-Z0-9_]*)\b/g;
+    /**
+     * The group or blueprint declaring a symbol's type, in this document or in
+     * a module it uses, including groups instantiated as `Module/Group`.
+     */
+    private resolveTypeSymbol(symbol: FlickSymbol, rootScope: Scope): FlickSymbol | undefined {
+        const initializer = symbol.node?.kind === 'VariableDeclaration' && !symbol.varType ? symbol.node.initializer : undefined;
+        const callee = initializer?.kind === 'CallExpression' ? initializer.callee : initializer;
+        if (callee?.kind === 'MemberExpression' && callee.operator === '/') {
+            const member = this.resolveExpressionSymbol(callee, rootScope, rootScope);
+            if (member?.type === 'group') return member;
+        }
 
-        // Built-in functions/identifiers that should not be treated as undefined
-        const BUILTIN_FUNCTIONS = new Set(['str', 'print', 'ask', 'give', 'yes', 'no', 'num', 'literal', 'JSON', 'Window']);
+        const typeName = this.resolveTypeName(symbol, rootScope);
+        if (!typeName) return undefined;
+        const typeScope = this.findScopeByName(rootScope, typeName);
+        if (typeScope) {
+            return this.lookupSymbol(typeScope.parent ?? rootScope, typeName);
+        }
+        for (const candidate of rootScope.symbols.values()) {
+            const member = candidate.type === 'module' ? candidate.moduleScope?.symbols.get(typeName) : undefined;
+            if (member?.type === 'group' || member?.type === 'blueprint') return member;
+        }
+        return undefined;
+    }
 
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmed = line.trim();
-            
-            if (trimmed.startsWith('#')) continue;
-            
-            const currentScope = this.findScopeAtPosition(rootScope, i);
-            
-            // Skip validation inside blueprint blocks (signatures only)
-            if (currentScope.type === 'blueprint') continue;
+    /**
+     * Finds the symbol an identifier at `position` refers to, following
+     * member accesses like `player1/addScore` through the object's type.
+     */
+    private resolveSymbolAtPosition(
+        document: TextDocument,
+        position: Position
+    ): { symbol: FlickSymbol; rootScope: Scope } | undefined {
+        const { rootScope, parsed } = this.analyze(document);
+        const nodePath = findNodePath(parsed.program, position);
+        const node = nodePath[nodePath.length - 1];
+        if (node.kind !== 'Identifier' || !node.name) return undefined;
+
+        const scope = this.scopeForPath(nodePath, rootScope);
+        const parent = nodePath[nodePath.length - 2];
+        const symbol = parent?.kind === 'MemberExpression' && parent.property === node
+            ? this.resolveExpressionSymbol(parent, scope, rootScope)
+            : this.lookupSymbol(scope, node.name);
+        return symbol ? { symbol, rootScope } : undefined;
+    }
 
-            // Remove strings AND comments from the line before validation
-            let withoutStrings = line.replace(/"[^"]*"/g, '').replace(/'[^']*'/g, '');
-            // Remove everything after # (comment)
-            const commentIndex = withoutStrings.indexOf('#');
-            if (commentIndex !== -1) {
-                withoutStrings = withoutStrings.substring(0, commentIndex);
-            }
-            
-            const visibleSymbols = this.getVisibleSymbols(currentScope);
-            const visibleNames = new Set(visibleSymbols.map(s => s.name));
-
-            let match;
-            identifierPattern.lastIndex = 0;
-            while ((match = identifierPattern.exec(withoutStrings)) !== null) {
-                const identifier = match[1];
-                const column = match.index;
-                
-                if (keywords.has(identifier)) continue;
-                if (visibleNames.has(identifier)) continue;
-                
-                // Check if it's being defined on this line
-                const lineUpToIdentifier = withoutStrings.substring(0, column);
-                
-                // Skip if it's a declaration
-                if (/(free|lock|task|group|blueprint)\s+$/.test(lineUpToIdentifier)) continue;
-                if (/\b(with|each|march)\s+$/.test(lineUpToIdentifier)) continue;
-                if (/^\s*do\s+[a-zA-Z_][a-zA-Z0-9_]*\s+for\s+$/.test(lineUpToIdentifier)) continue;
-                if (/^\s*declare\s+$/.test(lineUpToIdentifier)) continue;
-                if (/^\s*declare\s+[a-zA-Z_][a-zA-Z0-9_]*@$/.test(lineUpToIdentifier)) continue; // Skip @argument
-                if (/^\s*use\s+$/.test(lineUpToIdentifier)) continue;
-                
-                // Skip type annotations
-                if (/\b(num|literal|[A-Z][a-zA-Z0-9_]*)\s*$/.test(lineUpToIdentifier) && /^\s*\(/.test(withoutStrings.substring(column + identifier.length))) {
-                    continue;
-                }
+    private scopeForPath(nodePath: AstNode[], rootScope: Scope): Scope {
+        for (let i = nodePath.length - 1; i >= 0; i--) {
+            const scope = this.nodeScopes.get(nodePath[i]);
+            if (scope) return scope;
+        }
+        return rootScope;
+    }
 
-                // Skip type annotations in variable declarations (free Type name)
-                if (/(free|lock)\s+$/.test(lineUpToIdentifier)) continue;
+    public async provideReferences(
+        document: TextDocument,
+        position: Position,
+        includeDeclaration: boolean,
+        token: CancellationToken = CancellationToken.None
+    ): Promise<Location[] | ResponseError<void>> {
+        const target = this.resolveSymbolAtPosition(document, position);
+        if (!target) return [];
+
+        const locations: Location[] = [];
+        for (const binding of this.collectBindings(document, target.rootScope)) {
+            if (binding.symbol !== target.symbol) continue;
+            if (!includeDeclaration && binding.declaration) continue;
+            locations.push(Location.create(document.uri, binding.identifier.range));
+        }
+        const moduleReferences = await this.findModuleMemberReferences(document, target.symbol, target.rootScope, token);
+        if (!moduleReferences) {
+            return this.cancelledError();
+        }
+        for (const [uri, ranges] of moduleReferences) {
+            locations.push(...ranges.map(range => Location.create(uri, range)));
+        }
+        return locations;
+    }
 
-                // Skip named parameters (json=, status=, style=, etc.)
-                const afterIdentifier = withoutStrings.substring(column + identifier.length);
-                if (/^\s*=/.test(afterIdentifier) && !/^\s*==/.test(afterIdentifier)) {
-                    // Allow named params in a few contexts:
-                    // - respond calls
-                    // - when the identifier comes after a comma (e.g. Window.print "x", style={...})
-                    // - when it's used as a named argument to a member call (e.g. Window.print ... style=...)
-                    if (/\b(respond)\s+.*$/.test(lineUpToIdentifier) || /,\s*$/.test(lineUpToIdentifier) || /[a-zA-Z_][a-zA-Z0-9_]*\.[a-zA-Z_][a-zA-Z0-9_]*\s*$/.test(lineUpToIdentifier)) {
-                        continue;
-                    }
-                }
+    public prepareRename(
+        document: TextDocument,
+        position: Position
+    ): { range: Range; placeholder: string } | ResponseError<void> | null {
+        const wordRange = this.getWordRangeAtPosition(document, position);
+        if (!wordRange) return null;
+        const word = document.getText(wordRange);
 
-                // Skip object literal keys like {width: 0} — treat identifier followed by ':' as a key, not variable usage
-                if (/^\s*:/.test(afterIdentifier)) {
-                    continue;
-                }
+        if (KEYWORDS.has(word)) {
+            return new ResponseError(ErrorCodes.InvalidRequest, `'${word}' is a keyword and cannot be renamed.`);
+        }
+        const target = this.resolveSymbolAtPosition(document, position);
+        if (!target) {
+            return new ResponseError(ErrorCodes.InvalidRequest, `'${word}' is not a symbol declared in this project.`);
+        }
+        const refusal = this.renameRefusal(target.symbol);
+        if (refusal) {
+            return new ResponseError(ErrorCodes.InvalidRequest, refusal);
+        }
+        return { range: wordRange, placeholder: word };
+    }
 
-                // Skip member access (obj/method or obj.property)
-                // Check if this identifier comes after a / or .
-                const beforeIdentifier = withoutStrings.substring(0, column);
-                
-                if (/[/.]$/.test(beforeIdentifier.trimEnd())) {
-                    // This is a property/method access - validate it exists
-                    // Find the object identifier before the / or .
-                    const objectMatch = beforeIdentifier.match(/([a-zA-Z_][a-zA-Z0-9_]*)\s*[/.]$/);
-                    if (objectMatch) {
-                        const objectName = objectMatch[1];
-                        const objectSymbol = visibleSymbols.find(s => s.name === objectName);
-                        if (objectSymbol) {
-                            // Check if the member exists on this type
-                            const members = this.getMembersOfSymbol(objectSymbol, rootScope);
-                            const memberExists = members.some(m => m.name === identifier);
-                            if (!memberExists) {
-                                const range = { start: { line: i, character: column }, end: { line: i, character: column + identifier.length } };
-                                const typeName = objectSymbol.varType || objectSymbol.name;
-                                diagnostics.push({
-                                    range,
-                                    message: `Property or method '${identifier}' does not exist on type '${typeName}'`,
-                                    severity: DiagnosticSeverity.Error
-                                });
-                            }
-                        }
-                    }
-                    continue;
+    public async provideRename(
+        document: TextDocument,
+        position: Position,
+        newName: string,
+        token: CancellationToken = CancellationToken.None
+    ): Promise<WorkspaceEdit | ResponseError<void> | null> {
+        const target = this.resolveSymbolAtPosition(document, position);
+        if (!target) return null;
+
+        const refusal = this.renameRefusal(target.symbol);
+        if (refusal) {
+            return new ResponseError(ErrorCodes.InvalidRequest, refusal);
+        }
+        if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(newName) || KEYWORDS.has(newName)) {
+            return new ResponseError(ErrorCodes.InvalidRequest, `'${newName}' is not a valid Flick identifier.`);
+        }
+
+        const bindings = this.collectBindings(document, target.rootScope);
+        const conflict = this.findRenameConflict(target.symbol, newName, bindings, target.rootScope);
+        if (conflict) {
+            return new ResponseError(ErrorCodes.InvalidRequest, conflict);
+        }
+
+        const changes: { [uri: string]: TextEdit[] } = {};
+        changes[document.uri] = bindings
+            .filter(binding => binding.symbol === target.symbol)
+            .map(binding => TextEdit.replace(binding.identifier.range, newName));
+        const moduleReferences = await this.findModuleMemberReferences(document, target.symbol, target.rootScope, token);
+        if (!moduleReferences) {
+            return this.cancelledError();
+        }
+        for (const [uri, ranges] of moduleReferences) {
+            changes[uri] = ranges.map(range => TextEdit.replace(range, newName));
+        }
+        return { changes };
+    }
+
+    public provideCodeActions(document: TextDocument, diagnostics: Diagnostic[]): CodeAction[] {
+        const actions: CodeAction[] = [];
+        const quickFix = (title: string, diagnostic: Diagnostic, edits: TextEdit[], isPreferred = false): CodeAction => ({
+            title,
+            kind: CodeActionKind.QuickFix,
+            diagnostics: [diagnostic],
+            isPreferred,
+            edit: { changes: { [document.uri]: edits } }
+        });
+
+        for (const diagnostic of diagnostics) {
+            switch (diagnostic.code) {
+                case DiagnosticCode.UnclosedBlock: {
+                    const closer: string = diagnostic.data?.closer ?? 'end';
+                    const edit = this.closeBlockEdit(document, diagnostic.range.start.line, closer);
+                    actions.push(quickFix(`Insert '${closer}' to close the block`, diagnostic, [edit], true));
+                    break;
                 }
-                
-                // Also skip if this identifier is followed by / or . (it's the object being accessed)
-                if (/^\s*[/.]/.test(afterIdentifier)) {
-                    // Don't skip - we need to validate the object itself exists
-                    // Continue to normal validation below
-                }
-
-                // Check for route-only keywords used outside route blocks
-                if (WEB_ROUTE_ONLY_KEYWORDS.has(identifier)) {
-                    if (currentScope.type !== 'route') {
-                        const range = { start: { line: i, character: column }, end: { line: i, character: column + identifier.length } };
-                        diagnostics.push({
-                            range,
-                            message: `'${identifier}' can only be used inside route blocks`,
-                            severity: DiagnosticSeverity.Error
-                        });
-                        continue;
-                    } else {
-                        // It's in a route block, so it's valid
-                        continue;
-                    }
+                case DiagnosticCode.ModuleNotImported: {
+                    const moduleName: string = diagnostic.data?.module ?? document.getText(diagnostic.range);
+                    const edit = this.insertHeaderLine(document, `use ${moduleName}`);
+                    actions.push(quickFix(`Add 'use ${moduleName}'`, diagnostic, [edit], true));
+                    break;
                 }
-
-                // Validate route forwarding
-                if (/^\s*route\s+(?:GET|POST|PUT|DELETE|PATCH)?\s*"[^"]+"\s*->\s*$/.test(lineUpToIdentifier)) {
-                    // This is a module being forwarded to
-                    const moduleSymbol = visibleSymbols.find(s => s.name === identifier && s.type === 'module');
-                    if (!moduleSymbol) {
-                        const range = { start: { line: i, character: column }, end: { line: i, character: column + identifier.length } };
-                        diagnostics.push({
-                            range,
-                            message: `Module '${identifier}' is not imported. Use 'use ${identifier}' to import it.`,
-                            severity: DiagnosticSeverity.Error
-                        });
+                case DiagnosticCode.WebPluginNotDeclared:
+                    actions.push(quickFix(`Add 'declare web'`, diagnostic, [this.insertHeaderLine(document, 'declare web')], true));
+                    break;
+                case DiagnosticCode.MissingBlueprintTasks: {
+                    const stubs: string[] = diagnostic.data?.stubs ?? [];
+                    const edit = this.blueprintStubsEdit(document, diagnostic.range.start, stubs);
+                    if (edit) {
+                        const title = stubs.length === 1 ? 'Add stub for missing task' : `Add stubs for ${stubs.length} missing tasks`;
+                        actions.push(quickFix(title, diagnostic, [edit], true));
                     }
-                    continue;
+                    break;
                 }
-                // If it's a call to a builtin function (like str(...)) treat as defined
-                const afterIdent = withoutStrings.substring(column + identifier.length);
-                if (BUILTIN_FUNCTIONS.has(identifier)) {
-                    continue;
+                case DiagnosticCode.UndefinedVariable:
+                case DiagnosticCode.UnknownMember: {
+                    const word = document.getText(diagnostic.range);
+                    const suggestions = this.suggestNames(document, diagnostic, word);
+                    suggestions.forEach((name, index) => {
+                        actions.push(quickFix(`Change to '${name}'`, diagnostic, [TextEdit.replace(diagnostic.range, name)], index === 0));
+                    });
+                    break;
                 }
-
-                const range = { start: { line: i, character: column }, end: { line: i, character: column + identifier.length } };
-                diagnostics.push({
-                    range,
-                    message: `Variable '${identifier}' is used outside its scope or is undefined`,
-                    severity: DiagnosticSeverity.Error
-                });
             }
         }
+        return actions;
+    }
 
-        // Check for unclosed blocks
-        diagnostics.push(...this.validateBlockStructure(lines));
-
-        return diagnostics;
+    /**
+     * Places the closer after the block's last line: before the first later line
+     * indented no deeper than the opener, or at the end of the document.
+     */
+    private closeBlockEdit(document: TextDocument, openerLine: number, closer: string): TextEdit {
+        const lines = document.getText().split('\n').map(line => line.replace(/\r$/, ''));
+        const indent = lines[openerLine].match(/^\s*/)![0];
+        let lastContentLine = openerLine;
+        for (let line = openerLine + 1; line < lines.length; line++) {
+            const text = lines[line];
+            if (text.trim().length === 0) continue;
+            const lineIndent = text.match(/^\s*/)![0];
+            const firstWord = text.trim().split(/\s/)[0];
+            if (lineIndent.length <= indent.length && !PARSER_BRANCH_KEYWORDS.has(firstWord)) {
+                break;
+            }
+            lastContentLine = line;
+        }
+        const end = Position.create(lastContentLine, lines[lastContentLine].length);
+        return TextEdit.insert(end, `\n${indent}${closer}`);
     }
 
-    private buildScopeTree(document: TextDocument): Scope {
-        this.documentScopes.delete(document.uri.toString());
-        this.documentPlugins.delete(document.uri.toString());
+    /**
+     * Inserts empty tasks for the given signatures before the `end` of the
+     * `do` block starting at `doStart`, indented like its other tasks.
+     */
+    private blueprintStubsEdit(document: TextDocument, doStart: Position, stubs: string[]): TextEdit | undefined {
+        const { parsed } = this.analyze(document);
+        const doBlock = parsed.program.body.find((s): s is DoBlock =>
+            s.kind === 'DoBlock' && s.range.start.line === doStart.line && s.range.start.character === doStart.character);
+        if (!doBlock || doBlock.range.end.line === doBlock.range.start.line || stubs.length === 0) return undefined;
+
+        const lines = document.getText().split('\n');
+        const indent = lines[doBlock.range.start.line].match(/^\s*/)![0];
+        const firstTask = doBlock.body[0];
+        const taskIndent = firstTask
+            ? lines[firstTask.range.start.line].match(/^\s*/)![0]
+            : indent + '    ';
+        const text = stubs.map(stub => `${taskIndent}${stub} =>\n${taskIndent}end\n`).join('\n');
+        const separator = doBlock.body.length > 0 ? '\n' : '';
+        return TextEdit.insert(Position.create(doBlock.range.end.line, 0), separator + text);
+    }
 
-        const text = document.getText();
-        const lines = text.split('\n');
+    // Inserts a line after the existing `declare` / `use` / `import` lines at the top of the file
+    private insertHeaderLine(document: TextDocument, text: string): TextEdit {
+        const { parsed } = this.analyze(document);
+        let line = 0;
+        for (const statement of parsed.program.body) {
+            if (statement.kind !== 'DeclareStatement' && statement.kind !== 'UseStatement' && statement.kind !== 'ImportStatement') {
+                break;
+            }
+            line = statement.range.end.line + 1;
+        }
+        return TextEdit.insert(Position.create(line, 0), `${text}\n`);
+    }
 
-        const globalScope: Scope = {
-            type: 'global',
-            startLine: 0,
-            endLine: lines.length - 1,
-            symbols: new Map(),
-            children: [],
-            parent: undefined
-        };
+    /**
+     * "Did you mean" candidates for an unknown name: visible symbols and group
+     * members, or the members of the object's type for `obj/name`, closest first.
+     */
+    private suggestNames(document: TextDocument, diagnostic: Diagnostic, word: string): string[] {
+        const { rootScope, parsed } = this.analyze(document);
+        const nodePath = findNodePath(parsed.program, diagnostic.range.start);
+        const scope = this.scopeForPath(nodePath, rootScope);
+        const candidates = new Set<string>();
+
+        if (diagnostic.code === DiagnosticCode.UnknownMember) {
+            const member = nodePath.reverse().find((node): node is MemberExpression => node.kind === 'MemberExpression');
+            const objectSymbol = member && this.resolveExpressionSymbol(member.object, scope, rootScope);
+            if (objectSymbol) {
+                this.getMembersOfSymbol(objectSymbol, rootScope).forEach(symbol => candidates.add(symbol.name));
+            }
+        } else {
+            this.getVisibleSymbols(scope).forEach(symbol => candidates.add(symbol.name));
+            const collectGroupMembers = (current: Scope) => {
+                if (current.type === 'group') {
+                    current.symbols.forEach(symbol => candidates.add(symbol.name));
+                }
+                current.children.forEach(collectGroupMembers);
+            };
+            collectGroupMembers(rootScope);
+        }
 
-        const scopeStack: Scope[] = [globalScope];
-        const plugins: PluginDeclaration[] = [];
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmed = line.trim();
-            let currentScope = scopeStack[scopeStack.length - 1];
-
-            if (trimmed.startsWith('#')) continue;
-
-            let strippedLine = line.replace(/"[^"\\]*(?:\\.[^"\\]*)*"/g, '""');
-            strippedLine = strippedLine.replace(/'[^'\\]*(?:\\.[^'\\]*)*'/g, "''");
-            const cidx = strippedLine.indexOf('#');
-            if (cidx !== -1) strippedLine = strippedLine.substring(0, cidx);
-
-            const declareMatch = line.match(/^\s*declare\s+([a-zA-Z_][a-zA-Z0-9_]*)(?:@([a-zA-Z0-9_]+))?\s*$/);
-            if (declareMatch) {
-                const pluginName = declareMatch[1];
-                const argument = declareMatch[2];
-                plugins.push({ name: pluginName, argument, line: i });
-                
-                const pluginSymbol: FlickSymbol = {
-                    name: pluginName,
-                    type: 'plugin',
-                    range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } },
-                };
-                currentScope.symbols.set(pluginName, pluginSymbol);
-
-                if (pluginName.toLowerCase() === 'window') {
-                    const windowSymbol: FlickSymbol = {
-                        name: 'Window',
-                        type: 'plugin',
-                        varType: 'Window',
-                        range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } },
-                    };
-                    currentScope.symbols.set('Window', windowSymbol);
-
-                    const windowGroupScope: Scope = {
-                        type: 'group',
-                        name: 'Window',
-                        startLine: i,
-                        endLine: i,
-                        parent: globalScope,
-                        symbols: new Map(),
-                        children: []
-                    };
-
-                    const windowMethods: Array<{ name: string; type: 'task' | 'variable'; dataType?: string }> = [
-                        { name: 'open', type: 'task' }, { name: 'print', type: 'task' },
-                        { name: 'heading', type: 'task' }, { name: 'button', type: 'task' },
-                        { name: 'input', type: 'task' }, { name: 'getInputValue', type: 'task' },
-                        { name: 'image', type: 'task' }, { name: 'canvas', type: 'task', dataType: 'Canvas' },
-                        { name: 'grid', type: 'task' }, { name: 'card', type: 'task' },
-                        { name: 'divider', type: 'task' }, { name: 'alert', type: 'task' },
-                        { name: 'prompt', type: 'task' }, { name: 'clear', type: 'task' },
-                        { name: 'close', type: 'task' }
-                    ];
-
-                    const canvasScope: Scope = {
-                        type: 'group',
-                        name: 'Canvas',
-                        startLine: i,
-                        endLine: i,
-                        parent: globalScope,
-                        symbols: new Map(),
-                        children: []
-                    };
-
-                    const canvasMethods: Array<{ name: string; type: 'task' | 'variable' }> = [
-                        { name: 'rect', type: 'task' },
-                        { name: 'circle', type: 'task' },
-                        { name: 'line', type: 'task' },
-                        { name: 'text', type: 'task' }
-                    ];
-
-                    for (const method of canvasMethods) {
-                        const canvasSymbol: FlickSymbol = {
-                            name: method.name,
-                            type: method.type === 'task' ? 'task' : 'variable',
-                            range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } }
-                        };
-                        canvasScope.symbols.set(method.name, canvasSymbol);
-                    }
+        // Allow roughly one typo per three characters
+        const maxDistance = Math.ceil(word.length / 3);
+        return Array.from(candidates)
+            .filter(name => name !== word)
+            .map(name => ({ name, distance: this.editDistance(word.toLowerCase(), name.toLowerCase()) }))
+            .filter(candidate => candidate.distance <= maxDistance)
+            .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+            .slice(0, 3)
+            .map(candidate => candidate.name);
+    }
 
-                    for (const m of windowMethods) {
-                        const sym: FlickSymbol = {
-                            name: m.name,
-                            type: m.type === 'task' ? 'task' : 'variable',
-                            range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } },
-                        };
-                        if (m.dataType) {
-                            sym.dataType = m.dataType;
-                        }
-                        windowGroupScope.symbols.set(m.name, sym);
-                    }
-                    globalScope.children.push(windowGroupScope);
-                    globalScope.children.push(canvasScope);
-                }
-                continue;
+    // Levenshtein distance
+    private editDistance(a: string, b: string): number {
+        let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+        for (let i = 1; i <= a.length; i++) {
+            const current = [i];
+            for (let j = 1; j <= b.length; j++) {
+                const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+                current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
             }
+            previous = current;
+        }
+        return previous[b.length];
+    }
 
-            const useMatch = line.match(/^\s*use\s+([a-zA-Z_][a-zA-Z0-9_]*)(?:\s+"([^"]+)")?\s*$/);
-            if (useMatch) {
-                const moduleName = useMatch[1];
-                const moduleSymbol: FlickSymbol = {
-                    name: moduleName,
-                    type: 'module',
-                    range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } },
-                };
-                currentScope.symbols.set(moduleName, moduleSymbol);
-                continue;
+    /**
+     * Edits that replace every changed line between `startLine` and `endLine`.
+     * The whole document is formatted so indentation inside a range is correct.
+     */
+    public provideFormattingEdits(
+        document: TextDocument,
+        options: FormattingOptions,
+        startLine = 0,
+        endLine = document.lineCount - 1
+    ): TextEdit[] {
+        const original = document.getText().split('\n');
+        const formatted = format(document.getText(), options);
+        const edits: TextEdit[] = [];
+        for (let line = startLine; line <= endLine && line < original.length; line++) {
+            const current = original[line].replace(/\r$/, '');
+            if (current !== formatted[line]) {
+                edits.push(TextEdit.replace(Range.create(line, 0, line, current.length), formatted[line]));
             }
+        }
+        return edits;
+    }
 
-            const isArrowBlock = /=>\s*$/.test(trimmed);
-            const isBraceBlock = /\{\s*$/.test(trimmed);
-            const isWindowCanvasBlock = isArrowBlock && /\bWindow[\/.]canvas\b/.test(strippedLine);
+    public provideOnTypeFormattingEdits(
+        document: TextDocument,
+        position: Position,
+        ch: string,
+        options: FormattingOptions
+    ): TextEdit[] {
+        if (ch === '\n') {
+            // Settle the line just finished, e.g. dedent a completed `otherwise =>`
+            return position.line > 0
+                ? this.provideFormattingEdits(document, options, position.line - 1, position.line - 1)
+                : [];
+        }
+        const lineText = document.getText(Range.create(position.line, 0, position.line, position.character)).trim();
+        if ((ch === 'd' && lineText === 'end') || (ch === '}' && lineText === '}')) {
+            return this.provideFormattingEdits(document, options, position.line, position.line);
+        }
+        return [];
+    }
 
-            if (/^\s*end\b/.test(trimmed)) {
-                if (scopeStack.length > 1 && currentScope.type !== 'global' && currentScope.type !== 'group' && currentScope.type !== 'blueprint') {
-                    currentScope.endLine = i;
-                    scopeStack.pop();
-                }
-                continue;
+    /**
+     * Classifies every identifier by the symbol it resolves to. Keywords, strings
+     * and unresolved names are left to the TextMate grammar.
+     */
+    public provideSemanticTokens(document: TextDocument, previousResultId?: string): SemanticTokensBuilder {
+        // `build()` keeps the pushed tokens, so only a delta request reuses the builder to diff against its last result
+        let builder = previousResultId ? this.semanticTokenBuilders.get(document.uri) : undefined;
+        if (builder) {
+            builder.previousResult(previousResultId!);
+        } else {
+            builder = new SemanticTokensBuilder();
+            this.semanticTokenBuilders.set(document.uri, builder);
+        }
+
+        const { rootScope } = this.analyze(document);
+        const bindings = this.collectBindings(document, rootScope)
+            .filter(binding => binding.symbol)
+            .sort((a, b) => a.identifier.range.start.line - b.identifier.range.start.line
+                || a.identifier.range.start.character - b.identifier.range.start.character);
+
+        for (const binding of bindings) {
+            const tokenType = this.semanticTokenType(binding);
+            if (!tokenType) continue;
+            const symbol = binding.symbol!;
+            let modifiers = 0;
+            if (binding.declaration) {
+                modifiers |= 1 << TOKEN_MODIFIERS.indexOf('declaration');
+            }
+            if ((symbol.type === 'variable' || symbol.type === 'field') && symbol.mutable === false) {
+                modifiers |= 1 << TOKEN_MODIFIERS.indexOf('readonly');
             }
+            // Plugin members such as `Window.print` are declared by the server, not in source
+            if (!symbol.node && !symbol.uri) {
+                modifiers |= 1 << TOKEN_MODIFIERS.indexOf('defaultLibrary');
+            }
+            const { start, end } = binding.identifier.range;
+            builder.push(start.line, start.character, end.character - start.character, TOKEN_TYPES.indexOf(tokenType), modifiers);
+        }
+        return builder;
+    }
 
-            if (/^\s*\}\s*$/.test(trimmed)) {
-                if (scopeStack.length > 1 && (currentScope.type === 'group' || currentScope.type === 'blueprint')) {
-                    currentScope.endLine = i;
-                    scopeStack.pop();
+    private semanticTokenType(binding: SymbolBinding): typeof TOKEN_TYPES[number] | undefined {
+        const symbol = binding.symbol!;
+        switch (symbol.type) {
+            case 'group':
+                return 'class';
+            case 'blueprint':
+                return 'interface';
+            case 'module':
+            case 'plugin':
+                return 'namespace';
+            case 'parameter':
+                return 'parameter';
+            case 'variable':
+            case 'loop-var':
+                return binding.member ? 'property' : 'variable';
+            case 'field':
+                return 'property';
+            case 'task': {
+                if (binding.member && !symbol.uri) return 'method';
+                let declaringScope: Scope | undefined = binding.scope;
+                while (declaringScope && declaringScope.symbols.get(symbol.name) !== symbol) {
+                    declaringScope = declaringScope.parent;
                 }
-                continue;
+                const scopeType = declaringScope?.type;
+                return scopeType === 'group' || scopeType === 'blueprint' || scopeType === 'do-block' ? 'method' : 'function';
             }
+            case 'route':
+            case 'route-builtin':
+                return 'function';
+        }
+    }
 
-            let newScope: Scope | null = null;
+    public provideDocumentSymbols(document: TextDocument): DocumentSymbol[] {
+        const { parsed } = this.analyze(document);
+        return this.toDocumentSymbols(parsed.program.body, 'global');
+    }
 
-            const taskMatch = isArrowBlock && line.match(/^\s*task\s+([a-zA-Z_][a-zA-Z0-9_]*)/);
-            if (taskMatch) {
-                const taskName = taskMatch[1];
-                const params: Array<{ name: string; type: string }> = [];
-                const withMatch = line.match(/with\s+(.+?)\s*=>/);
-                if (withMatch) {
-                    const paramStr = withMatch[1];
-                    const paramMatches = paramStr.matchAll(/([a-zA-Z_][a-zA-Z0-9_]*)\s*\(\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\)/g);
-                    for (const pm of paramMatches) {
-                        params.push({ type: pm[1], name: pm[2] });
-                    }
+    public async provideWorkspaceSymbols(
+        query: string,
+        token: CancellationToken = CancellationToken.None
+    ): Promise<SymbolInformation[] | ResponseError<void>> {
+        const results: SymbolInformation[] = [];
+        const needle = query.toLowerCase();
+        for (const uri of this.getFlickDocumentUris()) {
+            // Let a cancellation or newer query through between files
+            await yieldToEventLoop();
+            if (token.isCancellationRequested) {
+                return this.cancelledError();
+            }
+            for (const symbol of this.getWorkspaceSymbolsOf(uri)) {
+                if (this.matchesQuery(symbol.name.toLowerCase(), needle)) {
+                    results.push(symbol);
                 }
-                
-                const taskSymbol: FlickSymbol = { name: taskName, type: 'task', params, range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } } };
-                currentScope.symbols.set(taskName, taskSymbol);
+            }
+        }
+        return results;
+    }
 
-                newScope = { type: 'task', name: taskName, startLine: i, parent: currentScope, symbols: new Map(), children: [] };
-                for (const param of params) {
-                    const paramSymbol: FlickSymbol = { name: param.name, type: 'parameter', varType: param.type, mutable: true, range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } } };
-                    newScope.symbols.set(param.name, paramSymbol);
+    /**
+     * Outline entries for a list of statements: tasks, groups with their fields
+     * and tasks, blueprints with their signatures, `do` blocks, routes and
+     * top-level bindings.
+     */
+    private toDocumentSymbols(statements: Statement[], container: Scope['type']): DocumentSymbol[] {
+        const symbols: DocumentSymbol[] = [];
+        const memberContainer = container === 'group' || container === 'blueprint' || container === 'do-block';
+
+        for (const statement of statements) {
+            switch (statement.kind) {
+                case 'TaskDeclaration': {
+                    if (!statement.name.name) break;
+                    const detail = statement.params.length > 0
+                        ? `with ${statement.params.map(p => `${p.typeAnnotation.name}(${p.name.name})`).join(', ')}`
+                        : '';
+                    const kind = memberContainer ? SymbolKind.Method : SymbolKind.Function;
+                    const children = statement.body ? this.toDocumentSymbols(statement.body, 'task') : [];
+                    symbols.push(DocumentSymbol.create(statement.name.name, detail, kind, statement.range, statement.name.range, children));
+                    break;
                 }
+                case 'GroupDeclaration':
+                case 'BlueprintDeclaration': {
+                    if (!statement.name.name) break;
+                    const isGroup = statement.kind === 'GroupDeclaration';
+                    const children = this.toDocumentSymbols(statement.body, isGroup ? 'group' : 'blueprint');
+                    symbols.push(DocumentSymbol.create(
+                        statement.name.name,
+                        isGroup ? 'group' : 'blueprint',
+                        isGroup ? SymbolKind.Class : SymbolKind.Interface,
+                        statement.range,
+                        statement.name.range,
+                        children
+                    ));
+                    break;
+                }
+                case 'DoBlock': {
+                    const name = `do ${statement.blueprint.name} for ${statement.group.name}`;
+                    const children = this.toDocumentSymbols(statement.body, 'do-block');
+                    symbols.push(DocumentSymbol.create(name, 'implementation', SymbolKind.Object, statement.range, statement.blueprint.range, children));
+                    break;
+                }
+                case 'RouteStatement': {
+                    const method = statement.method?.name ?? 'ROUTE';
+                    const name = statement.forward
+                        ? `${statement.path.value} -> ${statement.forward.name}`
+                        : `${method} ${statement.path.value}`;
+                    const children = statement.body ? this.toDocumentSymbols(statement.body, 'route') : [];
+                    const kind = statement.forward ? SymbolKind.Namespace : SymbolKind.Event;
+                    symbols.push(DocumentSymbol.create(name, 'route', kind, statement.range, statement.path.range, children));
+                    break;
+                }
+                case 'VariableDeclaration': {
+                    // Locals inside task bodies would only clutter the outline
+                    if (container !== 'global' && container !== 'group' || !statement.name.name) break;
+                    const detail = `${statement.mutable ? 'free' : 'lock'}${statement.typeAnnotation ? ` ${statement.typeAnnotation.name}` : ''}`;
+                    const kind = container === 'group'
+                        ? SymbolKind.Field
+                        : statement.mutable ? SymbolKind.Variable : SymbolKind.Constant;
+                    symbols.push(DocumentSymbol.create(statement.name.name, detail, kind, statement.range, statement.name.range));
+                    break;
+                }
+                case 'UseStatement':
+                    if (statement.name.name) {
+                        symbols.push(DocumentSymbol.create(statement.name.name, 'use', SymbolKind.Module, statement.range, statement.name.range));
+                    }
+                    break;
             }
+        }
+        return symbols;
+    }
 
-            const groupMatch = isBraceBlock && line.match(/^\s*group\s+([a-zA-Z_][a-zA-Z0-9_]*)/);
-            if (groupMatch) {
-                const groupName = groupMatch[1];
-                const groupSymbol: FlickSymbol = { name: groupName, type: 'group', range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } } };
-                currentScope.symbols.set(groupName, groupSymbol);
-                newScope = { type: 'group', name: groupName, startLine: i, parent: currentScope, symbols: new Map(), children: [] };
-            }
+    /**
+     * Folds the blocks the parser matched rather than indentation, which Flick
+     * code often doesn't have. The closing `end` or `}` stays visible.
+     */
+    public provideFoldingRanges(document: TextDocument): FoldingRange[] {
+        const { parsed } = this.analyze(document);
+        const ranges: FoldingRange[] = [];
+        const fold = (startLine: number, endLine: number, kind?: FoldingRangeKind) => {
+            if (/^\s*(end\b|\})/.test(this.lineText(document, endLine))) endLine--;
+            if (endLine > startLine) ranges.push(FoldingRange.create(startLine, endLine, undefined, undefined, kind));
+        };
 
-            const blueprintMatch = isBraceBlock && line.match(/^\s*blueprint\s+([a-zA-Z_][a-zA-Z0-9_]*)/);
-            if (blueprintMatch) {
-                const blueprintName = blueprintMatch[1];
-                const blueprintSymbol: FlickSymbol = { name: blueprintName, type: 'blueprint', range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } } };
-                currentScope.symbols.set(blueprintName, blueprintSymbol);
-                newScope = { type: 'blueprint', name: blueprintName, startLine: i, parent: currentScope, symbols: new Map(), children: [] };
+        walk(parsed.program, node => {
+            switch (node.kind) {
+                case 'TaskDeclaration':
+                case 'RouteStatement':
+                    if (node.body) fold(node.range.start.line, node.range.end.line);
+                    break;
+                case 'GroupDeclaration':
+                case 'BlueprintDeclaration':
+                case 'DoBlock':
+                case 'EachStatement':
+                case 'MarchStatement':
+                case 'SelectStatement':
+                case 'LambdaExpression':
+                case 'ObjectLiteral':
+                    fold(node.range.start.line, node.range.end.line);
+                    break;
+                case 'AssumeStatement':
+                case 'AttemptStatement':
+                    // Each branch folds up to the next one; the first starts on the statement's line
+                    node.branches.forEach((branch, index) => {
+                        const next = node.branches[index + 1];
+                        fold(branch.range.start.line, next ? next.range.start.line - 1 : node.range.end.line);
+                    });
+                    break;
+                case 'Branch':
+                    // `when`/`suppose` arms of a select
+                    if (node.keyword === 'when' || node.keyword === 'suppose') {
+                        fold(node.range.start.line, node.range.end.line);
+                    }
+                    break;
             }
+        });
 
-            const loopMatch = isArrowBlock && line.match(/^\s*(each|march)\s+([a-zA-Z_][a-zA-Z0-9_]*)/);
-            if (loopMatch) {
-                const loopVar = loopMatch[2];
-                newScope = { type: 'loop', startLine: i, parent: currentScope, symbols: new Map(), children: [] };
-                const loopSymbol: FlickSymbol = { name: loopVar, type: 'loop-var', mutable: false, range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } } };
-                newScope.symbols.set(loopVar, loopSymbol);
+        // Runs of two or more lines holding only a comment
+        let runStart: number | undefined;
+        let runEnd = -1;
+        for (const comment of parsed.comments) {
+            const line = comment.range.start.line;
+            if (this.lineText(document, line).slice(0, comment.range.start.character).trim() !== '') continue;
+            if (runStart !== undefined && line === runEnd + 1) {
+                runEnd = line;
+                continue;
             }
+            if (runStart !== undefined && runEnd > runStart) ranges.push(FoldingRange.create(runStart, runEnd, undefined, undefined, FoldingRangeKind.Comment));
+            runStart = runEnd = line;
+        }
+        if (runStart !== undefined && runEnd > runStart) ranges.push(FoldingRange.create(runStart, runEnd, undefined, undefined, FoldingRangeKind.Comment));
 
-            const controlFlowMatch = isArrowBlock && /^\s*(assume|maybe|otherwise|select|route)\b/.test(line);
-            if (controlFlowMatch) {
-                const keyword = /^\s*([a-zA-Z_]+)/.exec(line)![1];
-                if (keyword === 'maybe' || keyword === 'otherwise') {
-                    if (scopeStack.length > 1 && (currentScope.type === 'loop' || currentScope.type === 'lambda')) {
-                        currentScope.endLine = i - 1;
-                        scopeStack.pop();
-                        currentScope = scopeStack[scopeStack.length - 1];
-                    }
+        return ranges.sort((a, b) => a.startLine - b.startLine);
+    }
+
+    /**
+     * Expand Selection steps outwards through the syntax tree: an expression,
+     * the expressions around it, its statement, the statements of its block,
+     * the whole block, and so on up to the enclosing task or group.
+     */
+    public provideSelectionRanges(document: TextDocument, positions: Position[]): SelectionRange[] {
+        const { parsed } = this.analyze(document);
+        return positions.map(position => {
+            const nodePath = findNodePath(parsed.program, position);
+            // Built from the root down, so each range's parent is the one around it
+            let selection: SelectionRange | undefined;
+            const push = (range: Range) => {
+                if (!selection || !this.sameRange(selection.range, range)) {
+                    selection = SelectionRange.create(range, selection);
                 }
-                 if (!line.match(/^\s*route\s+(?:GET|POST|PUT|DELETE|PATCH)?\s*"[^"]+"\s*->/)) {
-                    newScope = { type: 'loop', startLine: i, parent: currentScope, symbols: new Map(), children: [] };
-                }
-            }
-
-            const doMatch = isArrowBlock && line.match(/^\s*do\s+([a-zA-Z_][a-zA-Z0-9_]*)\s+for\s+([a-zA-Z_][a-zA-Z0-9_]*)/);
-            if (doMatch) {
-                const blueprintName = doMatch[1];
-                const groupName = doMatch[2];
-                const doScope: Scope = {
-                    type: 'do-block',
-                    name: `${blueprintName}:${groupName}`,
-                    startLine: i,
-                    parent: currentScope,
-                    symbols: new Map(),
-                    children: []
-                };
-                (doScope as any).targetGroupName = groupName;
-
-                const targetGroupScope = this.findScopeByName(globalScope, groupName);
-                if (targetGroupScope) {
-                    (doScope as any).targetGroupScope = targetGroupScope;
-                    for (const [name, symbol] of targetGroupScope.symbols.entries()) {
-                        doScope.symbols.set(name, symbol);
-                    }
+            };
+            nodePath.forEach((node, index) => {
+                push(node.range);
+                const body = 'body' in node && Array.isArray(node.body) ? node.body as Statement[] : undefined;
+                const child = nodePath[index + 1];
+                if (body && body.length > 0 && body.includes(child as Statement)) {
+                    push(Range.create(body[0].range.start, body[body.length - 1].range.end));
                 }
+            });
+            return selection ?? SelectionRange.create(Range.create(position, position));
+        });
+    }
 
-                currentScope.children.push(doScope);
-                scopeStack.push(doScope);
-                continue;
+    private sameRange(a: Range, b: Range): boolean {
+        return a.start.line === b.start.line && a.start.character === b.start.character &&
+            a.end.line === b.end.line && a.end.character === b.end.character;
+    }
+
+    private lineText(document: TextDocument, line: number): string {
+        return document.getText(Range.create(line, 0, line + 1, 0));
+    }
+
+    /** The task declared or called at the position, as the root of the Call Hierarchy view. */
+    public prepareCallHierarchy(document: TextDocument, position: Position): CallHierarchyItem[] | null {
+        const target = this.resolveSymbolAtPosition(document, position);
+        const task = target?.symbol.node;
+        if (target?.symbol.type !== 'task' || task?.kind !== 'TaskDeclaration' || !task.body) return null;
+        // Members of `use` modules carry their file's URI
+        const uri = target.symbol.uri ?? document.uri;
+        const container = uri === document.uri ? this.taskContainers(this.analyze(document).parsed.program).get(task) : undefined;
+        return [this.taskItem(uri, task, container)];
+    }
+
+    public async provideIncomingCalls(
+        item: CallHierarchyItem,
+        token: CancellationToken = CancellationToken.None
+    ): Promise<CallHierarchyIncomingCall[] | ResponseError<void>> {
+        const target = this.itemKey(item.uri, item.selectionRange);
+        const incoming: CallHierarchyIncomingCall[] = [];
+        for (const uri of this.getFlickDocumentUris()) {
+            await yieldToEventLoop();
+            if (token.isCancellationRequested) {
+                return this.cancelledError();
             }
-            
-            const varMatch = line.match(/^\s*(free|lock)\s+(?:([a-zA-Z_][a-zA-Z0-9_]*)\s+)?([a-zA-Z_][a-zA-Z0-9_]*)/);
-            if (varMatch) {
-                const mutable = varMatch[1] === 'free';
-                const varType = varMatch[2];
-                const varName = varMatch[3];
-                const symbolType = currentScope.type === 'group' ? 'field' : 'variable';
-                const varSymbol: FlickSymbol = { name: varName, type: symbolType, mutable, varType, range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } } };
-                currentScope.symbols.set(varName, varSymbol);
-
-                if (/=\s*Window[\/.]canvas\b/.test(strippedLine)) {
-                    if (!varSymbol.varType) {
-                        varSymbol.varType = 'Canvas';
-                    }
-                    varSymbol.dataType = 'Canvas';
+            const document = this.getWorkspaceDocument(uri);
+            if (!document) continue;
+            // One entry per calling task, or for the file's top-level code
+            const callers = new Map<TaskDeclaration | undefined, CallHierarchyIncomingCall>();
+            for (const call of this.collectTaskCalls(document)) {
+                if (this.itemKey(call.calleeUri, call.callee.name.range) !== target) continue;
+                let entry = callers.get(call.caller);
+                if (!entry) {
+                    const from = call.caller ? this.taskItem(uri, call.caller, call.callerContainer) : this.fileItem(document);
+                    entry = { from, fromRanges: [] };
+                    callers.set(call.caller, entry);
+                    incoming.push(entry);
                 }
+                entry.fromRanges.push(call.range);
             }
+            this.releaseDiskDocument(uri);
+        }
+        return incoming;
+    }
 
-            if (isArrowBlock && !taskMatch && !loopMatch && !controlFlowMatch) {
-                newScope = { type: 'lambda', startLine: i, parent: currentScope, symbols: new Map(), children: [] };
-                if (isWindowCanvasBlock) {
-                    const canvasSymbol: FlickSymbol = {
-                        name: 'canvas',
-                        type: 'variable',
-                        mutable: false,
-                        varType: 'Canvas',
-                        range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } }
-                    };
-                    newScope.symbols.set('canvas', canvasSymbol);
-                }
+    public provideOutgoingCalls(item: CallHierarchyItem): CallHierarchyOutgoingCall[] {
+        const document = this.getWorkspaceDocument(item.uri);
+        if (!document) return [];
+        const source = this.itemKey(item.uri, item.selectionRange);
+        const outgoing = new Map<string, CallHierarchyOutgoingCall>();
+        for (const call of this.collectTaskCalls(document)) {
+            const caller = call.caller ? this.itemKey(item.uri, call.caller.name.range) : undefined;
+            if (item.kind === SymbolKind.File ? caller !== undefined : caller !== source) continue;
+            const key = this.itemKey(call.calleeUri, call.callee.name.range);
+            let entry = outgoing.get(key);
+            if (!entry) {
+                entry = { to: this.taskItem(call.calleeUri, call.callee, call.calleeContainer), fromRanges: [] };
+                outgoing.set(key, entry);
             }
+            entry.fromRanges.push(call.range);
+        }
+        this.releaseDiskDocument(item.uri);
+        return Array.from(outgoing.values());
+    }
+
+    /**
+     * Every task in the workspace and the calls between them, with each
+     * file's top-level code as the caller of the tasks it runs.
+     */
+    public async buildCallGraph(token: CancellationToken = CancellationToken.None): Promise<CallGraph | undefined> {
+        const graph: CallGraph = { nodes: [], edges: [] };
+        const ids = new Map<string, string>();
+        const edges = new Map<string, CallGraph['edges'][number]>();
+        const documents: TextDocument[] = [];
+        const relative = (uri: string) => {
+            const file = fileURLToPath(uri);
+            const root = this.workspaceRoots.find(candidate => !path.relative(candidate, file).startsWith('..'));
+            return (root ? path.relative(root, file) : path.basename(file)).split(path.sep).join('/');
+        };
 
-            if (newScope) {
-                currentScope.children.push(newScope);
-                scopeStack.push(newScope);
+        try {
+            for (const uri of this.getFlickDocumentUris()) {
+                await yieldToEventLoop();
+                if (token.isCancellationRequested) return undefined;
+                const document = uri.startsWith('file:') ? this.getWorkspaceDocument(uri) : undefined;
+                if (!document) continue;
+                documents.push(document);
+                const file = relative(uri);
+                for (const [task, container] of this.taskContainers(this.analyze(document).parsed.program, true)) {
+                    const name = container ? `${container}/${task.name.name}` : task.name.name;
+                    ids.set(this.itemKey(uri, task.name.range), `${file}:${name}`);
+                    graph.nodes.push({ id: `${file}:${name}`, kind: 'task', name: task.name.name, container, file, line: task.name.range.start.line + 1 });
+                }
             }
+            for (const document of documents) {
+                const file = relative(document.uri);
+                for (const call of this.collectTaskCalls(document)) {
+                    const from = call.caller ? ids.get(this.itemKey(document.uri, call.caller.name.range)) : file;
+                    const to = ids.get(this.itemKey(call.calleeUri, call.callee.name.range));
+                    if (!from || !to) continue;
+                    if (from === file && !graph.nodes.some(node => node.id === file)) {
+                        graph.nodes.push({ id: file, kind: 'file', name: path.posix.basename(file), file, line: 1 });
+                    }
+                    const key = `${from}\n${to}`;
+                    const edge = edges.get(key);
+                    if (edge) {
+                        edge.calls++;
+                    } else {
+                        const added = { from, to, calls: 1 };
+                        edges.set(key, added);
+                        graph.edges.push(added);
+                    }
+                }
+            }
+            return graph;
+        } finally {
+            // Each file is analyzed twice above, so the analyses are kept until the graph is done
+            documents.forEach(document => this.releaseDiskDocument(document.uri));
         }
-
-        this.documentScopes.set(document.uri.toString(), globalScope);
-        this.documentPlugins.set(document.uri.toString(), plugins);
-        
-        this.linkDoBlocksToGroups(globalScope);
-        
-        return globalScope;
     }
 
-    private linkDoBlocksToGroups(rootScope: Scope): void {
-        const findAllDoBlocks = (scope: Scope, doBlocks: Scope[] = []): Scope[] => {
-            if (scope.type === 'do-block') {
-                doBlocks.push(scope);
+    /**
+     * Calls to tasks declared in Flick code: `task args`, bare `task` statements,
+     * `obj/task` members and `Module/task`. Plugin tasks and blueprint
+     * signatures have no body to navigate to and are left out.
+     */
+    private collectTaskCalls(document: TextDocument): TaskCall[] {
+        const { parsed, rootScope } = this.analyze(document);
+        const bindings = new Map(this.collectBindings(document, rootScope).map(binding => [binding.identifier, binding]));
+        const containers = this.taskContainers(parsed.program);
+        const calls: TaskCall[] = [];
+
+        const record = (callee: Expression, caller: TaskDeclaration | undefined) => {
+            const identifier = callee.kind === 'Identifier' ? callee : callee.kind === 'MemberExpression' ? callee.property : undefined;
+            const symbol = identifier && bindings.get(identifier)?.symbol;
+            if (!identifier || symbol?.type !== 'task' || symbol.node?.kind !== 'TaskDeclaration' || !symbol.node.body) return;
+            const calleeUri = symbol.uri ?? document.uri;
+            calls.push({
+                caller,
+                callerContainer: caller && containers.get(caller),
+                callee: symbol.node,
+                calleeUri,
+                calleeContainer: calleeUri === document.uri ? containers.get(symbol.node) : undefined,
+                range: identifier.range
+            });
+        };
+        const visit = (node: AstNode, caller: TaskDeclaration | undefined) => {
+            if (node.kind === 'CallExpression') {
+                record(node.callee, caller);
+            } else if (node.kind === 'ExpressionStatement' && (node.expression.kind === 'Identifier' || node.expression.kind === 'MemberExpression')) {
+                record(node.expression, caller);
             }
-            for (const child of scope.children) {
-                findAllDoBlocks(child, doBlocks);
+            forEachChild(node, child => visit(child, node.kind === 'TaskDeclaration' ? node : caller));
+        };
+        visit(parsed.program, undefined);
+        return calls;
+    }
+
+    // Tasks with a body, mapped to the group, blueprint or `do` block they belong to
+    private taskContainers(program: Program, includeTopLevel = false): Map<TaskDeclaration, string | undefined> {
+        const containers = new Map<TaskDeclaration, string | undefined>();
+        const visit = (node: AstNode, container: string | undefined) => {
+            if (node.kind === 'TaskDeclaration' && node.body && (container || includeTopLevel)) {
+                containers.set(node, container);
             }
-            return doBlocks;
+            const inner = node.kind === 'GroupDeclaration' || node.kind === 'BlueprintDeclaration' ? node.name.name
+                : node.kind === 'DoBlock' ? node.group.name
+                : node.kind === 'TaskDeclaration' ? undefined
+                : container;
+            forEachChild(node, child => visit(child, inner));
         };
+        visit(program, undefined);
+        return containers;
+    }
 
-        const doBlocks = findAllDoBlocks(rootScope);
-        
-        for (const doBlock of doBlocks) {
-            const targetGroupName = (doBlock as any).targetGroupName as string;
-            if (targetGroupName) {
-                const groupScope = this.findScopeByName(rootScope, targetGroupName);
-                if (groupScope) {
-                    // Add all tasks from do-block to the group scope
-                    for (const [name, symbol] of doBlock.symbols.entries()) {
-                        if (symbol.type === 'task') {
-                            groupScope.symbols.set(name, symbol);
-                        }
-                    }
+    private taskItem(uri: string, task: TaskDeclaration, container?: string): CallHierarchyItem {
+        return {
+            name: task.name.name,
+            kind: container ? SymbolKind.Method : SymbolKind.Function,
+            detail: container ?? path.basename(fileURLToPath(uri)),
+            uri,
+            range: task.range,
+            selectionRange: task.name.range
+        };
+    }
+
+    // Stands for the top-level code of a file, which calls tasks without being one
+    private fileItem(document: TextDocument): CallHierarchyItem {
+        return {
+            name: path.basename(fileURLToPath(document.uri)),
+            kind: SymbolKind.File,
+            detail: 'top-level code',
+            uri: document.uri,
+            range: Range.create(0, 0, document.lineCount, 0),
+            selectionRange: Range.create(0, 0, 0, 0)
+        };
+    }
+
+    // Tasks are told apart across files by where their name is declared
+    private itemKey(uri: string, nameRange: Range): string {
+        return `${uri}#${nameRange.start.line}:${nameRange.start.character}`;
+    }
+
+    private getWorkspaceSymbolsOf(uri: string): SymbolInformation[] {
+        const version = this.getDocumentVersion(uri);
+        if (version === undefined) {
+            this.workspaceSymbolIndex.delete(uri);
+            return [];
+        }
+
+        const cached = this.workspaceSymbolIndex.get(uri);
+        if (cached && cached.version === version) {
+            return cached.symbols;
+        }
+
+        const parsed = this.getParsedDocument(uri);
+        if (!parsed) return [];
+        const symbols: SymbolInformation[] = [];
+        const flatten = (entries: DocumentSymbol[], containerName?: string) => {
+            for (const entry of entries) {
+                // Workspace search covers tasks, groups, blueprints and routes
+                if (entry.kind !== SymbolKind.Variable && entry.kind !== SymbolKind.Constant &&
+                    entry.kind !== SymbolKind.Field && entry.kind !== SymbolKind.Module) {
+                    symbols.push(SymbolInformation.create(entry.name, entry.kind, entry.selectionRange, uri, containerName));
                 }
+                flatten(entry.children ?? [], entry.name);
             }
-        }
+        };
+        flatten(this.toDocumentSymbols(parsed.program.body, 'global'));
+        this.workspaceSymbolIndex.set(uri, { version, symbols });
+        return symbols;
     }
 
-    private findScopeAtPosition(scope: Scope, line: number): Scope {
-        for (const child of scope.children) {
-            if (line >= child.startLine && (child.endLine === undefined || line <= child.endLine)) {
-                const found = this.findScopeAtPosition(child, line);
-                if (found) return found;
+    // Fuzzy match: the query's characters appear in order in the name
+    private matchesQuery(name: string, query: string): boolean {
+        let index = 0;
+        for (const ch of name) {
+            if (index < query.length && ch === query[index]) {
+                index++;
             }
         }
-        return scope;
+        return index === query.length;
     }
 
-    private getVisibleSymbols(scope: Scope): FlickSymbol[] {
-        const symbols: Map<string, FlickSymbol> = new Map();
-        let current: Scope | undefined = scope;
-        while (current) {
-            for (const [name, symbol] of current.symbols.entries()) {
-                if (!symbols.has(name)) {
-                    symbols.set(name, symbol);
+    private renameRefusal(symbol: FlickSymbol): string | undefined {
+        if (symbol.npmPackage && symbol.node?.kind !== 'VariableDeclaration') {
+            return `'${symbol.name}' is declared by the npm package '${symbol.npmPackage}' and cannot be renamed.`;
+        }
+        if (!symbol.node || symbol.type === 'plugin') {
+            return `'${symbol.name}' is a built-in plugin member and cannot be renamed.`;
+        }
+        if (symbol.type === 'module') {
+            return `'${symbol.name}' names a module file; rename the file instead.`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Renaming is unsafe when a reference would be captured by another symbol
+     * called `newName`, or when the renamed symbol would capture existing uses of it.
+     */
+    private findRenameConflict(symbol: FlickSymbol, newName: string, bindings: SymbolBinding[], rootScope: Scope): string | undefined {
+        const declaringScope = this.findDeclaringScope(rootScope, symbol);
+        if (!declaringScope) return undefined;
+
+        const existing = declaringScope.symbols.get(newName);
+        if (existing && existing !== symbol) {
+            return `'${newName}' is already declared in this scope.`;
+        }
+
+        for (const binding of bindings) {
+            if (binding.symbol === symbol && !binding.member) {
+                const shadowing = this.lookupSymbol(binding.scope, newName);
+                if (shadowing && shadowing !== symbol && this.isScopeWithin(this.findDeclaringScope(rootScope, shadowing), declaringScope)) {
+                    return `Renaming to '${newName}' would be shadowed by another declaration on line ${shadowing.range.start.line + 1}.`;
+                }
+            }
+            if (binding.identifier.name === newName && binding.symbol && binding.symbol !== symbol &&
+                !binding.declaration && !binding.member && this.isScopeWithin(binding.scope, declaringScope)) {
+                const outer = this.findDeclaringScope(rootScope, binding.symbol);
+                if (outer && !this.isScopeWithin(outer, declaringScope)) {
+                    return `Renaming to '${newName}' would shadow the '${newName}' used on line ${binding.identifier.range.start.line + 1}.`;
                 }
             }
-            current = current.parent;
         }
-        return Array.from(symbols.values());
+        return undefined;
     }
 
-    private getMembersOfSymbol(symbol: FlickSymbol, rootScope: Scope): FlickSymbol[] {
-        if (symbol.type === 'module' && symbol.moduleScope) {
-            return Array.from(symbol.moduleScope.symbols.values());
-        }
-        if (symbol.type === 'object' && symbol.value) {
-            // This is a simplification. We might need a more robust way to handle object members.
-            const members: FlickSymbol[] = [];
-            for (const key in symbol.value) {
-                members.push({ name: key, type: 'property', value: symbol.value[key], line: symbol.line, range: symbol.range });
+    /**
+     * Resolves every identifier in the document to the symbol it refers to,
+     * including declaration sites, type annotations and `do X for Y` headers.
+     */
+    private collectBindings(document: TextDocument, rootScope: Scope): SymbolBinding[] {
+        const { parsed } = this.analyze(document);
+        const bindings: SymbolBinding[] = [];
+
+        const reference = (identifier: Identifier, scope: Scope, symbol = this.lookupSymbol(scope, identifier.name)) => {
+            if (identifier.name) bindings.push({ identifier, symbol, scope, declaration: false });
+        };
+        const declaration = (identifier: Identifier, scope: Scope) => {
+            // Declared symbols share their name's range object, which tells redeclarations apart
+            const symbol = Array.from(scope.symbols.values()).find(s => s.range === identifier.range)
+                ?? scope.symbols.get(identifier.name);
+            if (identifier.name) bindings.push({ identifier, symbol, scope, declaration: true });
+        };
+        const typeReference = (identifier: Identifier | undefined, scope: Scope) => {
+            if (!identifier) return;
+            const symbol = this.lookupSymbol(scope, identifier.name);
+            if (symbol && (symbol.type === 'group' || symbol.type === 'blueprint')) {
+                reference(identifier, scope, symbol);
+            }
+        };
+
+        const visit = (node: AstNode, scope: Scope): void => {
+            const ownScope = this.nodeScopes.get(node) ?? scope;
+            switch (node.kind) {
+                case 'Identifier':
+                    reference(node, scope);
+                    return;
+                case 'MemberExpression': {
+                    visit(node.object, scope);
+                    const symbol = this.resolveExpressionSymbol(node, scope, rootScope);
+                    if (node.property.name) {
+                        bindings.push({ identifier: node.property, symbol, scope, declaration: false, member: true });
+                    }
+                    return;
+                }
+                case 'NamedArgument':
+                case 'Property':
+                    visit(node.value, scope);
+                    return;
+                case 'ImportStatement':
+                    if (node.defaultImport) declaration(node.defaultImport, scope);
+                    node.namedImports.forEach(specifier => declaration(specifier.local, scope));
+                    return;
+                case 'DeclareStatement':
+                    declaration(node.plugin, scope);
+                    return;
+                case 'UseStatement':
+                    declaration(node.name, scope);
+                    return;
+                case 'VariableDeclaration':
+                    typeReference(node.typeAnnotation, scope);
+                    declaration(node.name, scope);
+                    if (node.initializer) visit(node.initializer, scope);
+                    return;
+                case 'TaskDeclaration':
+                    declaration(node.name, scope);
+                    for (const param of node.params) {
+                        typeReference(param.typeAnnotation, scope);
+                        if (node.body) declaration(param.name, ownScope);
+                    }
+                    node.body?.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'GroupDeclaration':
+                case 'BlueprintDeclaration':
+                    declaration(node.name, scope);
+                    node.body.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'DoBlock':
+                    typeReference(node.blueprint, scope);
+                    typeReference(node.group, scope);
+                    node.body.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'Branch':
+                    if (node.condition) visit(node.condition, scope);
+                    if (node.binding) declaration(node.binding, ownScope);
+                    node.body.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'EachStatement':
+                    visit(node.iterable, scope);
+                    declaration(node.variable, ownScope);
+                    node.body.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'MarchStatement':
+                    visit(node.from, scope);
+                    visit(node.to, scope);
+                    declaration(node.variable, ownScope);
+                    node.body.forEach(statement => visit(statement, ownScope));
+                    return;
+                case 'RouteStatement':
+                    if (node.forward) reference(node.forward, scope);
+                    node.body?.forEach(statement => visit(statement, ownScope));
+                    return;
+                default:
+                    forEachChild(node, child => visit(child, ownScope));
             }
-            return members;
+        };
+        visit(parsed.program, rootScope);
+        return bindings;
+    }
+
+    /**
+     * Finds `Module/name` accesses in other Flick files that `use` this document,
+     * for symbols declared at the top level of it.
+     */
+    private async findModuleMemberReferences(
+        document: TextDocument,
+        symbol: FlickSymbol,
+        rootScope: Scope,
+        token: CancellationToken
+    ): Promise<Map<string, Range[]> | undefined> {
+        const results = new Map<string, Range[]>();
+        if (rootScope.symbols.get(symbol.name) !== symbol || !document.uri.startsWith('file:')) {
+            return results;
         }
-        const typeName = symbol.dataType || symbol.varType;
-        if (typeName) {
-            const groupOrBlueprintScope = this.findScopeByName(rootScope, typeName);
-            if (groupOrBlueprintScope) {
-                return Array.from(groupOrBlueprintScope.symbols.values());
+        const documentPath = fileURLToPath(document.uri);
+
+        for (const uri of this.getFlickDocumentUris()) {
+            if (uri === document.uri) continue;
+            await yieldToEventLoop();
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+            const parsed = this.getParsedDocument(uri);
+            if (!parsed) continue;
+
+            const moduleNames = new Set<string>();
+            for (const statement of parsed.program.body) {
+                if (statement.kind === 'UseStatement' &&
+                    this.resolveModulePath(uri, statement.name.name, statement.path?.value) === documentPath) {
+                    moduleNames.add(statement.name.name);
+                }
+            }
+            if (moduleNames.size === 0) continue;
+
+            const ranges: Range[] = [];
+            walk(parsed.program, node => {
+                if (node.kind === 'MemberExpression' && node.object.kind === 'Identifier' &&
+                    moduleNames.has(node.object.name) && node.property.name === symbol.name) {
+                    ranges.push(node.property.range);
+                }
+            });
+            if (ranges.length > 0) {
+                results.set(uri, ranges);
             }
         }
-        return [];
+        return results;
     }
 
-    private findScopeByName(scope: Scope, name: string): Scope | undefined {
-        if ((scope.type === 'group' || scope.type === 'blueprint') && scope.name === name) {
+    private findDeclaringScope(scope: Scope, symbol: FlickSymbol): Scope | undefined {
+        if (Array.from(scope.symbols.values()).includes(symbol) && scope.type !== 'do-block') {
             return scope;
         }
         for (const child of scope.children) {
-            const found = this.findScopeByName(child, name);
-            if (found) {
-                return found;
-            }
+            const found = this.findDeclaringScope(child, symbol);
+            if (found) return found;
         }
         return undefined;
     }
 
-    private validateFileImports(document: TextDocument, lines: string[], diagnostics: Diagnostic[]): void {
-        // Placeholder for import validation logic
+    private isScopeWithin(scope: Scope | undefined, ancestor: Scope): boolean {
+        let current = scope;
+        while (current) {
+            if (current === ancestor) return true;
+            current = current.parent;
+        }
+        return false;
     }
 
-    private validateBlockStructure(lines: string[]): Diagnostic[] {
-        const diagnostics: Diagnostic[] = [];
-        const blockStack: Array<{ type: string; line: number; closer: 'end' | '}'; opener: string }> = [];
+    /**
+     * Open Flick documents plus every `.fk` / `.flick` file under the workspace folders.
+     */
+    private getFlickDocumentUris(): string[] {
+        const uris = new Set(this.documents.all().map(d => d.uri));
+        for (const file of this.findWorkspaceFiles('.fk', '.flick')) {
+            uris.add(pathToFileURL(file).toString());
+        }
+        return Array.from(uris);
+    }
 
-        const openers: Array<{ type: string; regex: RegExp; closer: 'end' | '}' }> = [
-            { type: 'task', regex: /^\s*task\b.*=\>\s*$/, closer: 'end' },
-            { type: 'group', regex: /^\s*group\b.*\{\s*$/, closer: '}' },
-            { type: 'blueprint', regex: /^\s*blueprint\b.*\{\s*$/, closer: '}' },
-            { type: 'loop', regex: /^\s*(each|march)\b.*=\>\s*$/, closer: 'end' },
-            { type: 'assume', regex: /^\s*assume\b.*=\>\s*$/, closer: 'end' },
-            { type: 'select', regex: /^\s*select\b.*=\>\s*$/, closer: 'end' },
-            { type: 'route', regex: /^\s*route\b(?!.*-\>).*=\>\s*$/, closer: 'end' },
-            { type: 'do', regex: /^\s*do\b.*=\>\s*$/, closer: 'end' }
-        ];
+    /**
+     * Parse tree of any Flick file: the cached analysis for open documents,
+     * a parse cached until the next file watcher event for files on disk.
+     */
+    private getParsedDocument(uri: string): ParseResult | undefined {
+        const open = this.documents.get(uri);
+        if (open) {
+            return this.analyze(open).parsed;
+        }
+        const cached = this.diskParses.get(uri);
+        if (cached) {
+            return cached;
+        }
+        const document = this.getDocument(uri);
+        if (!document) return undefined;
+        const parsed = parse(document.getText());
+        this.diskParses.set(uri, parsed);
+        return parsed;
+    }
 
-        for (let i = 0; i < lines.length; i++) {
-            const rawLine = lines[i];
-            let trimmed = rawLine.trim();
-            if (trimmed === '' || trimmed.startsWith('#')) {
-                continue;
-            }
+    // An open document, or a file on disk versioned by its modification time so its cached analysis follows edits
+    private getWorkspaceDocument(uri: string): TextDocument | undefined {
+        const open = this.documents.get(uri);
+        if (open) return open;
+        const version = this.getDocumentVersion(uri);
+        const document = version === undefined ? undefined : this.getDocument(uri);
+        return document && TextDocument.create(uri, 'flick', version!, document.getText());
+    }
 
-            const hashIndex = trimmed.indexOf('#');
-            if (hashIndex !== -1) {
-                trimmed = trimmed.slice(0, hashIndex).trim();
-            }
-            if (trimmed === '') {
-                continue;
-            }
+    // Workspace-wide requests analyze every file on disk; only open documents keep their analysis afterwards
+    private releaseDiskDocument(uri: string): void {
+        if (!this.documents.get(uri)) {
+            this.clearCache(uri);
+        }
+    }
 
-            if (/^\s*end\b/.test(trimmed)) {
-                if (blockStack.length === 0) {
-                    diagnostics.push({
-                        severity: DiagnosticSeverity.Error,
-                        range: { start: { line: i, character: 0 }, end: { line: i, character: rawLine.length } },
-                        message: "Unexpected 'end' keyword.",
-                        source: 'flick'
-                    });
-                } else {
-                    const last = blockStack.pop()!;
-                    if (last.closer !== 'end') {
-                        diagnostics.push({
-                            severity: DiagnosticSeverity.Error,
-                            range: { start: { line: i, character: 0 }, end: { line: i, character: rawLine.length } },
-                            message: `Unexpected 'end'. Expected '${last.closer}' to close '${last.opener}' block opened on line ${last.line + 1}.`,
-                            source: 'flick'
-                        });
-                    }
-                }
-                continue;
-            }
+    private cancelledError(): ResponseError<void> {
+        return new ResponseError(LSPErrorCodes.RequestCancelled, 'Request was cancelled.');
+    }
 
-            if (/^\s*\}\s*$/.test(trimmed)) {
-                if (blockStack.length === 0) {
-                    diagnostics.push({
-                        severity: DiagnosticSeverity.Error,
-                        range: { start: { line: i, character: 0 }, end: { line: i, character: rawLine.length } },
-                        message: "Unexpected '}' keyword.",
-                        source: 'flick'
-                    });
-                } else {
-                    const last = blockStack.pop()!;
-                    if (last.closer !== '}') {
-                        diagnostics.push({
-                            severity: DiagnosticSeverity.Error,
-                            range: { start: { line: i, character: 0 }, end: { line: i, character: rawLine.length } },
-                            message: `Unexpected '}'. Expected '${last.closer}' to close '${last.opener}' block opened on line ${last.line + 1}.`,
-                            source: 'flick'
-                        });
-                    }
-                }
-                continue;
+    private getWordRangeAtPosition(document: TextDocument, position: Position): Range | undefined {
+        const line = document.getText({ start: { line: position.line, character: 0 }, end: { line: position.line + 1, character: 0 } });
+        const wordRegex = /[\w\d_]+/g;
+        let match;
+        while (match = wordRegex.exec(line)) {
+            const start = match.index;
+            const end = start + match[0].length;
+            if (position.character >= start && position.character <= end) {
+                return { start: { line: position.line, character: start }, end: { line: position.line, character: end } };
             }
+        }
+        return undefined;
+    }
 
-            const branchMatch = trimmed.match(/^\s*(maybe|otherwise)\b.*=\>\s*$/);
-            if (branchMatch) {
-                const last = blockStack[blockStack.length - 1];
-                if (!last || (last.type !== 'assume' && last.type !== 'select' && last.type !== 'route')) {
-                    diagnostics.push({
-                        severity: DiagnosticSeverity.Error,
-                        range: { start: { line: i, character: 0 }, end: { line: i, character: rawLine.length } },
-                        message: `'${branchMatch[1]}' without a matching control block.`,
-                        source: 'flick'
-                    });
-                }
-                continue;
+    private findScopeAtPosition(scope: Scope, line: number): Scope {
+        for (const child of scope.children) {
+            if (line >= child.startLine && (child.endLine === undefined || line <= child.endLine)) {
+                const found = this.findScopeAtPosition(child, line);
+                if (found) return found;
             }
+        }
+        return scope;
+    }
 
-            let matched = false;
-            for (const opener of openers) {
-                if (opener.regex.test(trimmed)) {
-                    const openerWord = trimmed.match(/^\s*([a-zA-Z_]+)/)?.[1] ?? opener.type;
-                    blockStack.push({ type: opener.type, line: i, closer: opener.closer, opener: openerWord });
-                    matched = true;
-                    break;
+    private getVisibleSymbols(scope: Scope): FlickSymbol[] {
+        const symbols: Map<string, FlickSymbol> = new Map();
+        let current: Scope | undefined = scope;
+        while (current) {
+            for (const [name, symbol] of current.symbols.entries()) {
+                if (!symbols.has(name)) {
+                    symbols.set(name, symbol);
                 }
             }
-            if (matched) {
-                continue;
-            }
+            current = current.parent;
+        }
+        return Array.from(symbols.values());
+    }
+
+    // Plugin definitions changed: every open document may resolve differently now
+    private reanalyzeAll(): void {
+        this.analyses.clear();
+        this.revalidateAll();
+    }
 
-            if (/=\>\s*$/.test(trimmed)) {
-                blockStack.push({ type: 'lambda', line: i, closer: 'end', opener: 'lambda' });
+    // Settings or lint rules changed: the analyses still hold, only diagnostics are filtered differently
+    private revalidateAll(): void {
+        this.documents.all().forEach(document => this.validateInBackground(document));
+    }
+
+    /**
+     * Re-analyzes open documents that `use` the given file, directly or through
+     * other modules, so member and cycle diagnostics follow its changes.
+     */
+    private revalidateDependents(uri: string, visited: Set<string> = new Set([uri])): void {
+        if (!uri.startsWith('file:')) return;
+        const dependents = this.moduleDependents.get(fileURLToPath(uri));
+        if (!dependents) return;
+
+        for (const dependentUri of Array.from(dependents)) {
+            if (visited.has(dependentUri)) continue;
+            visited.add(dependentUri);
+            // Its cached analysis still links the old version of the module
+            this.analyses.delete(dependentUri);
+            const document = this.documents.get(dependentUri);
+            if (document) {
+                this.validateInBackground(document);
             }
+            this.revalidateDependents(dependentUri, visited);
         }
+    }
 
-        for (const block of blockStack) {
-            diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: { start: { line: block.line, character: 0 }, end: { line: block.line, character: lines[block.line].length } },
-                message: `Unclosed '${block.opener}' block. Expected '${block.closer}'.`,
-                source: 'flick'
-            });
+    private scheduleValidation(uri: string): void {
+        const pending = this.pendingValidations.get(uri);
+        if (pending) {
+            clearTimeout(pending);
         }
+        this.pendingValidations.set(uri, setTimeout(() => {
+            this.pendingValidations.delete(uri);
+            const document = this.documents.get(uri);
+            if (document) {
+                this.validateInBackground(document);
+                this.revalidateDependents(uri);
+            }
+        }, VALIDATION_DELAY_MS));
+    }
 
-        return diagnostics;
+    // Validation triggered by events nobody awaits; a failure is logged instead of rejecting unhandled
+    private validateInBackground(document: TextDocument): void {
+        this.validateTextDocument(document).catch(error => {
+            this.log(`Validating ${document.uri} failed: ${error instanceof Error ? error.stack ?? error.message : String(error)}`);
+        });
     }
 
     async validateTextDocument(textDocument: TextDocument): Promise<void> {
         const settings = await this.getDocumentSettings(textDocument.uri);
-        const text = textDocument.getText();
-        const lines = text.split('\n');
-
-        // Clear previous scopes
-        this.documentScopes.delete(textDocument.uri.toString());
 
-        // Build scope tree
-        const rootScope = this.buildScopeTree(textDocument);
-
-        // Validate imports
-        const diagnostics: Diagnostic[] = [];
-        this.validateFileImports(textDocument, lines, diagnostics);
+        // Drop the result if the document changed in the meantime
+        const latest = this.documents.get(textDocument.uri);
+        if (latest && latest.version !== textDocument.version) {
+            return;
+        }
 
-        // Collect diagnostics from scope analysis
-        const scopeDiagnostics = this.validateDocument(textDocument);
-        diagnostics.push(...scopeDiagnostics);
+        // Collect diagnostics from scope analysis (including imports), filtered by the lint rules
+        const diagnostics = settings.enableDiagnostics
+            ? applyLintRules(this.validateDocument(textDocument), textDocument.getText(), this.getLintRules(textDocument.uri, settings))
+            : [];
 
         // Send diagnostics to client
-        this.connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
+        this.connection.sendDiagnostics({ uri: textDocument.uri, version: textDocument.version, diagnostics });
     }
 
     public clearCache(uri: string): void {
-        this.documentScopes.delete(uri);
-        this.documentPlugins.delete(uri);
+        this.analyses.delete(uri);
+        this.forgetDependent(uri);
     }
 }
-new FlickLanguageServer();
+// Started as the server process by the extension; importing the module doesn't start a server
+if (require.main === module) {
+    new FlickLanguageServer();
+}
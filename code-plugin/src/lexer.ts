@@ -0,0 +1,242 @@
+import { Range } from 'vscode-languageserver-textdocument';
+
+export type TokenType =
+    | 'identifier'
+    | 'keyword'
+    | 'number'
+    | 'string'
+    | 'operator'
+    | 'punctuation'
+    | 'newline'
+    | 'eof'
+    | 'invalid';
+
+export interface Token {
+    type: TokenType;
+    value: string;
+    range: Range;
+    offset: number;
+    end: number;
+}
+
+export interface Comment {
+    text: string;
+    range: Range;
+    offset: number;
+}
+
+export interface LexError {
+    message: string;
+    range: Range;
+}
+
+export interface LexResult {
+    tokens: Token[];
+    comments: Comment[];
+    errors: LexError[];
+}
+
+export const KEYWORDS = new Set([
+    'free', 'lock', 'assume', 'maybe', 'otherwise', 'each', 'in', 'march', 'from', 'to',
+    'select', 'when', 'suppose', 'end', 'group', 'task', 'blueprint', 'do', 'for',
+    'declare', 'use', 'import', 'as', 'route', 'respond', 'print', 'ask', 'with', 'give',
+    'and', 'yes', 'no', 'attempt', 'oopsie'
+]);
+
+// Longest operators first so `:=` wins over `:` and `==` over `=`
+const OPERATORS = [':=', '==', '!=', '<=', '>=', '=>', '->', '=', '<', '>', '+', '-', '*', '/', '%', '!'];
+const PUNCTUATION = new Set(['(', ')', '{', '}', '[', ']', ',', '.', ':', '@', ';']);
+
+export class FlickLexer {
+    private pos = 0;
+    private line = 0;
+    private column = 0;
+    private tokens: Token[] = [];
+    private comments: Comment[] = [];
+    private errors: LexError[] = [];
+
+    constructor(private readonly text: string) {}
+
+    public tokenize(): LexResult {
+        while (this.pos < this.text.length) {
+            const ch = this.text[this.pos];
+
+            if (ch === '\n') {
+                this.pushToken('newline', 1);
+                continue;
+            }
+            if (ch === ' ' || ch === '\t' || ch === '\r') {
+                this.advance(1);
+                continue;
+            }
+            if (ch === '#') {
+                this.scanComment();
+                continue;
+            }
+            if (ch === '"' || ch === '\'') {
+                this.scanString(ch);
+                continue;
+            }
+            if (isDigit(ch)) {
+                this.scanNumber();
+                continue;
+            }
+            if (isIdentifierStart(ch)) {
+                this.scanIdentifier();
+                continue;
+            }
+
+            const operator = OPERATORS.find(op => this.text.startsWith(op, this.pos));
+            if (operator) {
+                this.pushToken('operator', operator.length);
+                continue;
+            }
+            if (PUNCTUATION.has(ch)) {
+                this.pushToken('punctuation', 1);
+                continue;
+            }
+
+            const start = this.position();
+            this.pushToken('invalid', 1);
+            this.errors.push({
+                message: `Unexpected character '${ch}'.`,
+                range: { start, end: this.position() }
+            });
+        }
+
+        const eofPosition = this.position();
+        this.tokens.push({
+            type: 'eof',
+            value: '',
+            range: { start: eofPosition, end: eofPosition },
+            offset: this.pos,
+            end: this.pos
+        });
+
+        return { tokens: this.tokens, comments: this.comments, errors: this.errors };
+    }
+
+    private scanComment(): void {
+        const start = this.position();
+        const offset = this.pos;
+        let length = 0;
+        while (this.pos + length < this.text.length && this.text[this.pos + length] !== '\n') {
+            length++;
+        }
+        const text = this.text.substr(this.pos, length).replace(/\r$/, '');
+        this.advance(length);
+        this.comments.push({ text, range: { start, end: { line: start.line, character: start.character + text.length } }, offset });
+    }
+
+    private scanString(quote: string): void {
+        let length = 1;
+        let terminated = false;
+        while (this.pos + length < this.text.length) {
+            const ch = this.text[this.pos + length];
+            // A backslash at the end of a line escapes nothing; the newline still ends the string
+            const escaped = this.text[this.pos + length + 1];
+            if (ch === '\\' && escaped !== undefined && escaped !== '\n') {
+                length += 2;
+                continue;
+            }
+            if (ch === '\n') {
+                break;
+            }
+            length++;
+            if (ch === quote) {
+                terminated = true;
+                break;
+            }
+        }
+        length = Math.min(length, this.text.length - this.pos);
+        const token = this.pushToken('string', length);
+        if (!terminated) {
+            this.errors.push({ message: 'Unterminated string literal.', range: token.range });
+        }
+    }
+
+    private scanNumber(): void {
+        let length = 0;
+        let seenDot = false;
+        while (this.pos + length < this.text.length) {
+            const ch = this.text[this.pos + length];
+            if (isDigit(ch)) {
+                length++;
+            } else if (ch === '.' && !seenDot && isDigit(this.text[this.pos + length + 1] ?? '')) {
+                seenDot = true;
+                length++;
+            } else {
+                break;
+            }
+        }
+        this.pushToken('number', length);
+    }
+
+    private scanIdentifier(): void {
+        let length = 0;
+        while (this.pos + length < this.text.length && isIdentifierPart(this.text[this.pos + length])) {
+            length++;
+        }
+        const word = this.text.substr(this.pos, length);
+        this.pushToken(KEYWORDS.has(word) ? 'keyword' : 'identifier', length);
+    }
+
+    private pushToken(type: TokenType, length: number): Token {
+        const start = this.position();
+        const offset = this.pos;
+        const value = this.text.substr(this.pos, length);
+        this.advance(length);
+        // Keep newline tokens on their own line so errors reported at them stay there
+        const end = type === 'newline' ? { line: start.line, character: start.character + 1 } : this.position();
+        const token: Token = { type, value, range: { start, end }, offset, end: this.pos };
+        this.tokens.push(token);
+        return token;
+    }
+
+    private advance(count: number): void {
+        for (let i = 0; i < count && this.pos < this.text.length; i++) {
+            if (this.text[this.pos] === '\n') {
+                this.line++;
+                this.column = 0;
+            } else {
+                this.column++;
+            }
+            this.pos++;
+        }
+    }
+
+    private position(): { line: number; character: number } {
+        return { line: this.line, character: this.column };
+    }
+}
+
+export function tokenize(text: string): LexResult {
+    return new FlickLexer(text).tokenize();
+}
+
+/**
+ * Decodes the escape sequences of a quoted string token.
+ */
+export function unquote(raw: string): string {
+    const body = raw.length >= 2 && raw[raw.length - 1] === raw[0] ? raw.slice(1, -1) : raw.slice(1);
+    return body.replace(/\\(.)/g, (_, ch: string) => {
+        switch (ch) {
+            case 'n': return '\n';
+            case 't': return '\t';
+            case 'r': return '\r';
+            default: return ch;
+        }
+    });
+}
+
+function isDigit(ch: string): boolean {
+    return ch >= '0' && ch <= '9';
+}
+
+function isIdentifierStart(ch: string): boolean {
+    return (ch >= 'a' && ch <= 'z') || (ch >= 'A' && ch <= 'Z') || ch === '_';
+}
+
+function isIdentifierPart(ch: string): boolean {
+    return isIdentifierStart(ch) || isDigit(ch);
+}
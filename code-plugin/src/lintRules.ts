@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+
+// Every diagnostic belongs to a lint rule; its `code` is the rule ID. Rules can
+// be given another severity or turned off per project or per line.
+export const DiagnosticCode = {
+    SyntaxError: 'syntax-error',
+    UnclosedBlock: 'unclosed-block',
+    BlockStructure: 'block-structure',
+    UndefinedVariable: 'undefined-variable',
+    RouteOnlyKeyword: 'route-only-keyword',
+    UnknownMember: 'unknown-member',
+    ModuleNotImported: 'module-not-imported',
+    ModuleNotFound: 'module-not-found',
+    CircularUse: 'circular-use',
+    PackageNotFound: 'package-not-found',
+    WebPluginNotDeclared: 'web-plugin-not-declared',
+    UnknownPlugin: 'unknown-plugin',
+    PluginArgument: 'plugin-argument',
+    UnknownNamedArgument: 'unknown-named-argument',
+    UnknownBlueprint: 'unknown-blueprint',
+    UnknownGroup: 'unknown-group',
+    MissingBlueprintTasks: 'missing-blueprint-tasks',
+    ExtraBlueprintTask: 'extra-blueprint-task',
+    BlueprintSignatureMismatch: 'blueprint-signature-mismatch',
+    TypeMismatch: 'type-mismatch',
+    ArgumentType: 'argument-type',
+    NonNumericOperand: 'non-numeric-operand',
+    ArgumentCount: 'argument-count',
+    ImmutableReassignment: 'immutable-reassignment',
+    AssignedBeforeDeclaration: 'assigned-before-declaration',
+    Redeclaration: 'redeclaration',
+    FieldAssignmentOutsideGroup: 'field-assignment-outside-group'
+} as const;
+
+export type RuleSeverity = 'error' | 'warning' | 'info' | 'hint' | 'off';
+
+// Rule ID -> severity, overriding the rule's own
+export type LintRules = Record<string, RuleSeverity>;
+
+// Project files with `{ "rules": { ... } }`, searched from a file's directory upwards
+export const LINT_CONFIG_FILES = ['.flickrc', 'flick.json'];
+
+const RULE_IDS: Set<string> = new Set(Object.values(DiagnosticCode));
+
+const SEVERITIES: Record<Exclude<RuleSeverity, 'off'>, DiagnosticSeverity> = {
+    error: DiagnosticSeverity.Error,
+    warning: DiagnosticSeverity.Warning,
+    info: DiagnosticSeverity.Information,
+    hint: DiagnosticSeverity.Hint
+};
+
+// `# flick-disable-next-line` or `# flick-disable-next-line undefined-variable, unknown-member`
+const DISABLE_NEXT_LINE = /^\s*#\s*flick-disable-next-line\b(.*)$/;
+
+/**
+ * The nearest `.flickrc` or `flick.json` for a file, looking in its directory
+ * and then each parent up to the workspace root that contains it.
+ */
+export function findLintConfig(filePath: string, workspaceRoots: string[]): string | undefined {
+    const root = workspaceRoots.find(candidate => !path.relative(candidate, filePath).startsWith('..'));
+    let directory = path.dirname(filePath);
+    for (;;) {
+        for (const name of LINT_CONFIG_FILES) {
+            const candidate = path.join(directory, name);
+            if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+                return candidate;
+            }
+        }
+        const parent = path.dirname(directory);
+        if (parent === directory || (root && path.resolve(directory) === path.resolve(root))) {
+            return undefined;
+        }
+        directory = parent;
+    }
+}
+
+/** Reads the `rules` of a lint config file; problems are passed to `report`. */
+export function readLintConfig(file: string, report: (message: string) => void): LintRules {
+    let config: unknown;
+    try {
+        config = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        report(`Could not read lint config ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        return {};
+    }
+    const rules = typeof config === 'object' && config !== null ? (config as { rules?: unknown }).rules : undefined;
+    return validateRules(rules, file, report);
+}
+
+/** Keeps the entries of `rules` with a known rule ID and severity. */
+export function validateRules(rules: unknown, source: string, report: (message: string) => void): LintRules {
+    if (rules === undefined || rules === null) return {};
+    if (typeof rules !== 'object' || Array.isArray(rules)) {
+        report(`${source}: 'rules' must be an object of rule IDs and severities`);
+        return {};
+    }
+    const valid: LintRules = {};
+    for (const [rule, severity] of Object.entries(rules)) {
+        if (!RULE_IDS.has(rule)) {
+            report(`${source}: unknown lint rule '${rule}'`);
+        } else if (severity !== 'off' && !(severity in SEVERITIES)) {
+            report(`${source}: '${rule}' must be one of error, warning, info, hint or off`);
+        } else {
+            valid[rule] = severity as RuleSeverity;
+        }
+    }
+    return valid;
+}
+
+/**
+ * Gives each diagnostic its rule's configured severity, and drops those whose
+ * rule is off or disabled by a comment on the line above.
+ */
+export function applyLintRules(diagnostics: Diagnostic[], text: string, rules: LintRules): Diagnostic[] {
+    const lines = text.split(/\r?\n/);
+    const disabledOnLine = (line: number, rule: string) => {
+        const comment = line > 0 ? lines[line - 1].match(DISABLE_NEXT_LINE) : null;
+        if (!comment) return false;
+        const listed = comment[1].split(/[\s,]+/).filter(name => name.length > 0);
+        return listed.length === 0 || listed.includes(rule);
+    };
+
+    const result: Diagnostic[] = [];
+    for (const diagnostic of diagnostics) {
+        const rule = typeof diagnostic.code === 'string' ? diagnostic.code : undefined;
+        if (!rule) {
+            result.push(diagnostic);
+            continue;
+        }
+        const severity = rules[rule];
+        if (severity === 'off' || disabledOnLine(diagnostic.range.start.line, rule)) continue;
+        result.push(severity ? { ...diagnostic, severity: SEVERITIES[severity] } : diagnostic);
+    }
+    return result;
+}
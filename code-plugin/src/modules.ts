@@ -0,0 +1,17 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Where `use` statements find their modules, shared by the analyzer, Run Selection
+// and the route collector so they always agree on the file
+
+/**
+ * Resolves `use X "path"` in `filePath` to a Flick file: the explicit path
+ * relative to the file, or `X.fk` / `X.flick` next to it.
+ */
+export function resolveModuleFile(filePath: string, name: string, modulePath?: string): string | undefined {
+    const baseDir = path.dirname(filePath);
+    const candidates = modulePath
+        ? [modulePath, `${modulePath}.fk`, `${modulePath}.flick`].map(p => path.resolve(baseDir, p))
+        : [`${name}.fk`, `${name}.flick`].map(p => path.join(baseDir, p));
+    return candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+}
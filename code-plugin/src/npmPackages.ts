@@ -0,0 +1,1083 @@
+import * as fs from 'fs';
+import { builtinModules } from 'module';
+import * as path from 'path';
+import { Position, Range } from 'vscode-languageserver-textdocument';
+
+// npm packages imported with `import { name } from 'package'`, read from the
+// TypeScript declarations in node_modules: the package's own `.d.ts` files
+// (`types`/`typings`, `exports` conditions, or next to `main`) or `@types/<name>`
+
+export interface NpmParameter {
+    name: string;
+    // TypeScript type as written, e.g. `string | URL`
+    type: string;
+    optional?: boolean;
+    rest?: boolean;
+}
+
+export interface NpmDeclaration {
+    name: string;
+    kind: 'function' | 'class' | 'interface' | 'variable' | 'type' | 'namespace' | 'enum';
+    // The declaration without `export declare` and its body, e.g. `function createClient(url: string): Client`
+    signature: string;
+    documentation?: string;
+    // Functions and methods
+    params?: NpmParameter[];
+    // Return type of functions and methods, type of variables and properties, target of type aliases
+    type?: string;
+    // Classes, interfaces, object type aliases, namespaces and enums
+    members?: NpmDeclaration[];
+    // Base classes and interfaces
+    extends?: string[];
+    file: string;
+    // Of the name in `file`
+    range: Range;
+}
+
+export interface ResolvedImport {
+    // Package name, or the path for relative imports
+    name: string;
+    // The `.d.ts` file declaring the exports; undefined for packages without type declarations
+    typesFile?: string;
+    // The JavaScript file that is loaded, when known
+    entryFile?: string;
+}
+
+// What a `.d.ts` file declares and exports
+interface DeclarationFile {
+    mtime: number;
+    declarations: Map<string, NpmDeclaration[]>;
+    // Export name -> local name, or the name exported by the module `from` (`*` for the whole module)
+    exports: Map<string, { name: string; from?: string }>;
+    starExports: string[];
+    // Local name -> imported name (`*` for `import * as`) and module
+    imports: Map<string, { name: string; from: string }>;
+    // `export = name`
+    exportAssignment?: string;
+}
+
+// The fields of a package.json used to find a package's files, each with the type it was checked to have
+interface PackageManifest {
+    // Left for `exportsTarget`, which follows its nested conditions
+    exports?: unknown;
+    types?: string;
+    main?: string;
+}
+
+interface DeclarationToken {
+    value: string;
+    kind: 'identifier' | 'string' | 'number' | 'punctuation';
+    offset: number;
+    end: number;
+    newlineBefore: boolean;
+    // The JSDoc comment right before the token
+    doc?: string;
+}
+
+const DECLARATION_EXTENSIONS = ['.d.ts', '.d.mts', '.d.cts'];
+// Conditions of a package's `exports` map, in the order they are tried
+const EXPORT_CONDITIONS = ['types', 'typings', 'import', 'require', 'node', 'default'];
+const STATEMENT_KEYWORDS = new Set([
+    'export', 'declare', 'import', 'function', 'class', 'abstract', 'interface', 'type',
+    'const', 'let', 'var', 'namespace', 'module', 'enum'
+]);
+const MEMBER_MODIFIERS = new Set(['public', 'static', 'readonly', 'abstract', 'declare', 'override', 'accessor', 'async']);
+const BRACKETS = new Map([['(', ')'], ['[', ']'], ['{', '}'], ['<', '>']]);
+// Nested declarations followed when resolving names, bounding cyclic or very deep type graphs
+const MAX_RESOLUTION_DEPTH = 8;
+
+/**
+ * Resolves import specifiers to packages in node_modules and reads what their
+ * type declarations export. Parsed declaration files are cached until they change.
+ */
+export class NpmPackageResolver {
+    private files: Map<string, DeclarationFile> = new Map();
+
+    /**
+     * Resolves `specifier` as imported from a file in `directory`: relative
+     * paths against it, package names through the `node_modules` folders above it.
+     * Undefined when nothing is installed under that name.
+     */
+    public resolve(directory: string, specifier: string): ResolvedImport | undefined {
+        if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+            const target = path.resolve(directory, specifier);
+            const typesFile = findDeclarationFile(target);
+            const entryFile = [target, `${target}.js`, `${target}.mjs`, path.join(target, 'index.js')].find(isFile);
+            return typesFile || entryFile ? { name: specifier, typesFile, entryFile } : undefined;
+        }
+
+        const builtin = specifier.startsWith('node:') ? specifier.slice('node:'.length) : specifier;
+        if (builtinModules.includes(builtin)) {
+            return { name: specifier };
+        }
+
+        const { name, subpath } = splitSpecifier(specifier);
+        // Scoped packages are published to @types as `@types/scope__name`
+        const typesPackage = findPackageDirectory(directory, `@types/${name.startsWith('@') ? name.slice(1).replace('/', '__') : name}`);
+        const typesPackageEntry = typesPackage ? typesEntry(typesPackage, readManifest(typesPackage), subpath) : undefined;
+        const packageDirectory = findPackageDirectory(directory, name);
+        if (!packageDirectory) {
+            return typesPackageEntry ? { name, typesFile: typesPackageEntry } : undefined;
+        }
+        const manifest = readManifest(packageDirectory);
+        return {
+            name,
+            typesFile: typesEntry(packageDirectory, manifest, subpath) ?? typesPackageEntry,
+            entryFile: entryPoint(packageDirectory, manifest, subpath)
+        };
+    }
+
+    /** The declarations exported as `name` (`default` for the default export) by a declaration file. */
+    public findExport(file: string, name: string, depth = 0): NpmDeclaration[] | undefined {
+        const parsed = this.parseFile(file);
+        if (!parsed || depth > MAX_RESOLUTION_DEPTH) return undefined;
+
+        const target = parsed.exports.get(name);
+        if (target) {
+            if (!target.from) return this.findLocal(file, target.name, depth + 1);
+            const module = this.resolveFrom(file, target.from);
+            if (!module) return undefined;
+            return target.name === '*' ? [this.moduleNamespace(module, name, depth + 1)] : this.findExport(module, target.name, depth + 1);
+        }
+        for (const specifier of parsed.starExports) {
+            const module = this.resolveFrom(file, specifier);
+            const found = module && name !== 'default' ? this.findExport(module, name, depth + 1) : undefined;
+            if (found) return found;
+        }
+        // `export = client` with `import { get } from ...` imports members of `client`
+        if (parsed.exportAssignment && name !== 'default') {
+            for (const declaration of this.findLocal(file, parsed.exportAssignment, depth + 1) ?? []) {
+                const member = this.valueMembers(declaration).find(candidate => candidate.name === name);
+                if (member) return [member];
+            }
+        }
+        return undefined;
+    }
+
+    /** Names a declaration file exports, for completing `import { ... }`. */
+    public exportNames(file: string, depth = 0): string[] {
+        const parsed = this.parseFile(file);
+        if (!parsed || depth > MAX_RESOLUTION_DEPTH) return [];
+        const names = new Set(parsed.exports.keys());
+        for (const specifier of parsed.starExports) {
+            const module = this.resolveFrom(file, specifier);
+            if (module) this.exportNames(module, depth + 1).filter(name => name !== 'default').forEach(name => names.add(name));
+        }
+        if (parsed.exportAssignment) {
+            for (const declaration of this.findLocal(file, parsed.exportAssignment) ?? []) {
+                this.valueMembers(declaration).forEach(member => names.add(member.name));
+            }
+        }
+        return Array.from(names).sort();
+    }
+
+    /** Packages in the `node_modules` folders above `directory`, for completing `from '...'`. */
+    public installedPackages(directory: string): string[] {
+        const names = new Set<string>();
+        for (let current = directory; ; current = path.dirname(current)) {
+            const modules = path.join(current, 'node_modules');
+            for (const entry of readDirectory(modules)) {
+                if (entry.startsWith('.') || entry === '@types') continue;
+                if (entry.startsWith('@')) {
+                    readDirectory(path.join(modules, entry)).forEach(scoped => names.add(`${entry}/${scoped}`));
+                } else {
+                    names.add(entry);
+                }
+            }
+            if (path.dirname(current) === current) break;
+        }
+        return Array.from(names).sort();
+    }
+
+    /**
+     * The class, interface, object type, namespace or enum a type such as
+     * `SupabaseClient<Database>` or `Stripe.Customer` names, as seen from `file`.
+     */
+    public findType(file: string, typeName: string, depth = 0): NpmDeclaration | undefined {
+        if (depth > MAX_RESOLUTION_DEPTH) return undefined;
+        const [first, ...rest] = typeName.split('.');
+        let declarations = this.findLocal(file, first, depth + 1);
+        const exportAssignment = this.parseFile(file)?.exportAssignment;
+        if (!declarations && exportAssignment) {
+            // Types inside `declare namespace x { ... } export = x` refer to each other unqualified
+            declarations = this.findLocal(file, exportAssignment, depth + 1)
+                ?.flatMap(declaration => (declaration.members ?? []).filter(member => member.name === first));
+        }
+        for (const part of rest) {
+            declarations = declarations?.flatMap(declaration => this.membersOf(declaration).filter(member => member.name === part));
+        }
+        if (!declarations || declarations.length === 0) return undefined;
+
+        const alias = declarations.find(declaration => declaration.kind === 'type' && !declaration.members);
+        if (alias?.type) {
+            const target = namedType(alias.type);
+            return target ? this.findType(alias.file, target, depth + 1) : undefined;
+        }
+        const withMembers = declarations.filter(declaration => declaration.members);
+        if (withMembers.length === 0) return undefined;
+        // Interfaces and namespaces merge across declarations
+        return withMembers.length === 1 ? withMembers[0] : {
+            ...withMembers[0],
+            members: withMembers.flatMap(declaration => declaration.members!),
+            extends: withMembers.flatMap(declaration => declaration.extends ?? [])
+        };
+    }
+
+    /** Members of a declaration, including those inherited through `extends`. */
+    public membersOf(declaration: NpmDeclaration, depth = 0): NpmDeclaration[] {
+        const members = [...(declaration.members ?? [])];
+        if (depth > MAX_RESOLUTION_DEPTH) return members;
+        const names = new Set(members.map(member => member.name));
+        for (const base of declaration.extends ?? []) {
+            const baseName = namedType(base);
+            const baseType = baseName ? this.findType(declaration.file, baseName) : undefined;
+            for (const member of baseType ? this.membersOf(baseType, depth + 1) : []) {
+                if (!names.has(member.name)) {
+                    names.add(member.name);
+                    members.push(member);
+                }
+            }
+        }
+        return members;
+    }
+
+    // Members of a namespace or class, or of the type of a variable such as `declare const axios: AxiosStatic`
+    private valueMembers(declaration: NpmDeclaration): NpmDeclaration[] {
+        if (declaration.members) return this.membersOf(declaration);
+        const typeName = declaration.kind === 'variable' && declaration.type ? namedType(declaration.type) : undefined;
+        const type = typeName ? this.findType(declaration.file, typeName) : undefined;
+        return type ? this.membersOf(type) : [];
+    }
+
+    // Declarations of a name in a file: its own, or those it imports
+    private findLocal(file: string, name: string, depth = 0): NpmDeclaration[] | undefined {
+        const parsed = this.parseFile(file);
+        if (!parsed || depth > MAX_RESOLUTION_DEPTH) return undefined;
+        const declarations = parsed.declarations.get(name);
+        if (declarations) return declarations;
+        const imported = parsed.imports.get(name);
+        const module = imported && this.resolveFrom(file, imported.from);
+        if (!imported || !module) return undefined;
+        return imported.name === '*' ? [this.moduleNamespace(module, name, depth + 1)] : this.findExport(module, imported.name, depth + 1);
+    }
+
+    // `import * as name` of a module: a namespace with its exports as members
+    private moduleNamespace(file: string, name: string, depth: number): NpmDeclaration {
+        const members = this.exportNames(file, depth).flatMap(exportName =>
+            (this.findExport(file, exportName, depth) ?? []).slice(0, 1).map(declaration => ({ ...declaration, name: exportName })));
+        return { name, kind: 'namespace', signature: `namespace ${name}`, members, file, range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } } };
+    }
+
+    private resolveFrom(file: string, specifier: string): string | undefined {
+        return this.resolve(path.dirname(file), specifier)?.typesFile;
+    }
+
+    private parseFile(file: string): DeclarationFile | undefined {
+        let mtime: number;
+        try {
+            mtime = fs.statSync(file).mtimeMs;
+        } catch {
+            this.files.delete(file);
+            return undefined;
+        }
+        const cached = this.files.get(file);
+        if (cached && cached.mtime === mtime) return cached;
+        const parsed = new DeclarationParser(file, fs.readFileSync(file, 'utf8')).parse(mtime);
+        this.files.set(file, parsed);
+        return parsed;
+    }
+}
+
+/**
+ * The type name to look members up on, from a type as written: `Promise<T>`
+ * gives `T` (Flick waits for promises), `T | null` gives `T`, and generic
+ * arguments are dropped. Undefined for function, object and literal types.
+ */
+export function namedType(type: string): string | undefined {
+    const unwrapped = nonNullableType(type.trim().replace(/^readonly\s+/, ''));
+    const promise = unwrapped.match(/^Promise\s*<(.*)>$/s);
+    if (promise) return namedType(promise[1]);
+    const name = unwrapped.match(/^([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*(<.*>)?$/s);
+    return name ? name[1] : undefined;
+}
+
+/** The Flick type of a TypeScript type, for primitives: `string` is `literal`, `number` is `num`. */
+export function flickType(type: string): string | undefined {
+    const unwrapped = nonNullableType(type.trim());
+    const promise = unwrapped.match(/^Promise\s*<(.*)>$/s);
+    if (promise) return flickType(promise[1]);
+    switch (unwrapped) {
+        case 'string': return 'literal';
+        case 'number': return 'num';
+        case 'boolean': return 'bool';
+    }
+    return /\[\]$|^(Readonly)?Array\s*</.test(unwrapped) ? 'list' : undefined;
+}
+
+// `T | null | undefined` -> `T`; other unions are left as they are
+function nonNullableType(type: string): string {
+    const parts = splitTopLevel(type, '|').map(part => part.trim()).filter(part => part.length > 0);
+    const rest = parts.filter(part => part !== 'null' && part !== 'undefined' && part !== 'void');
+    return rest.length === 1 ? rest[0] : type.trim();
+}
+
+function splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if ('(<[{'.includes(ch)) depth++;
+        else if (')>]}'.includes(ch) && text[i - 1] !== '=') depth--;
+        else if (ch === separator && depth === 0) {
+            parts.push(text.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(text.slice(start));
+    return parts;
+}
+
+// `@scope/name/sub/path` -> `@scope/name` and `./sub/path`
+function splitSpecifier(specifier: string): { name: string; subpath: string } {
+    const parts = specifier.split('/');
+    const length = specifier.startsWith('@') ? 2 : 1;
+    const rest = parts.slice(length).join('/');
+    return { name: parts.slice(0, length).join('/'), subpath: rest ? `./${rest}` : '.' };
+}
+
+// The installed package in the nearest `node_modules` folder above `directory`
+function findPackageDirectory(directory: string, name: string): string | undefined {
+    for (let current = directory; ; current = path.dirname(current)) {
+        const candidate = path.join(current, 'node_modules', name);
+        if (isFile(path.join(candidate, 'package.json'))) return candidate;
+        if (path.dirname(current) === current) return undefined;
+    }
+}
+
+function isFile(file: string): boolean {
+    try {
+        return fs.statSync(file).isFile();
+    } catch {
+        return false;
+    }
+}
+
+function readDirectory(directory: string): string[] {
+    try {
+        return fs.readdirSync(directory);
+    } catch {
+        return [];
+    }
+}
+
+// A missing or malformed package.json, or a field of the wrong type, counts as absent
+function readManifest(packageDirectory: string): PackageManifest {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(path.join(packageDirectory, 'package.json'), 'utf8'));
+    } catch {
+        return {};
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return {};
+    const manifest = parsed as Record<string, unknown>;
+    const field = (name: string) => typeof manifest[name] === 'string' ? manifest[name] : undefined;
+    return { exports: manifest.exports, types: field('types') ?? field('typings'), main: field('main') };
+}
+
+// The declaration file for a JavaScript or declaration path, with or without extension
+function findDeclarationFile(target: string): string | undefined {
+    if (DECLARATION_EXTENSIONS.some(extension => target.endsWith(extension))) {
+        return isFile(target) ? target : undefined;
+    }
+    const withoutScript = target.replace(/\.([mc]?)[jt]sx?$/, '');
+    const candidates = [
+        `${withoutScript}.d.ts`,
+        `${withoutScript}.d.mts`,
+        `${withoutScript}.d.cts`,
+        path.join(target, 'index.d.ts')
+    ];
+    return candidates.find(isFile);
+}
+
+function typesEntry(packageDirectory: string, manifest: PackageManifest, subpath: string): string | undefined {
+    const exported = exportsTarget(manifest.exports, subpath, EXPORT_CONDITIONS);
+    if (exported) {
+        const file = findDeclarationFile(path.join(packageDirectory, exported));
+        if (file) return file;
+    }
+    if (subpath !== '.') {
+        return findDeclarationFile(path.join(packageDirectory, subpath));
+    }
+    const candidates = [manifest.types, manifest.main, 'index'];
+    for (const candidate of candidates) {
+        const file = candidate && findDeclarationFile(path.join(packageDirectory, candidate));
+        if (file) return file;
+    }
+    return undefined;
+}
+
+function entryPoint(packageDirectory: string, manifest: PackageManifest, subpath: string): string | undefined {
+    const exported = exportsTarget(manifest.exports, subpath, ['require', 'import', 'node', 'default']);
+    const main = subpath === '.' ? manifest.main ?? 'index.js' : subpath;
+    const target = path.join(packageDirectory, exported ?? main);
+    return [target, `${target}.js`, path.join(target, 'index.js')].find(isFile);
+}
+
+// The file `exports` maps a subpath to, taking the first of `conditions` that is present
+function exportsTarget(exports: unknown, subpath: string, conditions: string[]): string | undefined {
+    if (exports === undefined || exports === null) return undefined;
+    if (typeof exports === 'string' || Array.isArray(exports)) {
+        return subpath === '.' ? pickCondition(exports, conditions) : undefined;
+    }
+    if (typeof exports !== 'object') return undefined;
+    const keys = Object.keys(exports);
+    // Without subpath keys the object is the conditions for `.`
+    if (!keys.some(key => key.startsWith('.'))) {
+        return subpath === '.' ? pickCondition(exports, conditions) : undefined;
+    }
+    const map = exports as Record<string, unknown>;
+    if (subpath in map) return pickCondition(map[subpath], conditions);
+    for (const key of keys) {
+        const star = key.indexOf('*');
+        if (star < 0) continue;
+        const prefix = key.slice(0, star);
+        const suffix = key.slice(star + 1);
+        if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= key.length - 1) {
+            const match = subpath.slice(prefix.length, subpath.length - suffix.length);
+            return pickCondition(map[key], conditions)?.replace(/\*/g, match);
+        }
+    }
+    return undefined;
+}
+
+function pickCondition(target: unknown, conditions: string[]): string | undefined {
+    if (typeof target === 'string') return target;
+    if (Array.isArray(target)) {
+        for (const candidate of target) {
+            const picked = pickCondition(candidate, conditions);
+            if (picked) return picked;
+        }
+        return undefined;
+    }
+    if (typeof target !== 'object' || target === null) return undefined;
+    for (const condition of conditions) {
+        const picked = condition in target ? pickCondition((target as Record<string, unknown>)[condition], conditions) : undefined;
+        if (picked) return picked;
+    }
+    return undefined;
+}
+
+/**
+ * Reads the declarations of a `.d.ts` file that matter for completion and
+ * hover: functions, variables, classes, interfaces, type aliases, namespaces
+ * and enums with their members, plus the file's imports and exports. Anything
+ * else, such as overload details or conditional types, is kept as text.
+ */
+class DeclarationParser {
+    private tokens: DeclarationToken[];
+    private index = 0;
+    private lineStarts: number[] = [0];
+
+    constructor(private readonly file: string, private readonly text: string) {
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '\n') this.lineStarts.push(i + 1);
+        }
+        this.tokens = tokenizeDeclarations(text);
+    }
+
+    public parse(mtime: number): DeclarationFile {
+        const result: DeclarationFile = { mtime, declarations: new Map(), exports: new Map(), starExports: [], imports: new Map() };
+        this.parseStatements(result, false);
+        return result;
+    }
+
+    // Statements until the closing `}` of a namespace body, or the end of the file
+    private parseStatements(result: DeclarationFile, inNamespace: boolean): void {
+        while (!this.atEnd() && !(inNamespace && this.peek().value === '}')) {
+            const start = this.index;
+            this.parseStatement(result, inNamespace);
+            if (this.index === start) this.index++;
+        }
+    }
+
+    private parseStatement(result: DeclarationFile, inNamespace: boolean): void {
+        const token = this.peek();
+        if (token.value === 'import') {
+            this.parseImport(result);
+            return;
+        }
+        if (token.value === 'export') {
+            this.index++;
+            this.parseExport(result);
+            return;
+        }
+        if (token.value === 'declare' && this.peek(1).value === 'global') {
+            this.index += 2;
+            this.skipBlock();
+            return;
+        }
+        if (token.value === 'declare' && this.peek(1).value === 'module' && this.peek(2).kind === 'string') {
+            // Ambient modules describe other module names
+            this.index += 3;
+            this.skipBlock();
+            return;
+        }
+        const declarations = this.parseDeclaration();
+        if (declarations) {
+            declarations.forEach(declaration => this.addDeclaration(result, declaration));
+            // Everything in a namespace body is reachable through the namespace
+            if (inNamespace) declarations.forEach(declaration => result.exports.set(declaration.name, { name: declaration.name }));
+            return;
+        }
+        this.skipStatement();
+    }
+
+    private parseImport(result: DeclarationFile): void {
+        this.index++;
+        if (this.peek().value === 'type' && this.peek(1).value !== 'from' && this.peek(1).value !== ',') this.index++;
+        const bindings: Array<{ local: string; name: string }> = [];
+        // `import x = require('module')`
+        if (this.peek().kind === 'identifier' && this.peek(1).value === '=') {
+            const local = this.advance().value;
+            this.index++;
+            if (this.peek().value === 'require' && this.peek(1).value === '(' && this.peek(2).kind === 'string') {
+                result.imports.set(local, { name: 'default', from: unquoteDeclaration(this.peek(2).value) });
+            }
+            this.skipStatement();
+            return;
+        }
+        while (!this.atEnd() && this.peek().value !== 'from' && this.peek().kind !== 'string' && this.peek().value !== ';') {
+            const token = this.advance();
+            if (token.value === '*' && this.peek().value === 'as') {
+                this.index++;
+                bindings.push({ local: this.advance().value, name: '*' });
+            } else if (token.value === '{') {
+                bindings.push(...this.parseNameList().map(({ name, alias }) => ({ local: alias, name })));
+            } else if (token.kind === 'identifier') {
+                bindings.push({ local: token.value, name: 'default' });
+            }
+        }
+        if (this.peek().value === 'from') this.index++;
+        if (this.peek().kind === 'string') {
+            const from = unquoteDeclaration(this.advance().value);
+            bindings.forEach(({ local, name }) => result.imports.set(local, { name, from }));
+        }
+        this.skipStatement();
+    }
+
+    private parseExport(result: DeclarationFile): void {
+        const token = this.peek();
+        if (token.value === '=') {
+            this.index++;
+            if (this.peek().kind === 'identifier') {
+                result.exportAssignment = this.peek().value;
+                result.exports.set('default', { name: this.peek().value });
+            }
+            this.skipStatement();
+            return;
+        }
+        if (token.value === 'as' && this.peek(1).value === 'namespace') {
+            this.skipStatement();
+            return;
+        }
+        if (token.value === 'default') {
+            this.index++;
+            const declarations = this.parseDeclaration();
+            if (declarations) {
+                declarations.forEach(declaration => {
+                    this.addDeclaration(result, declaration);
+                    result.exports.set('default', { name: declaration.name });
+                });
+            } else if (this.peek().kind === 'identifier' && !STATEMENT_KEYWORDS.has(this.peek().value)) {
+                result.exports.set('default', { name: this.peek().value });
+                this.skipStatement();
+            } else {
+                this.skipStatement();
+            }
+            return;
+        }
+        if (token.value === 'type' && this.peek(1).value === '{') this.index++;
+        if (this.peek().value === '*') {
+            this.index++;
+            let alias: string | undefined;
+            if (this.peek().value === 'as') {
+                this.index++;
+                alias = this.advance().value;
+            }
+            if (this.peek().value === 'from' && this.peek(1).kind === 'string') {
+                const from = unquoteDeclaration(this.peek(1).value);
+                if (alias) result.exports.set(alias, { name: '*', from });
+                else result.starExports.push(from);
+            }
+            this.skipStatement();
+            return;
+        }
+        if (this.peek().value === '{') {
+            this.index++;
+            const names = this.parseNameList();
+            const from = this.peek().value === 'from' && this.peek(1).kind === 'string' ? unquoteDeclaration(this.peek(1).value) : undefined;
+            names.forEach(({ name, alias }) => result.exports.set(alias, { name, from }));
+            this.skipStatement();
+            return;
+        }
+        const declarations = this.parseDeclaration();
+        if (declarations) {
+            declarations.forEach(declaration => {
+                this.addDeclaration(result, declaration);
+                result.exports.set(declaration.name, { name: declaration.name });
+            });
+            return;
+        }
+        this.skipStatement();
+    }
+
+    // `a, b as c, type d }` after the opening brace
+    private parseNameList(): Array<{ name: string; alias: string }> {
+        const names: Array<{ name: string; alias: string }> = [];
+        while (!this.atEnd() && this.peek().value !== '}') {
+            if (this.peek().value === 'type' && this.peek(1).kind === 'identifier' && this.peek(1).value !== 'as') this.index++;
+            const name = this.advance();
+            if (name.kind !== 'identifier' && name.kind !== 'string') continue;
+            let alias = unquoteDeclaration(name.value);
+            if (this.peek().value === 'as') {
+                this.index++;
+                alias = unquoteDeclaration(this.advance().value);
+            }
+            names.push({ name: unquoteDeclaration(name.value), alias });
+            if (this.peek().value === ',') this.index++;
+        }
+        this.index++;
+        return names;
+    }
+
+    private addDeclaration(result: DeclarationFile, declaration: NpmDeclaration): void {
+        const existing = result.declarations.get(declaration.name);
+        if (existing) existing.push(declaration);
+        else result.declarations.set(declaration.name, [declaration]);
+    }
+
+    /** A declaration starting at the current token, after `export`; undefined for anything else. */
+    private parseDeclaration(): NpmDeclaration[] | undefined {
+        const start = this.index;
+        // JSDoc comments come before `export` and `export default`
+        let docIndex = this.index;
+        while (docIndex > 0 && !this.tokens[docIndex].doc && ['export', 'default'].includes(this.tokens[docIndex - 1].value)) docIndex--;
+        const doc = this.tokens[docIndex].doc;
+        if (this.peek().value === 'declare') this.index++;
+        if (this.peek().value === 'abstract' && this.peek(1).value === 'class') this.index++;
+        if (this.peek().value === 'const' && this.peek(1).value === 'enum') this.index++;
+        if (this.peek().value === 'async' && this.peek(1).value === 'function') this.index++;
+        const keyword = this.peek();
+        const signatureStart = keyword.offset;
+        let declarations: NpmDeclaration[] | undefined;
+        switch (keyword.value) {
+            case 'function': {
+                this.index++;
+                const name = this.peek();
+                if (name.kind !== 'identifier') break;
+                this.index++;
+                this.skipTypeParameters();
+                const params = this.parseParameters();
+                const type = this.peek().value === ':' ? (this.index++, this.readType()) : undefined;
+                declarations = [{ name: name.value, kind: 'function', signature: this.signature(signatureStart), params, type, file: this.file, range: this.rangeOf(name) }];
+                this.skipStatement();
+                break;
+            }
+            case 'const':
+            case 'let':
+            case 'var': {
+                this.index++;
+                declarations = [];
+                while (this.peek().kind === 'identifier') {
+                    const name = this.advance();
+                    const type = this.peek().value === ':' ? (this.index++, this.readType()) : undefined;
+                    const signature = `${keyword.value} ${name.value}${type ? `: ${type}` : ''}`;
+                    declarations.push({ name: name.value, kind: 'variable', signature, type, file: this.file, range: this.rangeOf(name) });
+                    if (this.peek().value === '=') {
+                        this.index++;
+                        this.readType();
+                    }
+                    if (this.peek().value !== ',') break;
+                    this.index++;
+                }
+                this.skipStatement();
+                break;
+            }
+            case 'class':
+            case 'interface': {
+                this.index++;
+                const name = this.peek();
+                if (name.kind !== 'identifier') break;
+                this.index++;
+                this.skipTypeParameters();
+                const bases: string[] = [];
+                while (!this.atEnd() && this.peek().value !== '{') {
+                    const clause = this.peek().value;
+                    if (clause === 'extends' || (clause === ',' && keyword.value === 'interface' && bases.length > 0)) {
+                        this.index++;
+                        bases.push(this.readType(new Set([',', '{', 'implements'])));
+                    } else {
+                        this.skipBalanced();
+                    }
+                }
+                const signature = this.signature(signatureStart);
+                const members = this.parseMembers();
+                declarations = [{ name: name.value, kind: keyword.value, signature, members, extends: bases, file: this.file, range: this.rangeOf(name) }];
+                break;
+            }
+            case 'type': {
+                this.index++;
+                const name = this.peek();
+                if (name.kind !== 'identifier' || this.peek(1).value === 'from') break;
+                this.index++;
+                this.skipTypeParameters();
+                if (this.peek().value !== '=') break;
+                this.index++;
+                const signature = this.signature(signatureStart);
+                if (this.peek().value === '{') {
+                    const members = this.parseMembers();
+                    declarations = [{ name: name.value, kind: 'type', signature, members, file: this.file, range: this.rangeOf(name) }];
+                } else {
+                    const type = this.readType();
+                    declarations = [{ name: name.value, kind: 'type', signature: `${signature} ${type}`, type, file: this.file, range: this.rangeOf(name) }];
+                }
+                this.skipStatement();
+                break;
+            }
+            case 'namespace':
+            case 'module': {
+                this.index++;
+                const name = this.peek();
+                if (name.kind !== 'identifier') break;
+                // `namespace A.B.C {` declares A with B inside; only the outermost name is kept
+                while (!this.atEnd() && this.peek().value !== '{') this.index++;
+                const signature = `namespace ${name.value}`;
+                this.index++;
+                const body: DeclarationFile = { mtime: 0, declarations: new Map(), exports: new Map(), starExports: [], imports: new Map() };
+                this.parseStatements(body, true);
+                this.index++;
+                const members = Array.from(body.exports.entries()).flatMap(([exportName, target]) =>
+                    (body.declarations.get(target.name) ?? []).map(declaration => ({ ...declaration, name: exportName })));
+                declarations = [{ name: name.value, kind: 'namespace', signature, members, file: this.file, range: this.rangeOf(name) }];
+                break;
+            }
+            case 'enum': {
+                this.index++;
+                const name = this.peek();
+                if (name.kind !== 'identifier') break;
+                this.index++;
+                const signature = this.signature(signatureStart);
+                const members: NpmDeclaration[] = [];
+                if (this.peek().value === '{') {
+                    this.index++;
+                    while (!this.atEnd() && this.peek().value !== '}') {
+                        const member = this.advance();
+                        if (member.kind === 'identifier' || member.kind === 'string') {
+                            const memberName = unquoteDeclaration(member.value);
+                            members.push({ name: memberName, kind: 'variable', signature: `${name.value}.${memberName}`, documentation: member.doc, file: this.file, range: this.rangeOf(member) });
+                        }
+                        // Skip the initializer up to the next member
+                        while (!this.atEnd() && this.peek().value !== ',' && this.peek().value !== '}') this.skipBalanced();
+                        if (this.peek().value === ',') this.index++;
+                    }
+                    this.index++;
+                }
+                declarations = [{ name: name.value, kind: 'enum', signature, members, file: this.file, range: this.rangeOf(name) }];
+                break;
+            }
+        }
+        if (!declarations) {
+            this.index = start;
+            return undefined;
+        }
+        return declarations.map(declaration => ({ ...declaration, documentation: declaration.documentation ?? doc ?? keyword.doc }));
+    }
+
+    // The members of a class, interface or object type body, starting at its `{`
+    private parseMembers(): NpmDeclaration[] {
+        const members: NpmDeclaration[] = [];
+        if (this.peek().value !== '{') return members;
+        this.index++;
+        while (!this.atEnd() && this.peek().value !== '}') {
+            const start = this.index;
+            const member = this.parseMember();
+            if (member) members.push(member);
+            if (this.index === start) this.index++;
+        }
+        this.index++;
+        return members;
+    }
+
+    private parseMember(): NpmDeclaration | undefined {
+        const doc = this.peek().doc;
+        let hidden = false;
+        let accessor: string | undefined;
+        for (;;) {
+            const value = this.peek().value;
+            const next = this.peek(1).value;
+            // A modifier is followed by the member name, not by `(`, `:` or `?`
+            const isModifier = next !== '(' && next !== ':' && next !== '?' && next !== ';' && next !== '<';
+            if ((value === 'private' || value === 'protected') && isModifier) {
+                hidden = true;
+            } else if ((value === 'get' || value === 'set') && isModifier) {
+                accessor = value;
+            } else if (!(MEMBER_MODIFIERS.has(value) && isModifier)) {
+                break;
+            }
+            this.index++;
+        }
+
+        const name = this.peek();
+        if (name.value === ';' || name.value === ',') {
+            this.index++;
+            return undefined;
+        }
+        // Index, call and construct signatures, and constructors, have no name to complete
+        if (name.value === '[' || name.value === '(' || name.value === '<' || name.value === 'new' || name.value === 'constructor' ||
+            (name.kind !== 'identifier' && name.kind !== 'string')) {
+            this.skipMember();
+            return undefined;
+        }
+        const memberName = unquoteDeclaration(name.value);
+        const signatureStart = name.offset;
+        this.index++;
+        if (this.peek().value === '?') this.index++;
+
+        let member: NpmDeclaration | undefined;
+        if (this.peek().value === '(' || this.peek().value === '<') {
+            this.skipTypeParameters();
+            const params = this.parseParameters();
+            const type = this.peek().value === ':' ? (this.index++, this.readType(new Set([';', ',', '}']))) : undefined;
+            member = accessor === 'get'
+                ? { name: memberName, kind: 'variable', signature: `${memberName}: ${type ?? 'any'}`, type, file: this.file, range: this.rangeOf(name) }
+                : { name: memberName, kind: 'function', signature: this.signature(signatureStart), params, type, file: this.file, range: this.rangeOf(name) };
+        } else if (this.peek().value === ':') {
+            this.index++;
+            const typeStart = this.index;
+            const type = this.readType(new Set([';', ',', '}']));
+            // `onChange: (value: string) => void` is called like a method
+            const functionType = this.functionType(typeStart);
+            member = functionType
+                ? { name: memberName, kind: 'function', signature: this.signature(signatureStart), params: functionType.params, type: functionType.returns, file: this.file, range: this.rangeOf(name) }
+                : { name: memberName, kind: 'variable', signature: this.signature(signatureStart), type, file: this.file, range: this.rangeOf(name) };
+        } else {
+            member = { name: memberName, kind: 'variable', signature: memberName, file: this.file, range: this.rangeOf(name) };
+        }
+        this.skipMember();
+        return hidden || accessor === 'set' ? undefined : { ...member, documentation: doc };
+    }
+
+    // The parameters and return type of a function type starting at `index`
+    private functionType(index: number): { params: NpmParameter[]; returns: string } | undefined {
+        const resume = this.index;
+        this.index = index;
+        let result: { params: NpmParameter[]; returns: string } | undefined;
+        if (this.peek().value === '(') {
+            const params = this.parseParameters();
+            if (this.peek().value === '=>') {
+                this.index++;
+                result = { params, returns: this.readType(new Set([';', ',', '}'])) };
+            }
+        }
+        this.index = resume;
+        return result;
+    }
+
+    // `(a: string, b?: number, ...rest: any[])`, leaving the index after `)`
+    private parseParameters(): NpmParameter[] {
+        const params: NpmParameter[] = [];
+        if (this.peek().value !== '(') return params;
+        this.index++;
+        while (!this.atEnd() && this.peek().value !== ')') {
+            while (['public', 'private', 'protected', 'readonly'].includes(this.peek().value) && this.peek(1).value !== ':') this.index++;
+            const rest = this.peek().value === '...';
+            if (rest) this.index++;
+            const nameToken = this.peek();
+            let name = nameToken.value;
+            if (nameToken.value === '{' || nameToken.value === '[') {
+                // Destructured parameters are named after their type
+                this.skipBalanced();
+                name = 'options';
+            } else {
+                this.index++;
+            }
+            const optional = this.peek().value === '?';
+            if (optional) this.index++;
+            const type = this.peek().value === ':' ? (this.index++, this.readType(new Set([',', ')', '=']))) : 'any';
+            if (this.peek().value === '=') {
+                this.index++;
+                this.readType(new Set([',', ')']));
+            }
+            if (name !== 'this') params.push({ name, type, optional: optional || undefined, rest: rest || undefined });
+            if (this.peek().value === ',') this.index++;
+            else if (this.peek().value !== ')') this.skipBalanced();
+        }
+        this.index++;
+        return params;
+    }
+
+    /**
+     * The source text of a type up to one of `stops` outside brackets, or to
+     * a new statement. Whitespace is collapsed.
+     */
+    private readType(stops: Set<string> = new Set([';', ',', ')', '}', '='])): string {
+        const start = this.index;
+        while (!this.atEnd()) {
+            const token = this.peek();
+            if (stops.has(token.value) || token.value === '}' || token.value === ')' || token.value === ']') break;
+            if (this.index > start && token.newlineBefore && STATEMENT_KEYWORDS.has(token.value) && this.peek(1).kind === 'identifier') break;
+            this.skipBalanced();
+        }
+        if (this.index === start) return '';
+        return this.text.slice(this.tokens[start].offset, this.tokens[this.index - 1].end).replace(/\s+/g, ' ').trim();
+    }
+
+    // One token, or a whole bracketed group when it opens one
+    private skipBalanced(): void {
+        const open = this.advance();
+        const close = BRACKETS.get(open.value);
+        if (!close) return;
+        let depth = 1;
+        while (!this.atEnd() && depth > 0) {
+            const token = this.advance();
+            if (token.value === open.value) depth++;
+            else if (token.value === close) depth--;
+            // `=>` is one token, so any other `>` closes a generic
+        }
+    }
+
+    private skipTypeParameters(): void {
+        if (this.peek().value === '<') this.skipBalanced();
+    }
+
+    private skipBlock(): void {
+        while (!this.atEnd() && this.peek().value !== '{' && this.peek().value !== ';') this.index++;
+        if (this.peek().value === '{') this.skipBalanced();
+        else this.index++;
+    }
+
+    // To the `;` ending a statement, or before a `}` that closes the enclosing body
+    private skipStatement(): void {
+        const start = this.index;
+        while (!this.atEnd()) {
+            const token = this.peek();
+            if (token.value === ';') {
+                this.index++;
+                return;
+            }
+            if (token.value === '}' || token.value === ')') return;
+            if (this.index > start && token.newlineBefore && STATEMENT_KEYWORDS.has(token.value)) return;
+            this.skipBalanced();
+        }
+    }
+
+    private skipMember(): void {
+        while (!this.atEnd()) {
+            const token = this.peek();
+            if (token.value === ';' || token.value === ',') {
+                this.index++;
+                return;
+            }
+            if (token.value === '}') return;
+            this.skipBalanced();
+        }
+    }
+
+    // Source from `offset` to the end of the last token read, whitespace collapsed
+    private signature(offset: number): string {
+        const end = this.index > 0 ? this.tokens[this.index - 1].end : offset;
+        return this.text.slice(offset, end).replace(/\s+/g, ' ').replace(/\s*[{=]$/, '').trim();
+    }
+
+    private rangeOf(token: DeclarationToken): Range {
+        return { start: this.positionAt(token.offset), end: this.positionAt(token.end) };
+    }
+
+    private positionAt(offset: number): Position {
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (this.lineStarts[middle] <= offset) low = middle;
+            else high = middle - 1;
+        }
+        return { line: low, character: offset - this.lineStarts[low] };
+    }
+
+    private peek(ahead = 0): DeclarationToken {
+        return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+    }
+
+    private advance(): DeclarationToken {
+        const token = this.peek();
+        if (this.index < this.tokens.length - 1) this.index++;
+        else this.index = this.tokens.length;
+        return token;
+    }
+
+    private atEnd(): boolean {
+        return this.index >= this.tokens.length - 1;
+    }
+}
+
+// Tokens of TypeScript declarations; comments are dropped except JSDoc, which is attached to the next token
+function tokenizeDeclarations(text: string): DeclarationToken[] {
+    const tokens: DeclarationToken[] = [];
+    let doc: string | undefined;
+    let newlineBefore = true;
+    let i = 0;
+    const push = (kind: DeclarationToken['kind'], start: number, end: number) => {
+        tokens.push({ value: text.slice(start, end), kind, offset: start, end, newlineBefore, doc });
+        doc = undefined;
+        newlineBefore = false;
+    };
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '\n') {
+            newlineBefore = true;
+            i++;
+        } else if (/\s/.test(ch)) {
+            i++;
+        } else if (text.startsWith('//', i)) {
+            while (i < text.length && text[i] !== '\n') i++;
+        } else if (text.startsWith('/*', i)) {
+            const end = text.indexOf('*/', i + 2);
+            const close = end < 0 ? text.length : end + 2;
+            if (text.startsWith('/**', i) && close - i > 4) doc = cleanDocComment(text.slice(i + 3, close - 2));
+            i = close;
+        } else if (ch === '"' || ch === '\'' || ch === '`') {
+            const start = i++;
+            while (i < text.length && text[i] !== ch) i += text[i] === '\\' ? 2 : 1;
+            push('string', start, ++i);
+        } else if (/[A-Za-z_$]/.test(ch)) {
+            const start = i;
+            while (i < text.length && /[\w$]/.test(text[i])) i++;
+            push('identifier', start, i);
+        } else if (/[0-9]/.test(ch)) {
+            const start = i;
+            while (i < text.length && /[\w.]/.test(text[i])) i++;
+            push('number', start, i);
+        } else {
+            const start = i;
+            i += text.startsWith('=>', i) || text.startsWith('?.', i) ? 2 : text.startsWith('...', i) ? 3 : 1;
+            push('punctuation', start, i);
+        }
+    }
+    tokens.push({ value: '', kind: 'punctuation', offset: text.length, end: text.length, newlineBefore: true });
+    return tokens;
+}
+
+// The text of a JSDoc comment, without its `*` margins and with `@param` tags as lines
+function cleanDocComment(body: string): string | undefined {
+    const text = body
+        .split('\n')
+        .map(line => line.replace(/^\s*\*\s?/, '').trimEnd())
+        .join('\n')
+        .trim();
+    return text.length > 0 ? text : undefined;
+}
+
+function unquoteDeclaration(value: string): string {
+    return /^['"`]/.test(value) ? value.slice(1, -1) : value;
+}
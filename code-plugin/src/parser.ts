@@ -0,0 +1,1024 @@
+import { Range } from 'vscode-languageserver-textdocument';
+import { Comment, Token, tokenize, unquote } from './lexer';
+import {
+    Argument,
+    AssumeExpression,
+    Branch,
+    ConditionalArm,
+    Expression,
+    Identifier,
+    ImportSpecifier,
+    LambdaExpression,
+    Parameter,
+    Program,
+    Property,
+    Statement,
+    StringLiteral
+} from './ast';
+
+export interface ParseError {
+    message: string;
+    range: Range;
+    // Block-structure problems: unclosed blocks and stray or mismatched `end` / `}`
+    block?: boolean;
+    // Set for unclosed blocks: the keyword or brace that would close it
+    closer?: 'end' | '}';
+}
+
+export interface ParseResult {
+    program: Program;
+    comments: Comment[];
+    errors: ParseError[];
+}
+
+interface OpenBlock {
+    opener: string;
+    line: number;
+    closer: 'end' | '}';
+}
+
+interface BlockResult {
+    body: Statement[];
+    // True when the block ended at one of the `stopAt` keywords instead of its closer
+    stopped: boolean;
+}
+
+const BRANCH_KEYWORDS = new Set(['maybe', 'otherwise', 'when', 'suppose', 'oopsie']);
+const STATEMENT_TERMINATORS = new Set(['end', 'maybe', 'otherwise', 'when', 'suppose', 'oopsie']);
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '>', '<=', '>=']);
+
+/**
+ * Recursive-descent parser for Flick. Statements are line oriented; expressions
+ * continue across lines inside brackets and after binary operators or commas.
+ * Errors are recorded rather than thrown, and parsing resumes at the next line.
+ */
+export class FlickParser {
+    private tokens: Token[];
+    private comments: Comment[];
+    private errors: ParseError[] = [];
+    private lines: string[];
+    private current = 0;
+    private lambdaDisabled = 0;
+    private blueprintDepth = 0;
+    private lastErrorLine = -1;
+
+    constructor(text: string) {
+        const lexed = tokenize(text);
+        this.tokens = lexed.tokens;
+        this.comments = lexed.comments;
+        this.lines = text.split('\n');
+        for (const error of lexed.errors) {
+            this.error(error.message, error.range);
+        }
+    }
+
+    public parse(): ParseResult {
+        const body: Statement[] = [];
+
+        while (!this.isAtEnd()) {
+            if (this.skipSeparators()) {
+                continue;
+            }
+            const token = this.peek();
+            if (this.isKeyword('end') || this.isPunct('}')) {
+                this.advance();
+                this.blockError(`Unexpected '${token.value}' keyword.`, token.range.start.line);
+                continue;
+            }
+            if (token.type === 'keyword' && BRANCH_KEYWORDS.has(token.value)) {
+                this.strayBranch();
+                continue;
+            }
+            const statement = this.parseStatement();
+            if (statement) {
+                body.push(statement);
+            }
+        }
+
+        const program: Program = {
+            kind: 'Program',
+            body,
+            range: { start: { line: 0, character: 0 }, end: this.peek().range.end }
+        };
+        return { program, comments: this.comments, errors: this.errors };
+    }
+
+    // -----------------------------------------------------------------------
+    // Statements
+    // -----------------------------------------------------------------------
+
+    private parseStatement(): Statement | undefined {
+        const startIndex = this.current;
+        const statement = this.parseStatementInner();
+        this.expectStatementEnd();
+        if (this.current === startIndex) {
+            // Guarantee progress so a bad token can never stall the parser
+            this.advance();
+        }
+        return statement;
+    }
+
+    private parseStatementInner(): Statement | undefined {
+        const token = this.peek();
+        if (token.type === 'keyword') {
+            switch (token.value) {
+                case 'declare': return this.parseDeclare();
+                case 'use': return this.parseUse();
+                case 'import': return this.parseImport();
+                case 'free':
+                case 'lock': return this.parseVariableDeclaration();
+                case 'task': return this.parseTask();
+                case 'group': return this.parseGroupOrBlueprint('group');
+                case 'blueprint': return this.parseGroupOrBlueprint('blueprint');
+                case 'do': return this.parseDo();
+                case 'assume': return this.parseAssume();
+                case 'select': return this.parseSelect();
+                case 'attempt': return this.parseAttempt();
+                case 'each': return this.parseEach();
+                case 'march': return this.parseMarch();
+                case 'route': return this.parseRoute();
+                case 'respond': return this.parseRespond();
+                case 'print': return this.parsePrintOrGive('PrintStatement');
+                case 'give': return this.parsePrintOrGive('GiveStatement');
+                case 'ask':
+                case 'yes':
+                case 'no':
+                    break;
+                default:
+                    this.error(`Unexpected '${token.value}'.`, token.range);
+                    this.synchronize();
+                    return undefined;
+            }
+        }
+        return this.parseExpressionStatement();
+    }
+
+    private parseDeclare(): Statement {
+        const keyword = this.advance();
+        const plugin = this.expectIdentifier('Expected plugin name after \'declare\'.');
+        let argument: { value: string; range: Range } | undefined;
+        if (this.isPunct('@')) {
+            this.advance();
+            const value = this.peek();
+            if (value.type === 'identifier' || value.type === 'number' || value.type === 'keyword') {
+                this.advance();
+                argument = { value: value.value, range: value.range };
+            } else {
+                this.error('Expected plugin argument after \'@\'.', value.range);
+            }
+        }
+        return { kind: 'DeclareStatement', plugin, argument, range: this.rangeFrom(keyword.range) };
+    }
+
+    private parseUse(): Statement {
+        const keyword = this.advance();
+        const name = this.expectIdentifier('Expected module name after \'use\'.');
+        const path = this.peek().type === 'string' ? this.parseString() : undefined;
+        return { kind: 'UseStatement', name, path, range: this.rangeFrom(keyword.range) };
+    }
+
+    private parseImport(): Statement {
+        const keyword = this.advance();
+        let defaultImport: Identifier | undefined;
+        const namedImports: ImportSpecifier[] = [];
+
+        if (this.isPunct('{')) {
+            this.advance();
+            this.skipNewlines();
+            while (!this.isPunct('}') && !this.isAtEnd()) {
+                const imported = this.expectIdentifier('Expected imported name.');
+                let local = imported;
+                if (this.isKeyword('as')) {
+                    this.advance();
+                    local = this.expectIdentifier('Expected local name after \'as\'.');
+                }
+                namedImports.push({ kind: 'ImportSpecifier', imported, local, range: this.rangeFrom(imported.range) });
+                this.skipNewlines();
+                if (!this.isPunct(',')) {
+                    break;
+                }
+                this.advance();
+                this.skipNewlines();
+            }
+            this.expectPunct('}', 'Expected \'}\' to close import list.');
+        } else {
+            defaultImport = this.expectIdentifier('Expected name after \'import\'.');
+        }
+
+        let source: StringLiteral | undefined;
+        if (this.isKeyword('from')) {
+            this.advance();
+            if (this.peek().type === 'string') {
+                source = this.parseString();
+            } else {
+                this.error('Expected module path after \'from\'.', this.peek().range);
+            }
+        } else {
+            this.error('Expected \'from\' in import statement.', this.peek().range);
+        }
+        return { kind: 'ImportStatement', defaultImport, namedImports, source, range: this.rangeFrom(keyword.range) };
+    }
+
+    private parseVariableDeclaration(): Statement {
+        const keyword = this.advance();
+        let typeAnnotation: Identifier | undefined;
+        let name = this.expectIdentifier(`Expected variable name after '${keyword.value}'.`);
+        if (this.peek().type === 'identifier') {
+            // `free Player p` / `free num health`
+            typeAnnotation = name;
+            name = this.identifier(this.advance());
+        }
+        let initializer: Expression | undefined;
+        if (this.isOperator(':=') || this.isOperator('=')) {
+            this.advance();
+            initializer = this.parseExpression();
+        }
+        return {
+            kind: 'VariableDeclaration',
+            mutable: keyword.value === 'free',
+            typeAnnotation,
+            name,
+            initializer,
+            range: this.rangeFrom(keyword.range)
+        };
+    }
+
+    private parseTask(): Statement {
+        const keyword = this.advance();
+        const name = this.expectIdentifier('Expected task name after \'task\'.');
+        const params: Parameter[] = [];
+
+        if (this.isKeyword('with')) {
+            this.advance();
+            do {
+                if (this.isPunct(',')) {
+                    this.advance();
+                }
+                const typeToken = this.peek();
+                if (typeToken.type !== 'identifier') {
+                    this.error('Expected parameter in the form type(name).', typeToken.range);
+                    break;
+                }
+                this.advance();
+                const typeAnnotation = this.identifier(typeToken);
+                if (!this.expectPunct('(', 'Expected \'(\' after parameter type.')) {
+                    break;
+                }
+                const paramName = this.expectIdentifier('Expected parameter name.');
+                this.expectPunct(')', 'Expected \')\' after parameter name.');
+                params.push({ kind: 'Parameter', typeAnnotation, name: paramName, range: this.rangeFrom(typeToken.range) });
+            } while (this.isPunct(','));
+        }
+
+        if (this.blueprintDepth > 0 && !this.isOperator('=>')) {
+            return { kind: 'TaskDeclaration', name, params, range: this.rangeFrom(keyword.range) };
+        }
+
+        const body = this.parseBlockAfterArrow({ opener: 'task', line: keyword.range.start.line, closer: 'end' });
+        return { kind: 'TaskDeclaration', name, params, body: body?.body ?? [], range: this.rangeFrom(keyword.range) };
+    }
+
+    private parseGroupOrBlueprint(kind: 'group' | 'blueprint'): Statement {
+        const keyword = this.advance();
+        const name = this.expectIdentifier(`Expected ${kind} name after '${kind}'.`);
+        let body: Statement[] = [];
+        if (this.expectPunct('{', `Expected '{' after ${kind} name.`)) {
+            if (kind === 'blueprint') {
+                this.blueprintDepth++;
+            }
+            body = this.parseBlock({ opener: kind, line: keyword.range.start.line, closer: '}' }).body;
+            if (kind === 'blueprint') {
+                this.blueprintDepth--;
+            }
+        }
+        const range = this.rangeFrom(keyword.range);
+        return kind === 'group'
+            ? { kind: 'GroupDeclaration', name, body, range }
+            : { kind: 'BlueprintDeclaration', name, body, range };
+    }
+
+    private parseDo(): Statement {
+        const keyword = this.advance();
+        const blueprint = this.expectIdentifier('Expected blueprint name after \'do\'.');
+        this.expectKeyword('for', 'Expected \'for\' after blueprint name.');
+        const group = this.expectIdentifier('Expected group name after \'for\'.');
+        const block = this.parseBlockAfterArrow({ opener: 'do', line: keyword.range.start.line, closer: 'end' });
+        return { kind: 'DoBlock', blueprint, group, body: block?.body ?? [], range: this.rangeFrom(keyword.range) };
+    }
+
+    private parseAssume(): Statement {
+        const keyword = this.peek();
+        const block: OpenBlock = { opener: 'assume', line: keyword.range.start.line, closer: 'end' };
+        const branches = this.parseBranches(block, ['maybe', 'otherwise'], ['otherwise']);
+        return { kind: 'AssumeStatement', branches, range: this.rangeFrom(keyword.range) };
+    }
+
+    private parseSelect(): Statement {
+        const keyword = this.advance();
+        const subject = this.withoutLambda(() => this.parseExpression());
+        const cases: Branch[] = [];
+        const block: OpenBlock = { opener: 'select', line: keyword.range.start.line, closer: 'end' };
+
+        if (this.expectOperator('=>', 'Expected \'=>\' after select subject.')) {
+            const leading = this.parseBlock(block, ['when', 'suppose']);
+            if (leading.body.length > 0) {
+                this.error('Expected \'when\' before statements in a select block.', leading.body[0].range);
+            }
+            if (leading.stopped) {
+                cases.push(...this.parseBranches(block, ['when', 'suppose'], ['suppose']));
+            }
+        }
+        return { kind: 'SelectStatement', subject, cases, range: this.rangeFrom(keyword.range) };
+    }
+
+    private parseAttempt(): Statement {
+        const keyword = this.peek();
+        const block: OpenBlock = { opener: 'attempt', line: keyword.range.start.line, closer: 'end' };
+        const branches = this.parseBranches(block, ['oopsie'], ['oopsie']);
+        return { kind: 'AttemptStatement', branches, range: this.rangeFrom(keyword.range) };
+    }
+
+    /**
+     * Parses a chain of `keyword [condition] => body` branches sharing one closing `end`.
+     * `final` keywords cannot be followed by further branches.
+     */
+    private parseBranches(block: OpenBlock, continuations: string[], final: string[]): Branch[] {
+        const branches: Branch[] = [];
+
+        while (true) {
+            const keywordToken = this.advance();
+            const keyword = keywordToken.value as Branch['keyword'];
+            const isFinal = final.includes(keyword);
+            let condition: Expression | undefined;
+            let binding: Identifier | undefined;
+
+            if (keyword === 'oopsie') {
+                if (this.peek().type === 'identifier') {
+                    binding = this.identifier(this.advance());
+                }
+            } else if (keyword === 'suppose') {
+                if (!this.isOperator('=>')) {
+                    condition = this.withoutLambda(() => this.parseExpression());
+                }
+            } else if (keyword !== 'otherwise' && keyword !== 'attempt') {
+                condition = this.withoutLambda(() => this.parseExpression());
+            }
+
+            if (!this.expectOperator('=>', `Expected '=>' after '${keyword}'.`)) {
+                this.synchronize();
+            }
+
+            const result = this.parseBlock(block, isFinal ? [] : continuations);
+            branches.push({
+                kind: 'Branch',
+                keyword,
+                keywordRange: keywordToken.range,
+                condition,
+                binding,
+                body: result.body,
+                range: this.branchRange(keywordToken.range, result)
+            });
+            if (!result.stopped) {
+                return branches;
+            }
+        }
+    }
+
+    private parseEach(): Statement {
+        const keyword = this.advance();
+        const variable = this.expectIdentifier('Expected loop variable after \'each\'.');
+        this.expectKeyword('in', 'Expected \'in\' after loop variable.');
+        const iterable = this.withoutLambda(() => this.parseExpression());
+        const block = this.parseBlockAfterArrow({ opener: 'each', line: keyword.range.start.line, closer: 'end' });
+        return { kind: 'EachStatement', variable, iterable, body: block?.body ?? [], range: this.rangeFrom(keyword.range) };
+    }
+
+    private parseMarch(): Statement {
+        const keyword = this.advance();
+        const variable = this.expectIdentifier('Expected loop variable after \'march\'.');
+        this.expectKeyword('from', 'Expected \'from\' after loop variable.');
+        const from = this.withoutLambda(() => this.parseExpression());
+        this.expectKeyword('to', 'Expected \'to\' in march range.');
+        const to = this.withoutLambda(() => this.parseExpression());
+        const block = this.parseBlockAfterArrow({ opener: 'march', line: keyword.range.start.line, closer: 'end' });
+        return { kind: 'MarchStatement', variable, from, to, body: block?.body ?? [], range: this.rangeFrom(keyword.range) };
+    }
+
+    private parseRoute(): Statement {
+        const keyword = this.advance();
+        let method: Identifier | undefined;
+        if (this.peek().type === 'identifier') {
+            method = this.identifier(this.advance());
+        }
+        let path: StringLiteral;
+        if (this.peek().type === 'string') {
+            path = this.parseString();
+        } else {
+            this.error('Expected route path string.', this.peek().range);
+            path = { kind: 'StringLiteral', value: '', raw: '', range: this.peek().range };
+        }
+
+        if (this.isOperator('->')) {
+            this.advance();
+            const forward = this.expectIdentifier('Expected module name after \'->\'.');
+            return { kind: 'RouteStatement', method, path, forward, range: this.rangeFrom(keyword.range) };
+        }
+
+        const block = this.parseBlockAfterArrow({ opener: 'route', line: keyword.range.start.line, closer: 'end' });
+        return { kind: 'RouteStatement', method, path, body: block?.body ?? [], range: this.rangeFrom(keyword.range) };
+    }
+
+    private parseRespond(): Statement {
+        const keyword = this.advance();
+        const args = this.startsArgument(this.peek()) ? this.parseArgumentList() : [];
+        return { kind: 'RespondStatement', args, range: this.rangeFrom(keyword.range) };
+    }
+
+    private parsePrintOrGive(kind: 'PrintStatement' | 'GiveStatement'): Statement {
+        const keyword = this.advance();
+        const value = this.atStatementEnd() ? undefined : this.parseExpression();
+        return { kind, value, range: this.rangeFrom(keyword.range) } as Statement;
+    }
+
+    private parseExpressionStatement(): Statement {
+        const start = this.peek().range;
+        const expression = this.parseExpression();
+        if (this.isOperator(':=')) {
+            this.advance();
+            const value = this.parseExpression();
+            return { kind: 'Assignment', target: expression, value, range: this.rangeFrom(start) };
+        }
+        return { kind: 'ExpressionStatement', expression, range: this.rangeFrom(start) };
+    }
+
+    // -----------------------------------------------------------------------
+    // Blocks
+    // -----------------------------------------------------------------------
+
+    private parseBlockAfterArrow(block: OpenBlock): BlockResult | undefined {
+        if (!this.expectOperator('=>', `Expected '=>' to open '${block.opener}' block.`)) {
+            return undefined;
+        }
+        return this.parseBlock(block);
+    }
+
+    private parseBlock(block: OpenBlock, stopAt: string[] = []): BlockResult {
+        const body: Statement[] = [];
+
+        while (true) {
+            if (this.skipSeparators()) {
+                continue;
+            }
+            const token = this.peek();
+
+            if (token.type === 'eof') {
+                this.blockError(`Unclosed '${block.opener}' block. Expected '${block.closer}'.`, block.line, block.closer);
+                return { body, stopped: false };
+            }
+            if (token.type === 'keyword' && stopAt.includes(token.value)) {
+                return { body, stopped: true };
+            }
+            if (this.isKeyword('end') || this.isPunct('}')) {
+                this.advance();
+                if (token.value !== block.closer) {
+                    this.blockError(
+                        `Unexpected '${token.value}'. Expected '${block.closer}' to close '${block.opener}' block opened on line ${block.line + 1}.`,
+                        token.range.start.line
+                    );
+                }
+                return { body, stopped: false };
+            }
+            if (token.type === 'keyword' && BRANCH_KEYWORDS.has(token.value)) {
+                this.strayBranch();
+                continue;
+            }
+
+            const statement = this.parseStatement();
+            if (statement) {
+                body.push(statement);
+            }
+        }
+    }
+
+    private strayBranch(): void {
+        const token = this.advance();
+        this.blockError(`'${token.value}' without a matching control block.`, token.range.start.line);
+        this.synchronize();
+    }
+
+    // -----------------------------------------------------------------------
+    // Expressions
+    // -----------------------------------------------------------------------
+
+    private parseExpression(): Expression {
+        if (this.isKeyword('assume')) {
+            return this.parseAssumeExpression();
+        }
+        return this.parseAnd();
+    }
+
+    private parseAssumeExpression(): AssumeExpression {
+        const start = this.advance().range;
+        const arms: ConditionalArm[] = [];
+
+        const parseArm = (armStart: Range, hasCondition: boolean) => {
+            const condition = hasCondition ? this.withoutLambda(() => this.parseAnd()) : undefined;
+            this.expectOperator('=>', 'Expected \'=>\' in inline assume.');
+            const value = this.parseExpression();
+            arms.push({ kind: 'ConditionalArm', condition, value, range: this.rangeFrom(armStart) });
+        };
+
+        parseArm(start, true);
+        while (true) {
+            const offset = this.isPunct(',') ? 1 : 0;
+            const next = this.peek(offset);
+            if (next.type !== 'keyword' || (next.value !== 'maybe' && next.value !== 'otherwise')) {
+                break;
+            }
+            this.current += offset;
+            this.advance();
+            parseArm(next.range, next.value === 'maybe');
+            if (next.value === 'otherwise') {
+                break;
+            }
+        }
+        return { kind: 'AssumeExpression', arms, range: this.rangeFrom(start) };
+    }
+
+    private parseAnd(): Expression {
+        let left = this.parseComparison();
+        while (this.isKeyword('and')) {
+            this.advance();
+            this.skipNewlines();
+            const right = this.parseComparison();
+            left = { kind: 'BinaryExpression', operator: 'and', left, right, range: this.span(left.range, right.range) };
+        }
+        return left;
+    }
+
+    private parseComparison(): Expression {
+        let left = this.parseAdditive();
+        while (this.peek().type === 'operator' && COMPARISON_OPERATORS.has(this.peek().value)) {
+            const operator = this.advance().value;
+            this.skipNewlines();
+            const right = this.parseAdditive();
+            left = { kind: 'BinaryExpression', operator, left, right, range: this.span(left.range, right.range) };
+        }
+        return left;
+    }
+
+    private parseAdditive(): Expression {
+        let left = this.parseMultiplicative();
+        while (this.isOperator('+') || this.isOperator('-')) {
+            const operator = this.advance().value;
+            this.skipNewlines();
+            const right = this.parseMultiplicative();
+            left = { kind: 'BinaryExpression', operator, left, right, range: this.span(left.range, right.range) };
+        }
+        return left;
+    }
+
+    private parseMultiplicative(): Expression {
+        let left = this.parseUnary();
+        while (this.isOperator('*') || this.isOperator('/') || this.isOperator('%')) {
+            const operator = this.advance().value;
+            this.skipNewlines();
+            const right = this.parseUnary();
+            left = { kind: 'BinaryExpression', operator, left, right, range: this.span(left.range, right.range) };
+        }
+        return left;
+    }
+
+    private parseUnary(): Expression {
+        if (this.isOperator('-') || this.isOperator('!')) {
+            const operator = this.advance();
+            const operand = this.parseUnary();
+            return { kind: 'UnaryExpression', operator: operator.value, operand, range: this.span(operator.range, operand.range) };
+        }
+        return this.parseCall();
+    }
+
+    private parseCall(): Expression {
+        let expression = this.parsePostfix();
+
+        const callable = expression.kind === 'Identifier' || expression.kind === 'MemberExpression';
+        if (callable && this.startsArgument(this.peek())) {
+            const args = this.withoutLambda(() => this.parseArgumentList());
+            expression = { kind: 'CallExpression', callee: expression, args, parenthesized: false, range: this.rangeFrom(expression.range) };
+        }
+
+        if (this.lambdaDisabled === 0 && this.isOperator('=>') &&
+            (expression.kind === 'Identifier' || expression.kind === 'MemberExpression' || expression.kind === 'CallExpression')) {
+            const lambda = this.parseLambda();
+            if (expression.kind === 'CallExpression') {
+                expression.args.push(lambda);
+                expression.range = this.rangeFrom(expression.range);
+            } else {
+                expression = { kind: 'CallExpression', callee: expression, args: [lambda], parenthesized: false, range: this.rangeFrom(expression.range) };
+            }
+        }
+        return expression;
+    }
+
+    private parseLambda(): LambdaExpression {
+        const arrow = this.advance();
+        const result = this.enableLambda(() => this.parseBlock({ opener: 'lambda', line: arrow.range.start.line, closer: 'end' }));
+        return { kind: 'LambdaExpression', body: result.body, range: this.rangeFrom(arrow.range) };
+    }
+
+    private parsePostfix(): Expression {
+        let expression = this.parsePrimary();
+
+        while (true) {
+            const token = this.peek();
+            const previous = this.previous();
+
+            if (this.isPunct('.') && this.isName(this.peek(1))) {
+                this.advance();
+                const property = this.identifier(this.advance());
+                expression = { kind: 'MemberExpression', object: expression, property, operator: '.', range: this.span(expression.range, property.range) };
+                continue;
+            }
+
+            // `obj/member` is written without spaces; `a / b` is division
+            const next = this.peek(1);
+            if (this.isOperator('/') && token.offset === previous.end && next.offset === token.end && this.isName(next)) {
+                this.advance();
+                const property = this.identifier(this.advance());
+                expression = { kind: 'MemberExpression', object: expression, property, operator: '/', range: this.span(expression.range, property.range) };
+                continue;
+            }
+
+            if (this.isPunct('(') && token.offset === previous.end) {
+                this.advance();
+                const args = this.enableLambda(() => this.parseDelimitedArguments(')'));
+                expression = { kind: 'CallExpression', callee: expression, args, parenthesized: true, range: this.rangeFrom(expression.range) };
+                continue;
+            }
+
+            if (this.isPunct('[') && token.offset === previous.end) {
+                this.advance();
+                this.skipNewlines();
+                const index = this.enableLambda(() => this.parseExpression());
+                this.skipNewlines();
+                this.expectPunct(']', 'Expected \']\' after index.');
+                expression = { kind: 'IndexExpression', object: expression, index, range: this.rangeFrom(expression.range) };
+                continue;
+            }
+
+            return expression;
+        }
+    }
+
+    private parsePrimary(): Expression {
+        const token = this.peek();
+
+        switch (token.type) {
+            case 'number':
+                this.advance();
+                return { kind: 'NumberLiteral', value: Number(token.value), raw: token.value, range: token.range };
+            case 'string':
+                return this.parseString();
+            case 'identifier':
+                return this.identifier(this.advance());
+            case 'keyword':
+                if (token.value === 'yes' || token.value === 'no') {
+                    this.advance();
+                    return { kind: 'BooleanLiteral', value: token.value === 'yes', range: token.range };
+                }
+                if (token.value === 'ask') {
+                    this.advance();
+                    const prompt = this.startsArgument(this.peek()) ? this.parseAnd() : undefined;
+                    return { kind: 'AskExpression', prompt, range: this.rangeFrom(token.range) };
+                }
+                if (token.value === 'assume') {
+                    return this.parseAssumeExpression();
+                }
+                break;
+            case 'punctuation':
+                if (token.value === '(') {
+                    this.advance();
+                    this.skipNewlines();
+                    const inner = this.enableLambda(() => this.parseExpression());
+                    this.skipNewlines();
+                    this.expectPunct(')', 'Expected \')\'.');
+                    return inner;
+                }
+                if (token.value === '[') {
+                    return this.parseArray();
+                }
+                if (token.value === '{') {
+                    return this.parseObject();
+                }
+                break;
+        }
+
+        this.error(token.type === 'eof' || token.type === 'newline'
+            ? 'Expected expression.'
+            : `Unexpected '${token.value}', expected expression.`, token.range);
+        return { kind: 'InvalidExpression', range: token.range };
+    }
+
+    private parseArray(): Expression {
+        const open = this.advance();
+        const elements: Expression[] = [];
+        this.skipNewlines();
+        while (!this.isPunct(']') && !this.isAtEnd()) {
+            elements.push(this.enableLambda(() => this.parseExpression()));
+            this.skipNewlines();
+            if (!this.isPunct(',')) {
+                break;
+            }
+            this.advance();
+            this.skipNewlines();
+        }
+        this.expectPunct(']', 'Expected \']\' to close array literal.');
+        return { kind: 'ArrayLiteral', elements, range: this.rangeFrom(open.range) };
+    }
+
+    private parseObject(): Expression {
+        const open = this.advance();
+        const properties: Property[] = [];
+        this.skipNewlines();
+        while (!this.isPunct('}') && !this.isAtEnd()) {
+            const keyToken = this.peek();
+            let key: Identifier | StringLiteral;
+            if (keyToken.type === 'string') {
+                key = this.parseString();
+            } else if (this.isName(keyToken) || keyToken.type === 'number') {
+                key = this.identifier(this.advance());
+            } else {
+                this.error(`Unexpected '${keyToken.value}' in object literal.`, keyToken.range);
+                break;
+            }
+            this.expectPunct(':', 'Expected \':\' after object key.');
+            this.skipNewlines();
+            const value = this.enableLambda(() => this.parseExpression());
+            properties.push({ kind: 'Property', key, value, range: this.span(key.range, value.range) });
+            this.skipNewlines();
+            if (this.isPunct(',')) {
+                this.advance();
+                this.skipNewlines();
+            } else if (!this.isPunct('}')) {
+                break;
+            }
+        }
+        this.expectPunct('}', 'Expected \'}\' to close object literal.');
+        return { kind: 'ObjectLiteral', properties, range: this.rangeFrom(open.range) };
+    }
+
+    private parseArgumentList(): Argument[] {
+        const args: Argument[] = [this.parseArgument()];
+        while (this.isPunct(',')) {
+            let lookahead = 1;
+            while (this.peek(lookahead).type === 'newline') {
+                lookahead++;
+            }
+            if (!this.startsArgument(this.peek(lookahead))) {
+                break;
+            }
+            this.advance();
+            this.skipNewlines();
+            args.push(this.parseArgument());
+        }
+        return args;
+    }
+
+    private parseDelimitedArguments(closer: string): Argument[] {
+        const args: Argument[] = [];
+        this.skipNewlines();
+        while (!this.isPunct(closer) && !this.isAtEnd()) {
+            args.push(this.parseArgument());
+            this.skipNewlines();
+            if (!this.isPunct(',')) {
+                break;
+            }
+            this.advance();
+            this.skipNewlines();
+        }
+        this.expectPunct(closer, `Expected '${closer}' after arguments.`);
+        return args;
+    }
+
+    private parseArgument(): Argument {
+        const token = this.peek();
+        if (this.isName(token) && this.peek(1).type === 'operator' && this.peek(1).value === '=') {
+            const name = this.identifier(this.advance());
+            this.advance();
+            this.skipNewlines();
+            const value = this.parseExpression();
+            return { kind: 'NamedArgument', name, value, range: this.span(name.range, value.range) };
+        }
+        return this.parseExpression();
+    }
+
+    private parseString(): StringLiteral {
+        const token = this.advance();
+        return { kind: 'StringLiteral', value: unquote(token.value), raw: token.value, range: token.range };
+    }
+
+    // -----------------------------------------------------------------------
+    // Token helpers
+    // -----------------------------------------------------------------------
+
+    private startsArgument(token: Token): boolean {
+        switch (token.type) {
+            case 'identifier':
+            case 'number':
+            case 'string':
+                return true;
+            case 'keyword':
+                return token.value === 'yes' || token.value === 'no' || token.value === 'ask';
+            case 'punctuation':
+                return token.value === '{' || token.value === '[' || token.value === '(';
+            default:
+                return false;
+        }
+    }
+
+    private isName(token: Token): boolean {
+        return token.type === 'identifier' || token.type === 'keyword';
+    }
+
+    private identifier(token: Token): Identifier {
+        return { kind: 'Identifier', name: token.value, range: token.range };
+    }
+
+    private expectIdentifier(message: string): Identifier {
+        const token = this.peek();
+        if (token.type === 'identifier') {
+            return this.identifier(this.advance());
+        }
+        this.error(message, token.range);
+        return { kind: 'Identifier', name: '', range: { start: token.range.start, end: token.range.start } };
+    }
+
+    private expectKeyword(value: string, message: string): boolean {
+        if (this.isKeyword(value)) {
+            this.advance();
+            return true;
+        }
+        this.error(message, this.peek().range);
+        return false;
+    }
+
+    private expectOperator(value: string, message: string): boolean {
+        if (this.isOperator(value)) {
+            this.advance();
+            return true;
+        }
+        this.error(message, this.peek().range);
+        return false;
+    }
+
+    private expectPunct(value: string, message: string): boolean {
+        if (this.isPunct(value)) {
+            this.advance();
+            return true;
+        }
+        this.error(message, this.peek().range);
+        return false;
+    }
+
+    private expectStatementEnd(): void {
+        const token = this.peek();
+        if (token.type === 'newline' || token.type === 'eof' || this.isPunct(';') || this.isPunct('}')) {
+            return;
+        }
+        if (token.type === 'keyword' && STATEMENT_TERMINATORS.has(token.value)) {
+            return;
+        }
+        this.error(`Unexpected '${token.value}'.`, token.range);
+        this.synchronize();
+    }
+
+    private atStatementEnd(): boolean {
+        const token = this.peek();
+        return token.type === 'newline' || token.type === 'eof' || this.isPunct(';') || this.isPunct('}') ||
+            (token.type === 'keyword' && STATEMENT_TERMINATORS.has(token.value));
+    }
+
+    private synchronize(): void {
+        while (!this.isAtEnd() && this.peek().type !== 'newline') {
+            this.advance();
+        }
+    }
+
+    private skipNewlines(): void {
+        while (this.peek().type === 'newline') {
+            this.advance();
+        }
+    }
+
+    private skipSeparators(): boolean {
+        if (this.peek().type === 'newline' || this.isPunct(';')) {
+            this.advance();
+            return true;
+        }
+        return false;
+    }
+
+    private withoutLambda<T>(parse: () => T): T {
+        this.lambdaDisabled++;
+        try {
+            return parse();
+        } finally {
+            this.lambdaDisabled--;
+        }
+    }
+
+    private enableLambda<T>(parse: () => T): T {
+        const saved = this.lambdaDisabled;
+        this.lambdaDisabled = 0;
+        try {
+            return parse();
+        } finally {
+            this.lambdaDisabled = saved;
+        }
+    }
+
+    private isKeyword(value: string): boolean {
+        const token = this.peek();
+        return token.type === 'keyword' && token.value === value;
+    }
+
+    private isOperator(value: string): boolean {
+        const token = this.peek();
+        return token.type === 'operator' && token.value === value;
+    }
+
+    private isPunct(value: string): boolean {
+        const token = this.peek();
+        return token.type === 'punctuation' && token.value === value;
+    }
+
+    private peek(offset = 0): Token {
+        return this.tokens[Math.min(this.current + offset, this.tokens.length - 1)];
+    }
+
+    private previous(): Token {
+        return this.tokens[Math.max(this.current - 1, 0)];
+    }
+
+    private advance(): Token {
+        const token = this.peek();
+        if (!this.isAtEnd()) {
+            this.current++;
+        }
+        return token;
+    }
+
+    private isAtEnd(): boolean {
+        return this.peek().type === 'eof';
+    }
+
+    // -----------------------------------------------------------------------
+    // Ranges and errors
+    // -----------------------------------------------------------------------
+
+    private rangeFrom(start: Range): Range {
+        let index = this.current - 1;
+        while (index > 0 && this.tokens[index].type === 'newline') {
+            index--;
+        }
+        const end = index >= 0 ? this.tokens[index].range.end : start.end;
+        return { start: start.start, end: comparePositions(end, start.end) < 0 ? start.end : end };
+    }
+
+    private span(start: Range, end: Range): Range {
+        return { start: start.start, end: end.end };
+    }
+
+    private branchRange(start: Range, result: BlockResult): Range {
+        if (!result.stopped) {
+            return this.rangeFrom(start);
+        }
+        const last = result.body[result.body.length - 1];
+        return { start: start.start, end: last ? last.range.end : start.end };
+    }
+
+    private error(message: string, range: Range): void {
+        if (range.start.line === this.lastErrorLine) {
+            return;
+        }
+        this.lastErrorLine = range.start.line;
+        this.errors.push({ message, range });
+    }
+
+    private blockError(message: string, line: number, closer?: 'end' | '}'): void {
+        this.errors.push({
+            message,
+            range: { start: { line, character: 0 }, end: { line, character: (this.lines[line] ?? '').length } },
+            block: true,
+            closer
+        });
+    }
+}
+
+export function parse(text: string): ParseResult {
+    return new FlickParser(text).parse();
+}
+
+function comparePositions(a: { line: number; character: number }, b: { line: number; character: number }): number {
+    return a.line !== b.line ? a.line - b.line : a.character - b.character;
+}
@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Plugin definition files describe what `declare name@arg` brings into scope
+
+export interface PluginParameter {
+    name: string;
+    type: string;
+}
+
+export interface PluginTask {
+    name: string;
+    // Omitted when the task takes a variable number of arguments
+    params?: PluginParameter[];
+    returns?: string;
+    description?: string;
+    // Names accepted as `name=value` arguments
+    namedArguments?: string[];
+    // Variable bound inside the call's trailing `=>` block, e.g. `canvas`
+    blockBinding?: string;
+}
+
+// Object type whose members are reached with `/` or `.`, e.g. `Window` or `Canvas`
+export interface PluginType {
+    name: string;
+    members: PluginTask[];
+}
+
+// The value after `@` in `declare web@3000`
+export interface PluginArgument {
+    name: string;
+    type: 'num' | 'literal';
+    required?: boolean;
+    description?: string;
+}
+
+export interface PluginDefinition {
+    name: string;
+    description?: string;
+    // Available in every file without a `declare`
+    implicit?: boolean;
+    argument?: PluginArgument;
+    // Words that become valid once the plugin is declared, such as `route` or `GET`
+    keywords?: string[];
+    // Identifiers that only exist inside route blocks, such as `body`
+    routeOnly?: string[];
+    // Tasks callable by name, like `read "config.txt"`
+    tasks?: PluginTask[];
+    // Global object exposing the members of the type with the same name
+    namespace?: string;
+    types?: PluginType[];
+    // Named arguments accepted by keyword statements, e.g. `respond json=data`
+    namedArguments?: Record<string, string[]>;
+    // File the definition was loaded from
+    source?: string;
+}
+
+// Project-local plugin definitions are found anywhere in the workspace by this suffix
+export const PLUGIN_DEFINITION_SUFFIX = '.flickplugin.json';
+
+/**
+ * Plugin definitions by name: the bundled ones shipped with the extension,
+ * overridden by project-local files with the same plugin name.
+ */
+export class PluginRegistry {
+    private bundled: Map<string, PluginDefinition> | undefined;
+    // Keyed by file path so edited or deleted files can be replaced
+    private local: Map<string, PluginDefinition> = new Map();
+
+    constructor(
+        private readonly bundledDirectory: string,
+        private readonly reportError: (message: string) => void
+    ) {}
+
+    public get(name: string): PluginDefinition | undefined {
+        const key = name.toLowerCase();
+        for (const definition of this.local.values()) {
+            if (definition.name.toLowerCase() === key) return definition;
+        }
+        return this.getBundled().get(key);
+    }
+
+    public all(): PluginDefinition[] {
+        const byName = new Map(this.getBundled());
+        for (const definition of this.local.values()) {
+            byName.set(definition.name.toLowerCase(), definition);
+        }
+        return Array.from(byName.values());
+    }
+
+    public implicit(): PluginDefinition[] {
+        return this.all().filter(definition => definition.implicit);
+    }
+
+    /**
+     * Loads or reloads a project-local definition file. Invalid files are
+     * reported and leave no definition behind.
+     */
+    public loadFile(filePath: string): void {
+        this.local.delete(filePath);
+        const definition = this.readDefinition(filePath);
+        if (definition) {
+            this.local.set(filePath, definition);
+        }
+    }
+
+    /**
+     * Adds a definition given as an object rather than a file, such as one from
+     * the client's initialization options. `source` names it in errors.
+     */
+    public loadDefinition(definition: unknown, source: string): void {
+        this.local.delete(source);
+        const checked = this.checkDefinition(definition, source);
+        if (checked) {
+            this.local.set(source, checked);
+        }
+    }
+
+    public forgetFile(filePath: string): void {
+        this.local.delete(filePath);
+    }
+
+    private getBundled(): Map<string, PluginDefinition> {
+        if (this.bundled) return this.bundled;
+        this.bundled = new Map();
+        let files: string[] = [];
+        try {
+            files = fs.readdirSync(this.bundledDirectory).filter(file => file.endsWith(PLUGIN_DEFINITION_SUFFIX));
+        } catch {
+            this.reportError(`Bundled plugin definitions not found in ${this.bundledDirectory}`);
+        }
+        for (const file of files) {
+            const definition = this.readDefinition(path.join(this.bundledDirectory, file));
+            if (definition) {
+                this.bundled.set(definition.name.toLowerCase(), definition);
+            }
+        }
+        return this.bundled;
+    }
+
+    private readDefinition(filePath: string): PluginDefinition | undefined {
+        let definition: unknown;
+        try {
+            definition = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            this.reportError(`Could not read plugin definition ${filePath}: ${(error as Error).message}`);
+            return undefined;
+        }
+        return this.checkDefinition(definition, filePath);
+    }
+
+    private checkDefinition(definition: unknown, source: string): PluginDefinition | undefined {
+        const problem = validateDefinition(definition);
+        if (problem) {
+            this.reportError(`Invalid plugin definition ${source}: ${problem}`);
+            return undefined;
+        }
+        return { ...(definition as PluginDefinition), source };
+    }
+}
+
+// Checks the parts of a definition the language server relies on
+function validateDefinition(definition: unknown): string | undefined {
+    if (!isObject(definition)) {
+        return 'expected a JSON object';
+    }
+    if (typeof definition.name !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(definition.name)) {
+        return `'name' must be an identifier`;
+    }
+    for (const key of ['keywords', 'routeOnly']) {
+        if (definition[key] !== undefined && !isStringArray(definition[key])) {
+            return `'${key}' must be an array of strings`;
+        }
+    }
+    for (const key of ['tasks', 'types']) {
+        if (definition[key] !== undefined && !Array.isArray(definition[key])) {
+            return `'${key}' must be an array`;
+        }
+    }
+    const tasks: unknown[] = Array.isArray(definition.tasks) ? [...definition.tasks] : [];
+    for (const type of Array.isArray(definition.types) ? definition.types : []) {
+        if (!isObject(type) || typeof type.name !== 'string' || !Array.isArray(type.members)) {
+            return `every type needs a 'name' and a 'members' array`;
+        }
+        tasks.push(...type.members);
+    }
+    for (const task of tasks) {
+        if (!isObject(task) || typeof task.name !== 'string') {
+            return `every task needs a 'name'`;
+        }
+        if (task.params !== undefined && !(Array.isArray(task.params) && task.params.every(p => isObject(p) && typeof p.name === 'string' && typeof p.type === 'string'))) {
+            return `parameters of '${task.name}' need a 'name' and a 'type'`;
+        }
+        if (task.namedArguments !== undefined && !isStringArray(task.namedArguments)) {
+            return `'namedArguments' of '${task.name}' must be an array of strings`;
+        }
+    }
+    if (definition.argument !== undefined && !(isObject(definition.argument) && (definition.argument.type === 'num' || definition.argument.type === 'literal'))) {
+        return `'argument.type' must be 'num' or 'literal'`;
+    }
+    if (definition.namedArguments !== undefined && !(isObject(definition.namedArguments) && Object.values(definition.namedArguments).every(isStringArray))) {
+        return `'namedArguments' must map keywords to arrays of strings`;
+    }
+    return undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as path from 'path';
+import {
+    Disposable,
+    EventEmitter,
+    Event,
+    MarkdownString,
+    Position,
+    Range,
+    ThemeIcon,
+    TreeDataProvider,
+    TreeItem,
+    TreeItemCollapsibleState,
+    Uri,
+    ViewColumn,
+    commands,
+    window,
+    workspace
+} from 'vscode';
+import { RouteEntry, RouteFile, collectRoutes } from './routes';
+
+// Files are the top level, then their routes and the modules they forward to
+type RouteNode =
+    | { kind: 'file'; server: RouteFile }
+    | { kind: 'entry'; server: RouteFile; entry: RouteEntry };
+
+// How long a started server gets to start listening
+const SERVER_START_TIMEOUT_MS = 10000;
+const REQUEST_TIMEOUT_MS = 10000;
+// Methods that get a JSON body in sample requests
+const METHODS_WITH_BODY = new Set(['POST', 'PUT', 'PATCH']);
+
+/**
+ * The "Flick Routes" view: every `route` in the workspace by method and path,
+ * and a command that starts the server and sends a sample request to a route.
+ */
+export class RouteExplorer implements TreeDataProvider<RouteNode>, Disposable {
+    private readonly changed = new EventEmitter<RouteNode | undefined>();
+    public readonly onDidChangeTreeData: Event<RouteNode | undefined> = this.changed.event;
+
+    private readonly disposables: Disposable[] = [];
+    private servers: RouteFile[] | undefined;
+    // The server started by the last sample request, while it runs
+    private serving: { file: string; exited: Promise<number | null> } | undefined;
+
+    constructor(private readonly runServer: (file: string) => Promise<number | null>) {
+        const watcher = workspace.createFileSystemWatcher('**/*.{fk,flick}');
+        this.disposables.push(
+            this.changed,
+            watcher,
+            watcher.onDidCreate(() => this.refresh()),
+            watcher.onDidChange(() => this.refresh()),
+            watcher.onDidDelete(() => this.refresh()),
+            window.registerTreeDataProvider('flickRoutes', this),
+            commands.registerCommand('flick.routes.refresh', () => this.refresh()),
+            commands.registerCommand('flick.routes.sendRequest', (node?: RouteNode) => this.sendRequest(node))
+        );
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    public refresh(): void {
+        this.servers = undefined;
+        this.changed.fire(undefined);
+    }
+
+    public async getChildren(node?: RouteNode): Promise<RouteNode[]> {
+        if (!node) {
+            const servers = await this.collect();
+            return servers.map(server => ({ kind: 'file', server }));
+        }
+        const entries = node.kind === 'file'
+            ? node.server.routes
+            : node.entry.kind === 'mount' ? node.entry.children : [];
+        return entries.map(entry => ({ kind: 'entry', server: node.server, entry }));
+    }
+
+    public getTreeItem(node: RouteNode): TreeItem {
+        if (node.kind === 'file') {
+            const item = new TreeItem(path.basename(node.server.file), TreeItemCollapsibleState.Expanded);
+            item.resourceUri = Uri.file(node.server.file);
+            item.description = node.server.port !== undefined ? `:${node.server.port}` : workspace.asRelativePath(path.dirname(node.server.file));
+            item.iconPath = new ThemeIcon(node.server.port !== undefined ? 'server' : 'file-code');
+            item.tooltip = node.server.file;
+            return item;
+        }
+
+        const entry = node.entry;
+        const open = {
+            command: 'vscode.open',
+            title: 'Go to Route',
+            arguments: [Uri.file(entry.file), { selection: new Range(toPosition(entry.position), toPosition(entry.position)) }]
+        };
+        if (entry.kind === 'mount') {
+            const item = new TreeItem(entry.path, TreeItemCollapsibleState.Expanded);
+            item.description = `-> ${entry.module}`;
+            item.iconPath = new ThemeIcon('symbol-namespace');
+            item.tooltip = entry.moduleFile ?? `Module '${entry.module}' was not found`;
+            item.command = open;
+            return item;
+        }
+
+        const item = new TreeItem(`${entry.method ?? 'ANY'} ${entry.path}`, TreeItemCollapsibleState.None);
+        item.description = workspace.asRelativePath(entry.file);
+        item.iconPath = new ThemeIcon('symbol-event');
+        item.tooltip = new MarkdownString(`\`${entry.method ?? 'ANY'} ${entry.path}\` in ${workspace.asRelativePath(entry.file)}`);
+        item.contextValue = 'route';
+        item.command = open;
+        return item;
+    }
+
+    private async collect(): Promise<RouteFile[]> {
+        if (!this.servers) {
+            const files = await workspace.findFiles('**/*.{fk,flick}', '**/node_modules/**');
+            const openTexts = new Map(workspace.textDocuments.map(document => [document.uri.fsPath, document.getText()]));
+            this.servers = collectRoutes(files.map(uri => uri.fsPath).sort(), file => {
+                try {
+                    return openTexts.get(file) ?? fs.readFileSync(file, 'utf8');
+                } catch {
+                    return undefined;
+                }
+            });
+            commands.executeCommand('setContext', 'flick.hasRoutes', this.servers.length > 0);
+        }
+        return this.servers;
+    }
+
+    /**
+     * Sends a request for a route to its server on localhost, starting the
+     * server file first unless something already listens on its port.
+     */
+    private async sendRequest(node?: RouteNode): Promise<void> {
+        if (node?.kind !== 'entry' || node.entry.kind !== 'route') {
+            window.showErrorMessage('Choose a route in the Flick Routes view to send a request to.');
+            return;
+        }
+        const { server, entry } = node;
+        if (server.port === undefined) {
+            window.showErrorMessage(`${path.basename(server.file)} has no port; declare one with 'declare web @3000'.`);
+            return;
+        }
+        // Route parameters such as `:id` need a value
+        const requestPath = await window.showInputBox({
+            prompt: `Path to request from ${path.basename(server.file)} on port ${server.port}`,
+            value: entry.path.replace(/:(\w+)/g, '1')
+        });
+        if (requestPath === undefined) return;
+
+        try {
+            if (!(await isListening(server.port))) {
+                await this.startServer(server);
+            }
+            const method = entry.method ?? 'GET';
+            const response = await request(server.port, method, requestPath, METHODS_WITH_BODY.has(method) ? '{}' : undefined);
+            const document = await workspace.openTextDocument({ content: response, language: 'plaintext' });
+            await window.showTextDocument(document, { viewColumn: ViewColumn.Beside, preview: true });
+        } catch (error) {
+            window.showErrorMessage(error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    private async startServer(server: RouteFile): Promise<void> {
+        if (this.serving?.file !== server.file) {
+            const exited = this.runServer(server.file);
+            const serving = { file: server.file, exited };
+            this.serving = serving;
+            exited.then(() => {
+                if (this.serving === serving) this.serving = undefined;
+            });
+        }
+        const exited = this.serving!.exited.then(() => 'exited' as const);
+        const deadline = Date.now() + SERVER_START_TIMEOUT_MS;
+        while (Date.now() < deadline) {
+            if (await isListening(server.port!)) return;
+            if (await Promise.race([exited, delay(200)]) === 'exited') {
+                throw new Error(`${path.basename(server.file)} exited before listening on port ${server.port}; see the Flick output.`);
+            }
+        }
+        throw new Error(`${path.basename(server.file)} is not listening on port ${server.port} after ${SERVER_START_TIMEOUT_MS / 1000} seconds.`);
+    }
+}
+
+function toPosition(position: { line: number; character: number }): Position {
+    return new Position(position.line, position.character);
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isListening(port: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const socket = net.connect(port, '127.0.0.1');
+        socket.once('connect', () => {
+            socket.destroy();
+            resolve(true);
+        });
+        socket.once('error', () => resolve(false));
+    });
+}
+
+// The response as an HTTP message: status line, headers, then the body (pretty-printed when it's JSON)
+function request(port: number, method: string, requestPath: string, body?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const req = http.request({
+            host: '127.0.0.1',
+            port,
+            method,
+            path: requestPath.startsWith('/') ? requestPath : `/${requestPath}`,
+            headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+            timeout: REQUEST_TIMEOUT_MS
+        }, res => {
+            let responseBody = '';
+            res.setEncoding('utf8');
+            res.on('data', (chunk: string) => responseBody += chunk);
+            res.on('end', () => {
+                if ((res.headers['content-type'] ?? '').includes('json')) {
+                    try {
+                        responseBody = JSON.stringify(JSON.parse(responseBody), null, 2);
+                    } catch {
+                        // Shown as sent
+                    }
+                }
+                const headers = Object.entries(res.headers).map(([name, value]) => `${name}: ${Array.isArray(value) ? value.join(', ') : value}`);
+                resolve([`HTTP/${res.httpVersion} ${res.statusCode} ${res.statusMessage ?? ''}`.trimEnd(), ...headers, '', responseBody].join('\n'));
+            });
+        });
+        req.on('timeout', () => req.destroy(new Error(`${method} ${requestPath} got no response within ${REQUEST_TIMEOUT_MS / 1000} seconds.`)));
+        req.on('error', reject);
+        req.end(body);
+    });
+}
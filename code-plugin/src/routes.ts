@@ -0,0 +1,101 @@
+import { Position } from 'vscode-languageserver-textdocument';
+import { Statement } from './ast';
+import { parse } from './parser';
+import { resolveModuleFile } from './modules';
+
+// Routes declared across a workspace, with forwarded modules mounted under their prefix
+
+export interface RouteEndpoint {
+    kind: 'route';
+    // Undefined for `route "/path" =>` without a method
+    method?: string;
+    // Including the prefixes of the mounts it is reached through
+    path: string;
+    file: string;
+    position: Position;
+}
+
+export interface RouteMount {
+    kind: 'mount';
+    path: string;
+    module: string;
+    file: string;
+    position: Position;
+    // Undefined when the `use` for the module is missing or its file doesn't exist
+    moduleFile?: string;
+    children: RouteEntry[];
+}
+
+export type RouteEntry = RouteEndpoint | RouteMount;
+
+export interface RouteFile {
+    file: string;
+    // From `declare web @3000`
+    port?: number;
+    routes: RouteEntry[];
+}
+
+/**
+ * Collects the routes of `files`. Files that another file forwards to are not
+ * listed at the top level; their routes appear under the mount instead, with
+ * the mount's prefix.
+ *
+ * `readFile` returns the current text of a file, or undefined if it can't be read.
+ */
+export function collectRoutes(files: string[], readFile: (file: string) => string | undefined): RouteFile[] {
+    const parsed = new Map<string, Statement[]>();
+    const statementsOf = (file: string) => {
+        let statements = parsed.get(file);
+        if (!statements) {
+            const text = readFile(file);
+            statements = text === undefined ? [] : parse(text).program.body;
+            parsed.set(file, statements);
+        }
+        return statements;
+    };
+
+    const mounted = new Set<string>();
+    const routesOf = (file: string, prefix: string, visiting: Set<string>): RouteEntry[] => {
+        const statements = statementsOf(file);
+        const entries: RouteEntry[] = [];
+        for (const statement of statements) {
+            if (statement.kind !== 'RouteStatement') continue;
+            const routePath = joinRoutePath(prefix, statement.path.value);
+            if (!statement.forward) {
+                entries.push({ kind: 'route', method: statement.method?.name, path: routePath, file, position: statement.range.start });
+                continue;
+            }
+            const module = statement.forward.name;
+            const moduleFile = resolveUse(file, module, statements);
+            if (moduleFile) mounted.add(moduleFile);
+            // A module that forwards back to one being listed would never end
+            const children = moduleFile && !visiting.has(moduleFile)
+                ? routesOf(moduleFile, routePath, new Set([...visiting, moduleFile]))
+                : [];
+            entries.push({ kind: 'mount', path: routePath, module, file, position: statement.range.start, moduleFile, children });
+        }
+        return entries;
+    };
+
+    const result: RouteFile[] = [];
+    for (const file of files) {
+        const routes = routesOf(file, '', new Set([file]));
+        if (routes.length === 0) continue;
+        const declareWeb = statementsOf(file).find(statement => statement.kind === 'DeclareStatement' && statement.plugin.name === 'web');
+        const port = declareWeb?.kind === 'DeclareStatement' && declareWeb.argument ? Number(declareWeb.argument.value) : NaN;
+        result.push({ file, port: Number.isFinite(port) ? port : undefined, routes });
+    }
+    return result.filter(routeFile => !mounted.has(routeFile.file));
+}
+
+/** `/api` + `/users` is `/api/users`; `/api` + `/` is `/api`. */
+export function joinRoutePath(prefix: string, routePath: string): string {
+    const joined = `${prefix.replace(/\/+$/, '')}/${routePath.replace(/^\/+/, '')}`;
+    return joined.length > 1 ? joined.replace(/\/+$/, '') : joined;
+}
+
+// The file of the `use` statement that brings `module` into scope
+function resolveUse(file: string, module: string, statements: Statement[]): string | undefined {
+    const use = statements.find(statement => statement.kind === 'UseStatement' && statement.name.name === module);
+    return use?.kind === 'UseStatement' ? resolveModuleFile(file, module, use.path?.value) : undefined;
+}
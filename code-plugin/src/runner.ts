@@ -0,0 +1,177 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    Diagnostic,
+    DiagnosticCollection,
+    DiagnosticRelatedInformation,
+    DiagnosticSeverity,
+    Location,
+    OutputChannel,
+    Range,
+    Uri
+} from 'vscode';
+import { RuntimeError, RuntimeFrame, parseRuntimeErrors } from './runtimeErrors';
+import { SourceLine } from './selection';
+
+export interface RunOptions {
+    interpreter: string;
+    // Passed to the interpreter: relative to `cwd`, or absolute
+    programPath: string;
+    cwd: string;
+    // Set when the program was generated from another file, e.g. by Run Selection
+    sourceMap?: SourceMap;
+}
+
+export interface SourceMap {
+    sourceFile: string;
+    // One entry per line of the generated program
+    sourceLines: Array<SourceLine | undefined>;
+}
+
+/**
+ * Moves a frame in a generated program back to the line it was copied from.
+ * Undefined for lines that were added, which have no source.
+ */
+export function mapFrame(frame: RuntimeFrame, programFile: string, sourceMap?: SourceMap): RuntimeFrame | undefined {
+    if (!sourceMap || path.resolve(frame.file) !== path.resolve(programFile)) {
+        return frame;
+    }
+    const source = sourceMap.sourceLines[frame.line - 1];
+    if (!source) return undefined;
+    return { ...frame, file: sourceMap.sourceFile, line: source.line + 1, column: frame.column + source.columnOffset };
+}
+
+/**
+ * Runs Flick programs as a child process, streaming their output to the Flick
+ * output channel and turning runtime errors into diagnostics on the failing line.
+ */
+export class FlickRunner {
+    private running: ChildProcess | undefined;
+
+    constructor(
+        private readonly output: OutputChannel,
+        private readonly diagnostics: DiagnosticCollection
+    ) {}
+
+    /**
+     * Runs a program, stopping the previous one first. Resolves with the exit
+     * code, or null when the process was stopped or could not be started.
+     */
+    public run(options: RunOptions): Promise<number | null> {
+        this.stop();
+        const programFile = path.resolve(options.cwd, options.programPath);
+        // Errors from the previous run are stale whether or not this one reports any
+        this.diagnostics.clear();
+
+        this.output.clear();
+        this.output.show(true);
+        this.output.appendLine(`> ${options.interpreter} run ${options.programPath}`);
+
+        const child = spawn(options.interpreter, ['run', options.programPath], {
+            cwd: options.cwd,
+            // `flick` is usually a `.cmd` shim on Windows
+            shell: process.platform === 'win32'
+        });
+        this.running = child;
+        // Left open for `ask`, which is answered through `sendInput`. Writing after
+        // the program exits fails with EPIPE, which is nothing to report.
+        child.stdin?.on('error', () => {});
+
+        let captured = '';
+        const append = (data: Buffer) => {
+            const text = data.toString();
+            captured += text;
+            this.output.append(text);
+        };
+        child.stdout?.on('data', append);
+        child.stderr?.on('data', append);
+
+        return new Promise(resolve => {
+            child.on('error', error => {
+                this.output.appendLine(`Could not start the Flick interpreter '${options.interpreter}': ${error.message}`);
+                if (this.running === child) this.running = undefined;
+                resolve(null);
+            });
+            child.on('close', (code, signal) => {
+                // Replaced by a newer run, which owns the diagnostics now
+                if (this.running !== child) {
+                    resolve(null);
+                    return;
+                }
+                this.running = undefined;
+                this.output.appendLine(signal ? `\n[stopped]` : `\n[exited with code ${code}]`);
+
+                this.report(parseRuntimeErrors(captured, programFile, options.cwd), programFile, options.sourceMap);
+                resolve(code);
+            });
+        });
+    }
+
+    /**
+     * Writes a line to the running program's standard input. Returns false when
+     * no program is running.
+     */
+    public sendInput(text: string): boolean {
+        const stdin = this.running?.stdin;
+        if (!stdin || !stdin.writable) return false;
+        stdin.write(text + '\n');
+        this.output.appendLine(text);
+        return true;
+    }
+
+    public stop(): void {
+        const child = this.running;
+        this.running = undefined;
+        if (child && child.exitCode === null) {
+            child.kill();
+        }
+    }
+
+    public dispose(): void {
+        this.stop();
+    }
+
+    private report(errors: RuntimeError[], programFile: string, sourceMap?: SourceMap): void {
+        const byFile = new Map<string, Diagnostic[]>();
+        const lineTexts = new Map<string, string[]>();
+
+        for (const error of errors) {
+            const frames = error.frames
+                .map(frame => mapFrame(frame, programFile, sourceMap))
+                .filter((frame): frame is RuntimeFrame => frame !== undefined);
+            if (frames.length === 0) continue;
+
+            const [failing, ...callers] = frames;
+            const diagnostic = new Diagnostic(this.frameRange(failing, lineTexts), error.message, DiagnosticSeverity.Error);
+            diagnostic.source = 'flick runtime';
+            diagnostic.relatedInformation = callers.map((frame, index) => new DiagnosticRelatedInformation(
+                new Location(Uri.file(frame.file), this.frameRange(frame, lineTexts)),
+                `'${frames[index].task ?? 'task'}' called from ${frame.task ? `task '${frame.task}'` : 'top-level code'}`
+            ));
+            byFile.set(failing.file, [...(byFile.get(failing.file) ?? []), diagnostic]);
+        }
+
+        for (const [file, fileDiagnostics] of byFile) {
+            this.diagnostics.set(Uri.file(file), fileDiagnostics);
+        }
+    }
+
+    // From the reported column to the end of the line
+    private frameRange(frame: RuntimeFrame, lineTexts: Map<string, string[]>): Range {
+        let lines = lineTexts.get(frame.file);
+        if (!lines) {
+            try {
+                lines = fs.readFileSync(frame.file, 'utf8').split(/\r?\n/);
+            } catch {
+                lines = [];
+            }
+            lineTexts.set(frame.file, lines);
+        }
+        const line = Math.max(frame.line - 1, 0);
+        const text = lines[line] ?? '';
+        const firstNonBlank = text.length - text.trimStart().length;
+        const start = frame.column - 1 < text.length ? Math.max(frame.column - 1, firstNonBlank) : firstNonBlank;
+        return new Range(line, start, line, Math.max(text.length, start + 1));
+    }
+}
@@ -0,0 +1,70 @@
+import * as path from 'path';
+
+// Errors printed by the Flick interpreter when a program crashes
+
+export interface RuntimeFrame {
+    // Task the frame is in; undefined for top-level code
+    task?: string;
+    file: string;
+    // 1-based, as printed by the interpreter
+    line: number;
+    column: number;
+}
+
+export interface RuntimeError {
+    message: string;
+    // Innermost frame first; the first one is where the error was raised
+    frames: RuntimeFrame[];
+}
+
+// `RuntimeError: Variable 'x' is undefined`
+const ERROR_HEADER = /^\s*(?:\w*Error|error)\s*:\s*(.+)$/;
+// `    at greet (src/main.fk:12:5)` or `    at src/main.fk:20:1`
+const STACK_FRAME = /^\s+at\s+(?:(\S+)\s+\()?(.+?):(\d+):(\d+)\)?\s*$/;
+// `src/main.fk:12:5: Variable 'x' is undefined`
+const LOCATED_ERROR = /^(.+?\.(?:fk|flick)):(\d+):(\d+):\s*(?:\w*Error\s*:\s*)?(.+)$/;
+// `RuntimeError: Variable 'x' is undefined at line 12, column 5`
+const INLINE_LOCATION = /^(.+?)\s+at line (\d+)(?:,?\s*column (\d+))?\.?$/;
+
+/**
+ * Extracts runtime errors from interpreter output. Relative file names are
+ * resolved against `cwd`; errors that only give a line number are attributed
+ * to `entryFile`.
+ */
+export function parseRuntimeErrors(output: string, entryFile: string, cwd: string): RuntimeError[] {
+    const errors: RuntimeError[] = [];
+    const resolve = (file: string) => path.resolve(cwd, file);
+    let current: RuntimeError | undefined;
+
+    for (const line of output.split(/\r?\n/)) {
+        const frame = current && line.match(STACK_FRAME);
+        if (current && frame) {
+            current.frames.push({ task: frame[1], file: resolve(frame[2]), line: Number(frame[3]), column: Number(frame[4]) });
+            continue;
+        }
+        current = undefined;
+
+        const located = line.match(LOCATED_ERROR);
+        if (located) {
+            current = {
+                message: located[4].trim(),
+                frames: [{ file: resolve(located[1]), line: Number(located[2]), column: Number(located[3]) }]
+            };
+            errors.push(current);
+            continue;
+        }
+
+        const header = line.match(ERROR_HEADER);
+        if (header) {
+            current = { message: header[1].trim(), frames: [] };
+            const inline = current.message.match(INLINE_LOCATION);
+            if (inline) {
+                current.message = inline[1];
+                current.frames.push({ file: entryFile, line: Number(inline[2]), column: Number(inline[3] ?? 1) });
+            }
+            errors.push(current);
+        }
+    }
+    // Errors without any location cannot be shown in the editor
+    return errors.filter(error => error.frames.length > 0);
+}
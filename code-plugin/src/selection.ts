@@ -0,0 +1,140 @@
+import * as path from 'path';
+import { resolveModuleFile } from './modules';
+import { parse } from './parser';
+import { AstNode, DoBlock, Statement, UseStatement, VariableDeclaration, walk } from './ast';
+
+// Where a line of a generated program came from in the original file
+export interface SourceLine {
+    line: number;
+    // Indentation removed from the line
+    columnOffset: number;
+}
+
+export interface SelectionProgram {
+    text: string;
+    // One entry per line of `text`; undefined for added blank lines
+    sourceLines: Array<SourceLine | undefined>;
+}
+
+/**
+ * Builds a standalone program from lines `startLine`..`endLine` of a Flick file:
+ * the `declare` lines, then the `use`, `import`, top-level definitions and
+ * top-level `free`/`lock` variables the selection depends on (directly or
+ * through other definitions), in source order, then the selected lines
+ * themselves. Module paths are made absolute so the program can run from a
+ * temporary file.
+ */
+export function buildSelectionProgram(text: string, filePath: string, startLine: number, endLine: number): SelectionProgram {
+    const lines = text.split(/\r?\n/);
+    const statements = parse(text).program.body;
+    const overlapsSelection = (statement: Statement) =>
+        statement.range.start.line <= endLine && statement.range.end.line >= startLine;
+
+    // Top-level definitions outside the selection, by the name that pulls them in
+    const definitions = new Map<string, Statement>();
+    const doBlocksByGroup = new Map<string, DoBlock[]>();
+    const variables = new Map<string, VariableDeclaration[]>();
+    for (const statement of statements) {
+        if (overlapsSelection(statement)) continue;
+        if (statement.kind === 'TaskDeclaration' || statement.kind === 'GroupDeclaration' || statement.kind === 'BlueprintDeclaration') {
+            definitions.set(statement.name.name, statement);
+        } else if (statement.kind === 'VariableDeclaration') {
+            variables.set(statement.name.name, [...(variables.get(statement.name.name) ?? []), statement]);
+        } else if (statement.kind === 'DoBlock') {
+            doBlocksByGroup.set(statement.group.name, [...(doBlocksByGroup.get(statement.group.name) ?? []), statement]);
+        }
+    }
+
+    const referenced = new Set<string>();
+    const pending: string[] = [];
+    const collectNames = (node: AstNode, fromLine = 0, toLine = Infinity) => {
+        walk(node, child => {
+            if (child.kind === 'Identifier' && child.range.start.line >= fromLine && child.range.start.line <= toLine && !referenced.has(child.name)) {
+                referenced.add(child.name);
+                pending.push(child.name);
+            }
+        });
+    };
+    statements.filter(overlapsSelection).forEach(statement => collectNames(statement, startLine, endLine));
+
+    const carried = new Set<Statement>();
+    const carry = (statement: Statement) => {
+        if (carried.has(statement)) return;
+        carried.add(statement);
+        collectNames(statement);
+    };
+    while (pending.length > 0) {
+        const name = pending.pop()!;
+        const definition = definitions.get(name);
+        if (definition) carry(definition);
+        // Its initializer may read other variables or call tasks
+        variables.get(name)?.forEach(carry);
+        // A group brings the `do` blocks that implement blueprints for it
+        if (definition?.kind === 'GroupDeclaration') {
+            doBlocksByGroup.get(name)?.forEach(carry);
+        }
+    }
+
+    for (const statement of statements) {
+        if (overlapsSelection(statement)) continue;
+        if (statement.kind === 'DeclareStatement'
+            || (statement.kind === 'UseStatement' && referenced.has(statement.name.name))
+            || (statement.kind === 'ImportStatement'
+                && [statement.defaultImport, ...statement.namedImports.map(s => s.local)].some(id => id && referenced.has(id.name)))) {
+            carried.add(statement);
+        }
+    }
+
+    const output: string[] = [];
+    const sourceLines: Array<SourceLine | undefined> = [];
+    for (const statement of statements) {
+        if (!carried.has(statement)) continue;
+        if (statement.kind === 'UseStatement') {
+            output.push(absoluteUse(statement, filePath) ?? lines[statement.range.start.line]);
+            sourceLines.push({ line: statement.range.start.line, columnOffset: 0 });
+            continue;
+        }
+        for (let line = statement.range.start.line; line <= statement.range.end.line; line++) {
+            output.push(lines[line]);
+            sourceLines.push({ line, columnOffset: 0 });
+        }
+    }
+    if (output.length > 0) {
+        output.push('');
+        sourceLines.push(undefined);
+    }
+    const selected = lines.slice(startLine, endLine + 1);
+    const indent = commonIndent(selected);
+    selected.forEach((line, index) => {
+        const removed = Math.min(indent, line.match(/^\s*/)![0].length);
+        output.push(line.slice(removed));
+        sourceLines.push({ line: startLine + index, columnOffset: removed });
+    });
+    return { text: output.join('\n') + '\n', sourceLines };
+}
+
+// Numbers the programs this process writes, so each gets its own file
+let generatedPrograms = 0;
+
+/**
+ * Where to write a program generated from `sourceFile`: a hidden file next to
+ * it, so relative `import` paths and `node_modules` lookup resolve as they do
+ * for the original. `label` and a per-call suffix keep concurrent runs apart.
+ */
+export function generatedProgramFile(sourceFile: string, label: string): string {
+    const parsed = path.parse(sourceFile);
+    const suffix = `${process.pid}-${generatedPrograms++}`;
+    return path.join(parsed.dir, `.${parsed.name}.${label}.${suffix}${parsed.ext || '.fk'}`);
+}
+
+// `use X` with the module's resolved absolute path, when the file exists
+function absoluteUse(statement: UseStatement, filePath: string): string | undefined {
+    const resolved = resolveModuleFile(filePath, statement.name.name, statement.path?.value);
+    return resolved ? `use ${statement.name.name} ${JSON.stringify(resolved)}` : undefined;
+}
+
+// Indentation shared by every non-blank line; removed so a block body runs at the top level
+function commonIndent(lines: string[]): number {
+    const indents = lines.filter(line => line.trim().length > 0).map(line => line.match(/^\s*/)![0].length);
+    return indents.length > 0 ? Math.min(...indents) : 0;
+}
@@ -0,0 +1,75 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import { pathToFileURL } from 'node:url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { FlickAnalyzer } from '../analyzer';
+
+function diagnosticCodes(text: string): string[] {
+    const document = TextDocument.create('untitled:test.fk', 'flick', 1, text);
+    return new FlickAnalyzer().validateDocument(document).map(diagnostic => String(diagnostic.code));
+}
+
+describe('FlickAnalyzer', () => {
+    it('accepts a valid program', () => {
+        assert.deepEqual(diagnosticCodes([
+            'task greet with literal(name) =>',
+            '    print "Hello " and name',
+            'end',
+            'free who := "world"',
+            'greet who'
+        ].join('\n')), []);
+    });
+
+    it('builds nested scopes for tasks and their parameters', () => {
+        const document = TextDocument.create('untitled:test.fk', 'flick', 1, 'task add with num(a), num(b) =>\n    give a + b\nend\n');
+        const { rootScope } = new FlickAnalyzer().analyze(document);
+        const task = rootScope.symbols.get('add');
+        assert.equal(task?.type, 'task');
+        assert.deepEqual(task?.params?.map(param => param.name), ['a', 'b']);
+        const taskScope = rootScope.children.find(scope => scope.type === 'task');
+        assert.equal(taskScope?.symbols.get('a')?.type, 'parameter');
+    });
+
+    it('reports undefined variables but not names declared later in an outer scope', () => {
+        assert.deepEqual(diagnosticCodes('print missing\n'), ['undefined-variable']);
+        assert.deepEqual(diagnosticCodes('task run =>\n    helper\nend\ntask helper =>\n    print 1\nend\n'), []);
+    });
+
+    it('reports reassigning a lock binding', () => {
+        assert.deepEqual(diagnosticCodes('lock limit := 3\nlimit := 4\n'), ['immutable-reassignment']);
+    });
+
+    it('reports argument types and counts from the task signature', () => {
+        const signature = 'task double with num(n) =>\n    give n * 2\nend\n';
+        assert.deepEqual(diagnosticCodes(`${signature}double "two"\n`), ['argument-type']);
+        assert.deepEqual(diagnosticCodes(`${signature}double 1, 2\n`), ['argument-count']);
+    });
+
+    it('reports unknown members of groups', () => {
+        const program = 'group Player {\n    free score := 0\n}\nfree p := Player\nprint p.level\n';
+        assert.deepEqual(diagnosticCodes(program), ['unknown-member']);
+    });
+
+    it('reports a module member used without `use` as a missing import', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flick-analyzer-'));
+        try {
+            fs.writeFileSync(path.join(dir, 'util.fk'), 'task helper =>\n    print 1\nend\n');
+            const document = TextDocument.create(pathToFileURL(path.join(dir, 'main.fk')).toString(), 'flick', 1, 'util/helper\nmissing/helper\n');
+            const diagnostics = new FlickAnalyzer().validateDocument(document);
+            assert.deepEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.range.start.line]), [
+                ['module-not-imported', 0],
+                ['undefined-variable', 1]
+            ]);
+            assert.deepEqual(diagnostics[0].data, { module: 'util' });
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('reports unclosed blocks', () => {
+        assert.deepEqual(diagnosticCodes('task run =>\n    print 1\n'), ['unclosed-block']);
+    });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CallGraph, CallGraphNode, findCycles, findUncalledTasks, formatCallGraph } from '../callGraph';
+
+function task(name: string, container?: string): CallGraphNode {
+    return { id: `main.fk:${container ? `${container}/` : ''}${name}`, kind: 'task', name, container, file: 'main.fk', line: 1 };
+}
+
+const file: CallGraphNode = { id: 'main.fk', kind: 'file', name: 'main.fk', file: 'main.fk', line: 1 };
+
+// Top level calls a; a and b call each other; c calls itself; d is never called
+const graph: CallGraph = {
+    nodes: [file, task('a'), task('b'), task('c'), task('d', 'Player')],
+    edges: [
+        { from: 'main.fk', to: 'main.fk:a', calls: 1 },
+        { from: 'main.fk:a', to: 'main.fk:b', calls: 2 },
+        { from: 'main.fk:b', to: 'main.fk:a', calls: 1 },
+        { from: 'main.fk:c', to: 'main.fk:c', calls: 1 }
+    ]
+};
+
+describe('findUncalledTasks', () => {
+    it('lists tasks only called by themselves or not at all', () => {
+        assert.deepEqual(findUncalledTasks(graph), ['main.fk:c', 'main.fk:Player/d']);
+    });
+});
+
+describe('findCycles', () => {
+    it('finds mutual recursion and self-calls but not plain calls', () => {
+        assert.deepEqual(findCycles(graph), [['main.fk:a', 'main.fk:b'], ['main.fk:c']]);
+    });
+
+    it('returns nothing for an acyclic graph', () => {
+        assert.deepEqual(findCycles({ nodes: graph.nodes, edges: graph.edges.slice(0, 2) }), []);
+    });
+});
+
+describe('formatCallGraph', () => {
+    it('writes JSON with the uncalled tasks and cycles', () => {
+        const json = JSON.parse(formatCallGraph(graph, 'json'));
+        assert.equal(json.nodes.length, 5);
+        assert.equal(json.edges.length, 4);
+        assert.deepEqual(json.uncalled, ['main.fk:c', 'main.fk:Player/d']);
+        assert.deepEqual(json.cycles, [['main.fk:a', 'main.fk:b'], ['main.fk:c']]);
+    });
+
+    it('writes DOT with file clusters, dashed uncalled tasks and red cycle edges', () => {
+        const dot = formatCallGraph(graph, 'dot');
+        assert.match(dot, /^digraph calls \{/);
+        assert.match(dot, /subgraph cluster_0 \{\n {8}label="main\.fk";/);
+        assert.match(dot, /"main\.fk" \[label="\(top level\)", shape=ellipse\];/);
+        assert.match(dot, /"main\.fk:Player\/d" \[label="Player\/d", style=dashed, color=gray50\];/);
+        assert.match(dot, /"main\.fk:a" -> "main\.fk:b" \[label="2", color=red\];/);
+        assert.match(dot, /"main\.fk" -> "main\.fk:a";/);
+    });
+});
@@ -0,0 +1,200 @@
+import './vscodeStub';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { FlickDebugAdapter } from '../debugAdapter';
+import { InterpreterLauncher, launchSocketInterpreter } from '../debugConnection';
+import { StubInterpreter } from './stubInterpreter';
+
+// Drives an adapter; `send` resolves with the request's response
+function startSession(launcher: InterpreterLauncher, interpreterPath = 'flick') {
+    const adapter = new FlickDebugAdapter(interpreterPath, launcher);
+    const messages: any[] = [];
+    adapter.onDidSendMessage(message => messages.push(message));
+    let seq = 1;
+    const send = (command: string, args?: object) => new Promise<any>(resolve => {
+        const request = { seq: seq++, type: 'request', command, arguments: args };
+        adapter.onDidSendMessage((message: any) => {
+            if (message.type === 'response' && message.request_seq === request.seq) resolve(message);
+        });
+        adapter.handleMessage(request);
+    });
+    const events = (name: string) => messages.filter(message => message.type === 'event' && message.event === name);
+    return { messages, send, events };
+}
+
+describe('FlickDebugAdapter', () => {
+    it('launches the program and starts it once configuration is done', async () => {
+        const stub = new StubInterpreter();
+        const { send, events } = startSession(stub.launcher);
+        const launched = await send('launch', { program: '/work/main.fk', stopOnEntry: true });
+        assert.equal(launched.success, true);
+        assert.deepEqual(stub.launchedWith, { interpreter: 'flick', program: '/work/main.fk', cwd: '/work', args: [] });
+        assert.equal(events('initialized').length, 1);
+
+        const done = await send('configurationDone');
+        assert.equal(done.success, true);
+        assert.deepEqual(stub.requests, [{ command: 'start', args: { stopOnEntry: true } }]);
+    });
+
+    it('answers configurationDone once when the interpreter fails to start', async () => {
+        const stub = new StubInterpreter({ start: () => { throw new Error('Nothing to run.'); } });
+        const { send, messages } = startSession(stub.launcher);
+        await send('launch', { program: '/work/main.fk' });
+        const done = await send('configurationDone');
+        await new Promise(resolve => setImmediate(resolve));
+        assert.equal(done.success, false);
+        assert.equal(done.message, 'Nothing to run.');
+        assert.equal(messages.filter(message => message.type === 'response' && message.request_seq === done.request_seq).length, 1);
+    });
+
+    it('reports breakpoints where the interpreter placed them', async () => {
+        const stub = new StubInterpreter({
+            setBreakpoints: () => ({ breakpoints: [{ line: 3, verified: true }, { line: 9, verified: true }] })
+        });
+        const { send } = startSession(stub.launcher);
+        await send('launch', { program: '/work/main.fk' });
+        const response = await send('setBreakpoints', { source: { path: '/work/main.fk' }, breakpoints: [{ line: 2 }, { line: 9 }, { line: 40 }] });
+        assert.deepEqual(stub.requests[0], { command: 'setBreakpoints', args: { file: '/work/main.fk', lines: [2, 9, 40] } });
+        assert.deepEqual(response.body.breakpoints, [
+            { verified: true, line: 3 },
+            { verified: true, line: 9 },
+            { verified: false, line: 40 }
+        ]);
+    });
+
+    it('shows the task call stack and free/lock bindings with group fields when stopped', async () => {
+        const stub = new StubInterpreter({
+            stackTrace: () => ({ frames: [{ task: 'bump', file: '/work/main.fk', line: 3 }, { file: '/work/main.fk', line: 5, column: 1 }] }),
+            variables: () => ({
+                scopes: [{
+                    name: 'Locals',
+                    bindings: [
+                        { name: 'by', value: '2', type: 'num', mutable: false },
+                        { name: 'p', value: 'Player', type: 'Player', mutable: true, fields: [{ name: 'score', value: '0', type: 'num' }] }
+                    ]
+                }]
+            })
+        });
+        const { send, events } = startSession(stub.launcher);
+        await send('launch', { program: '/work/main.fk' });
+        stub.emit({ event: 'stopped', reason: 'breakpoint' });
+        assert.deepEqual(events('stopped')[0].body, { reason: 'breakpoint', description: undefined, threadId: 1, allThreadsStopped: true });
+
+        const stack = await send('stackTrace', { threadId: 1 });
+        assert.deepEqual(stack.body.stackFrames.map((frame: any) => [frame.name, frame.line]), [['bump', 3], ['<top level>', 5]]);
+
+        const scopes = await send('scopes', { frameId: 0 });
+        assert.deepEqual(scopes.body.scopes.map((scope: any) => [scope.name, scope.namedVariables]), [['Locals', 2]]);
+        const locals = await send('variables', { variablesReference: scopes.body.scopes[0].variablesReference });
+        assert.deepEqual(locals.body.variables.map((variable: any) => [variable.name, variable.type]), [['by', 'lock num'], ['p', 'free Player']]);
+        assert.deepEqual(locals.body.variables[0].presentationHint, { attributes: ['readOnly'] });
+
+        const fields = await send('variables', { variablesReference: locals.body.variables[1].variablesReference });
+        assert.deepEqual(fields.body.variables.map((variable: any) => [variable.name, variable.value, variable.type]), [['score', '0', 'num']]);
+        // Scopes are fetched once per stop
+        assert.equal(stub.requests.filter(request => request.command === 'variables').length, 1);
+    });
+
+    it('fails requests with malformed arguments or interpreter responses', async () => {
+        const stub = new StubInterpreter({ stackTrace: () => ({ frames: [{ task: 'bump', line: 3 }] }) });
+        const { send } = startSession(stub.launcher);
+        const launch = await send('launch', { program: '/work/main.fk', args: ['--verbose', 2] });
+        assert.equal(launch.success, false);
+        assert.equal(launch.message, '\'args\' in the launch configuration must be a list of strings.');
+
+        await send('launch', { program: '/work/main.fk' });
+        const stack = await send('stackTrace', { threadId: 1 });
+        assert.equal(stack.success, false);
+        assert.equal(stack.message, 'The interpreter sent a malformed \'frames\' response.');
+        const scopes = await send('scopes', {});
+        assert.equal(scopes.message, 'The \'frameId\' argument must be a number.');
+    });
+
+    it('ends the session when the program exits', async () => {
+        const stub = new StubInterpreter();
+        const { send, events } = startSession(stub.launcher);
+        await send('launch', { program: '/work/main.fk' });
+        stub.emit({ event: 'output', category: 'stdout', text: 'hello\n' });
+        stub.emit({ event: 'exited', code: 0 });
+        assert.deepEqual(events('output')[0].body, { category: 'stdout', output: 'hello\n' });
+        assert.deepEqual(events('exited')[0].body, { exitCode: 0 });
+        assert.equal(events('terminated').length, 1);
+        assert.equal(stub.stopped, true);
+
+        const response = await send('stackTrace', { threadId: 1 });
+        assert.equal(response.success, false);
+        assert.equal(response.message, 'The program is not running.');
+    });
+});
+
+// A `flick debug` stand-in that answers every request, then after `start` either
+// exits with code 3 or closes the connection and keeps running, without sending `exited`
+const INTERPRETER_SCRIPT = `
+const net = require('net');
+const args = process.argv.slice(2);
+const socket = net.connect(Number(args[args.indexOf('--port') + 1]), '127.0.0.1');
+let buffer = '';
+socket.setEncoding('utf8');
+socket.on('data', chunk => {
+    buffer += chunk;
+    let newline;
+    while ((newline = buffer.indexOf('\\n')) >= 0) {
+        const request = JSON.parse(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        socket.write(JSON.stringify({ id: request.id, result: {} }) + '\\n');
+        if (request.command !== 'start') continue;
+        if (args.includes('crash')) {
+            setTimeout(() => process.exit(3), 20);
+        } else {
+            setTimeout(() => socket.destroy(), 20);
+            setInterval(() => {}, 1000);
+        }
+    }
+});
+`;
+
+describe('FlickDebugAdapter with an interpreter process', { skip: process.platform === 'win32' }, () => {
+    let dir: string;
+    let interpreter: string;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flick-debug-'));
+        fs.writeFileSync(path.join(dir, 'interpreter.js'), INTERPRETER_SCRIPT);
+        interpreter = path.join(dir, 'flick');
+        fs.writeFileSync(interpreter, `#!/bin/sh\nexec ${JSON.stringify(process.execPath)} ${JSON.stringify(path.join(dir, 'interpreter.js'))} "$@"\n`, { mode: 0o755 });
+    });
+
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    // Resolves once the adapter has sent `terminated`
+    async function runUntilTerminated(args: string[]) {
+        const session = startSession(launchSocketInterpreter, interpreter);
+        const terminated = new Promise<void>(resolve => {
+            const check = setInterval(() => {
+                if (session.events('terminated').length > 0) {
+                    clearInterval(check);
+                    resolve();
+                }
+            }, 10);
+        });
+        assert.equal((await session.send('launch', { program: path.join(dir, 'main.fk'), args })).success, true);
+        assert.equal((await session.send('configurationDone')).success, true);
+        await terminated;
+        return session;
+    }
+
+    it('ends the session with the exit code when the interpreter crashes', async () => {
+        const { events } = await runUntilTerminated(['crash']);
+        assert.deepEqual(events('exited').map(event => event.body), [{ exitCode: 3 }]);
+        assert.equal(events('terminated').length, 1);
+    });
+
+    it('ends the session when the interpreter drops the connection', async () => {
+        const { events } = await runUntilTerminated([]);
+        assert.equal(events('exited').length, 1);
+        assert.equal(events('terminated').length, 1);
+    });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'node:assert/strict';
+import * as net from 'node:net';
+import { describe, it } from 'node:test';
+import { InterpreterEvent, SocketInterpreter } from '../debugConnection';
+
+// A SocketInterpreter on one end of a loopback connection and the socket a fake interpreter writes to
+async function connect(report: (text: string) => void): Promise<{ connection: SocketInterpreter; interpreter: net.Socket }> {
+    const server = net.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const accepted = new Promise<net.Socket>(resolve => server.once('connection', resolve));
+    const interpreter = net.connect((server.address() as net.AddressInfo).port, '127.0.0.1');
+    const socket = await accepted;
+    server.close();
+    return { connection: new SocketInterpreter(socket, report), interpreter };
+}
+
+function nextLine(socket: net.Socket): Promise<any> {
+    return new Promise(resolve => socket.once('data', data => resolve(JSON.parse(data.toString()))));
+}
+
+describe('SocketInterpreter', () => {
+    it('skips lines that are not debug messages and keeps reading', async () => {
+        const reported: string[] = [];
+        const { connection, interpreter } = await connect(text => reported.push(text));
+        const events: InterpreterEvent[] = [];
+        connection.onEvent(event => events.push(event));
+
+        const sent = nextLine(interpreter);
+        const result = connection.request('stackTrace');
+        const { id, command } = await sent;
+        assert.equal(command, 'stackTrace');
+        interpreter.write(`warning: not JSON\n42\n{"event":"exited"}\n{"event":"output","category":"stdout","text":"hi"}\n{"id":${id},"result":{"frames":[]}}\n`);
+
+        assert.deepEqual(await result, { frames: [] });
+        assert.deepEqual(events, [{ event: 'output', category: 'stdout', text: 'hi' }]);
+        assert.equal(reported.length, 3);
+        assert.match(reported[2], /\{"event":"exited"\}/);
+        assert.match(reported[0], /warning: not JSON/);
+        connection.close();
+        interpreter.destroy();
+    });
+
+    it('fails requests with the interpreter\'s error or when it disconnects', async () => {
+        const { connection, interpreter } = await connect(() => {});
+        const sent = nextLine(interpreter);
+        const failing = connection.request('pause');
+        interpreter.write(`{"id":${(await sent).id},"error":"Not running."}\n`);
+        await assert.rejects(failing, /Not running\./);
+
+        const pending = connection.request('continue');
+        interpreter.destroy();
+        await assert.rejects(pending, /disconnected/);
+        connection.close();
+    });
+});
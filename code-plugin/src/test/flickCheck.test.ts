@@ -0,0 +1,56 @@
+import * as assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+// Runs the compiled `flick-check` in `cwd`
+function flickCheck(cwd: string, ...args: string[]) {
+    const result = spawnSync(process.execPath, [path.join(__dirname, '..', 'flickCheck.js'), ...args], { cwd, encoding: 'utf8', timeout: 30000 });
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe('flick-check', () => {
+    let dir: string;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flick-check-'));
+        fs.writeFileSync(path.join(dir, 'clean.fk'), 'free count := 1\nprint count\n');
+        fs.writeFileSync(path.join(dir, 'broken.fk'), 'print missing\n');
+    });
+
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    it('exits with 0 when nothing is reported', () => {
+        const result = flickCheck(dir, 'clean.fk');
+        assert.equal(result.status, 0);
+        assert.equal(result.stdout, '0 errors, 0 warnings in 1 file\n');
+    });
+
+    it('exits with 1 and lists the errors', () => {
+        const result = flickCheck(dir, 'broken.fk', 'clean.fk');
+        assert.equal(result.status, 1);
+        assert.equal(result.stdout, [
+            'broken.fk:1:7: error: Variable \'missing\' is used outside its scope or is undefined [undefined-variable]',
+            '1 error, 0 warnings in 2 files',
+            ''
+        ].join('\n'));
+    });
+
+    it('reports unreadable files, exits with 2 and still checks the others', () => {
+        const unreadable = fs.mkdtempSync(path.join(os.tmpdir(), 'flick-check-'));
+        try {
+            fs.writeFileSync(path.join(unreadable, 'broken.fk'), 'print missing\n');
+            // A link to a file that doesn't exist is listed but can't be read
+            fs.symlinkSync(path.join(unreadable, 'nowhere.fk'), path.join(unreadable, 'gone.fk'));
+            const result = flickCheck(unreadable, '.');
+            assert.equal(result.status, 2);
+            assert.match(result.stderr, /^gone\.fk: ENOENT/);
+            assert.match(result.stdout, /^broken\.fk:1:7: error: /);
+            assert.match(result.stdout, /in 1 file\n$/);
+        } finally {
+            fs.rmSync(unreadable, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,46 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import { FormatOptions, format } from '../formatter';
+
+const spaces: FormatOptions = { tabSize: 4, insertSpaces: true };
+
+function formatted(text: string, options = spaces): string {
+    return format(text, options).join('\n');
+}
+
+describe('format', () => {
+    it('indents block bodies with spaces or tabs', () => {
+        const text = 'task greet with literal(name) =>\nprint name\nend\n';
+        assert.equal(formatted(text), 'task greet with literal(name) =>\n    print name\nend\n');
+        assert.equal(formatted(text, { tabSize: 4, insertSpaces: false }), 'task greet with literal(name) =>\n\tprint name\nend\n');
+    });
+
+    it('aligns maybe and otherwise with their assume', () => {
+        assert.equal(
+            formatted('assume x > 1 =>\n  print 1\n    maybe x > 0 =>\nprint 2\n otherwise =>\nprint 3\nend\n'),
+            'assume x > 1 =>\n    print 1\nmaybe x > 0 =>\n    print 2\notherwise =>\n    print 3\nend\n'
+        );
+    });
+
+    it('indents select cases and multi-line object literals', () => {
+        assert.equal(formatted('select x =>\nwhen 1 =>\nprint 1\nend\n'), 'select x =>\n    when 1 =>\n        print 1\nend\n');
+        assert.equal(formatted('free o := {\nname: "x",\nsize: 2\n}\n'), 'free o := {\n    name: "x",\n    size: 2\n}\n');
+    });
+
+    it('spaces := and == but leaves strings and comments alone', () => {
+        assert.equal(
+            formatted('free a:=1\nfree b  ==  2\nprint "a:=b  # x"   # keep  this\n'),
+            'free a := 1\nfree b == 2\nprint "a:=b  # x"   # keep  this\n'
+        );
+    });
+
+    it('formats the examples the same way twice', () => {
+        const examples = path.join(__dirname, '..', '..', 'examples');
+        for (const file of fs.readdirSync(examples).filter(name => name.endsWith('.fk'))) {
+            const once = formatted(fs.readFileSync(path.join(examples, file), 'utf8'));
+            assert.equal(formatted(once), once, file);
+        }
+    });
+});
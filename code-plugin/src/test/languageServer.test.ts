@@ -0,0 +1,99 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { after, before, describe, it } from 'node:test';
+import { pathToFileURL } from 'node:url';
+import {
+    createConnection,
+    createMessageConnection,
+    Location,
+    MessageConnection,
+    ProposedFeatures,
+    SemanticTokens,
+    SemanticTokensDelta,
+    StreamMessageReader,
+    StreamMessageWriter
+} from 'vscode-languageserver/node';
+import { FlickLanguageServer } from '../languageServer';
+
+// A server on in-memory streams, initialized without a workspace
+async function startServer(): Promise<MessageConnection> {
+    const toServer = new PassThrough();
+    const toClient = new PassThrough();
+    new FlickLanguageServer(createConnection(ProposedFeatures.all, new StreamMessageReader(toServer), new StreamMessageWriter(toClient)));
+    const client = createMessageConnection(new StreamMessageReader(toClient), new StreamMessageWriter(toServer));
+    client.listen();
+    await client.sendRequest('initialize', { processId: null, rootUri: null, capabilities: {} });
+    await client.sendNotification('initialized', {});
+    return client;
+}
+
+describe('FlickLanguageServer', () => {
+    const uri = 'untitled:tokens.fk';
+    let client: MessageConnection;
+
+    before(async () => {
+        client = await startServer();
+        await client.sendNotification('textDocument/didOpen', {
+            textDocument: { uri, languageId: 'flick', version: 1, text: 'free count := 1\ntask bump with num(by) =>\n    count := count + by\nend\nbump 2\n' }
+        });
+    });
+
+    after(async () => {
+        await client.sendNotification('textDocument/didClose', { textDocument: { uri } });
+        await client.sendRequest('shutdown');
+        client.dispose();
+    });
+
+    it('returns the same semantic tokens for repeated full requests', async () => {
+        const first: SemanticTokens = await client.sendRequest('textDocument/semanticTokens/full', { textDocument: { uri } });
+        const second: SemanticTokens = await client.sendRequest('textDocument/semanticTokens/full', { textDocument: { uri } });
+        assert.ok(first.data.length > 0);
+        assert.deepEqual(second.data, first.data);
+    });
+
+    it('diffs a delta request against the last full result', async () => {
+        const full: SemanticTokens = await client.sendRequest('textDocument/semanticTokens/full', { textDocument: { uri } });
+        const delta: SemanticTokensDelta = await client.sendRequest('textDocument/semanticTokens/full/delta', { textDocument: { uri }, previousResultId: full.resultId });
+        assert.deepEqual(delta.edits, []);
+    });
+});
+
+describe('FlickLanguageServer type definitions', () => {
+    let dir: string;
+    let uri: string;
+    let client: MessageConnection;
+
+    before(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flick-server-'));
+        fs.writeFileSync(path.join(dir, 'shapes.fk'), 'free unused := 0\ngroup Square {\n    free size := 1\n}\n');
+        uri = pathToFileURL(path.join(dir, 'main.fk')).toString();
+        client = await startServer();
+        await client.sendNotification('textDocument/didOpen', {
+            textDocument: { uri, languageId: 'flick', version: 1, text: 'use shapes\ngroup Player {\n    free score := 0\n}\nfree p := Player\nfree s := shapes/Square\n' }
+        });
+    });
+
+    after(async () => {
+        await client.sendNotification('textDocument/didClose', { textDocument: { uri } });
+        await client.sendRequest('shutdown');
+        client.dispose();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const typeDefinition = (line: number, character: number): Promise<Location | null> =>
+        client.sendRequest('textDocument/typeDefinition', { textDocument: { uri }, position: { line, character } });
+
+    it('finds groups declared in the document', async () => {
+        assert.deepEqual(await typeDefinition(4, 5), { uri, range: { start: { line: 1, character: 6 }, end: { line: 1, character: 12 } } });
+    });
+
+    it('finds groups declared in a used module, in that module', async () => {
+        assert.deepEqual(await typeDefinition(5, 5), {
+            uri: pathToFileURL(path.join(dir, 'shapes.fk')).toString(),
+            range: { start: { line: 1, character: 6 }, end: { line: 1, character: 12 } }
+        });
+    });
+});
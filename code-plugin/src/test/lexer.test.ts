@@ -0,0 +1,46 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { tokenize } from '../lexer';
+
+function significant(text: string) {
+    return tokenize(text).tokens.filter(token => token.type !== 'eof');
+}
+
+describe('tokenize', () => {
+    it('prefers the longest operator', () => {
+        assert.deepEqual(significant('a := b == c => d').map(token => token.value), ['a', ':=', 'b', '==', 'c', '=>', 'd']);
+    });
+
+    it('tells keywords from identifiers', () => {
+        assert.deepEqual(significant('free total').map(token => token.type), ['keyword', 'identifier']);
+    });
+
+    it('keeps escaped quotes inside strings', () => {
+        const [token] = significant('"say \\"hi\\""');
+        assert.equal(token.type, 'string');
+        assert.equal(token.value, '"say \\"hi\\""');
+    });
+
+    it('collects comments separately from tokens', () => {
+        const { tokens, comments } = tokenize('print 1 # one\n');
+        assert.deepEqual(comments.map(comment => comment.text), ['# one']);
+        assert.ok(tokens.every(token => !token.value.startsWith('#')));
+    });
+
+    it('ends an unterminated string at a trailing backslash and the newline after it', () => {
+        const { tokens, errors } = tokenize('print "abc\\\nfree x := 1\n');
+        assert.equal(errors.length, 1);
+        assert.equal(tokens[1].value, '"abc\\');
+        assert.equal(tokens[2].type, 'newline');
+        const free = tokens[3];
+        assert.equal(free.value, 'free');
+        assert.deepEqual(free.range.start, { line: 1, character: 0 });
+    });
+
+    it('stops at the end of the text after a final backslash', () => {
+        const { tokens, errors } = tokenize('"abc\\');
+        assert.equal(errors.length, 1);
+        assert.equal(tokens[0].value, '"abc\\');
+        assert.equal(tokens[0].end, 5);
+    });
+});
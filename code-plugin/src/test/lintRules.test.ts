@@ -0,0 +1,95 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { DiagnosticCode, applyLintRules, findLintConfig, readLintConfig, validateRules } from '../lintRules';
+
+function diagnostic(line: number, code?: string): Diagnostic {
+    return {
+        range: { start: { line, character: 0 }, end: { line, character: 1 } },
+        message: code ?? 'syntax',
+        severity: DiagnosticSeverity.Error,
+        code
+    };
+}
+
+describe('applyLintRules', () => {
+    it('changes the severity of configured rules and drops those turned off', () => {
+        const result = applyLintRules(
+            [diagnostic(0, DiagnosticCode.UndefinedVariable), diagnostic(1, DiagnosticCode.UnknownMember), diagnostic(2, DiagnosticCode.ArgumentType)],
+            'a\nb\nc\n',
+            { [DiagnosticCode.UndefinedVariable]: 'warning', [DiagnosticCode.UnknownMember]: 'off' }
+        );
+        assert.deepEqual(result.map(d => [d.code, d.severity]), [
+            [DiagnosticCode.UndefinedVariable, DiagnosticSeverity.Warning],
+            [DiagnosticCode.ArgumentType, DiagnosticSeverity.Error]
+        ]);
+    });
+
+    it('honors flick-disable-next-line for all rules or the listed ones', () => {
+        const text = [
+            '# flick-disable-next-line',
+            'print a',
+            '# flick-disable-next-line unknown-member, argument-count',
+            'print b',
+            'print c'
+        ].join('\n');
+        const result = applyLintRules(
+            [diagnostic(1, DiagnosticCode.UndefinedVariable), diagnostic(3, DiagnosticCode.UndefinedVariable), diagnostic(3, DiagnosticCode.UnknownMember), diagnostic(4, DiagnosticCode.UnknownMember)],
+            text,
+            {}
+        );
+        assert.deepEqual(result.map(d => [d.range.start.line, d.code]), [[3, DiagnosticCode.UndefinedVariable], [4, DiagnosticCode.UnknownMember]]);
+    });
+
+    it('keeps diagnostics without a rule ID, such as syntax errors', () => {
+        assert.equal(applyLintRules([diagnostic(1)], '# flick-disable-next-line\nprint (', {}).length, 1);
+    });
+});
+
+describe('validateRules', () => {
+    it('keeps known rules with valid severities and reports the rest', () => {
+        const reported: string[] = [];
+        const rules = validateRules({ 'undefined-variable': 'hint', 'no-such-rule': 'off', 'unknown-member': 'loud' }, 'settings', message => reported.push(message));
+        assert.deepEqual(rules, { 'undefined-variable': 'hint' });
+        assert.deepEqual(reported, [
+            'settings: unknown lint rule \'no-such-rule\'',
+            'settings: \'unknown-member\' must be one of error, warning, info, hint or off'
+        ]);
+    });
+
+    it('rejects rules that are not an object', () => {
+        const reported: string[] = [];
+        assert.deepEqual(validateRules(['undefined-variable'], 'settings', message => reported.push(message)), {});
+        assert.equal(reported.length, 1);
+    });
+});
+
+describe('lint config files', () => {
+    let root: string;
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'flick-lint-'));
+        fs.mkdirSync(path.join(root, 'src', 'nested'), { recursive: true });
+        fs.writeFileSync(path.join(root, '.flickrc'), JSON.stringify({ rules: { 'unknown-member': 'off' } }));
+        fs.writeFileSync(path.join(root, 'src', 'flick.json'), '{ "rules": ');
+    });
+
+    after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+    it('finds the nearest config without leaving the workspace', () => {
+        assert.equal(findLintConfig(path.join(root, 'src', 'nested', 'main.fk'), [root]), path.join(root, 'src', 'flick.json'));
+        assert.equal(findLintConfig(path.join(root, 'main.fk'), [root]), path.join(root, '.flickrc'));
+        assert.equal(findLintConfig(path.join(root, 'src', 'nested', 'main.fk'), [path.join(root, 'src', 'nested')]), undefined);
+    });
+
+    it('reads the rules, reporting files that are not JSON', () => {
+        const reported: string[] = [];
+        assert.deepEqual(readLintConfig(path.join(root, '.flickrc'), message => reported.push(message)), { 'unknown-member': 'off' });
+        assert.deepEqual(readLintConfig(path.join(root, 'src', 'flick.json'), message => reported.push(message)), {});
+        assert.equal(reported.length, 1);
+        assert.match(reported[0], /^Could not read lint config/);
+    });
+});
@@ -0,0 +1,139 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { NpmPackageResolver, flickType, namedType } from '../npmPackages';
+
+// Writes `files` (path relative to `root` -> content) and returns `root`
+function writeTree(root: string, files: Record<string, string>): string {
+    for (const [file, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), content);
+    }
+    return root;
+}
+
+describe('NpmPackageResolver', () => {
+    let project: string;
+    const modules = (file: string) => path.join(project, 'node_modules', file);
+    const resolver = new NpmPackageResolver();
+
+    before(() => {
+        project = writeTree(fs.mkdtempSync(path.join(os.tmpdir(), 'flick-npm-')), {
+            'node_modules/supa/package.json': JSON.stringify({ name: 'supa', main: 'dist/index.js', types: 'dist/index.d.ts' }),
+            'node_modules/supa/dist/index.js': '',
+            'node_modules/supa/dist/index.d.ts': [
+                '/** A query against one table. */',
+                'export interface Query<T> {',
+                '    /** Picks the columns to return. */',
+                '    select(columns?: string): Query<T>;',
+                '    limit(count: number): Promise<T[]>;',
+                '}',
+                'export declare class SupaClient {',
+                '    readonly url: string;',
+                '    from(table: string): Query<any>;',
+                '}',
+                '/**',
+                ' * Creates a client for the project at `url`.',
+                ' */',
+                'export declare function createClient(url: string, key: string, options?: object): SupaClient;',
+                'export declare const VERSION: string;',
+                ''
+            ].join('\n'),
+            'node_modules/legacy/package.json': JSON.stringify({ name: 'legacy', main: 'index.js' }),
+            'node_modules/legacy/index.js': '',
+            'node_modules/@types/legacy/package.json': JSON.stringify({ name: '@types/legacy', types: 'index.d.ts' }),
+            'node_modules/@types/legacy/index.d.ts': [
+                'declare namespace legacy {',
+                '    /** Fetches a page. */',
+                '    function get(url: string): Promise<Response>;',
+                '    interface Response { status: number; body: string }',
+                '}',
+                'export = legacy;',
+                ''
+            ].join('\n'),
+            'node_modules/plainjs/package.json': JSON.stringify({ name: 'plainjs', main: 'lib.js' }),
+            'node_modules/plainjs/lib.js': '',
+            'node_modules/@scope/tools/package.json': JSON.stringify({ name: '@scope/tools', exports: { '.': { types: './index.d.ts', default: './index.js' } } }),
+            'node_modules/@scope/tools/index.d.ts': 'export * from \'./helpers\';\n',
+            'node_modules/@scope/tools/helpers.d.ts': 'export declare function slugify(text: string): string;\n',
+            'node_modules/odd/package.json': JSON.stringify({ name: 'odd', types: 42, typings: 'lib/odd.d.ts', main: ['lib.js'] }),
+            'node_modules/odd/lib/odd.d.ts': 'export declare const ODD: number;\n',
+            'node_modules/odd/index.js': '',
+            'node_modules/nulled/package.json': 'null',
+            'node_modules/nulled/index.js': '',
+            'src/app.fk': ''
+        });
+    });
+
+    after(() => fs.rmSync(project, { recursive: true, force: true }));
+
+    it('resolves packages from the node_modules folders above the importing file', () => {
+        const src = path.join(project, 'src');
+        assert.deepEqual(resolver.resolve(src, 'supa'), { name: 'supa', typesFile: modules('supa/dist/index.d.ts'), entryFile: modules('supa/dist/index.js') });
+        assert.deepEqual(resolver.resolve(src, 'legacy'), { name: 'legacy', typesFile: modules('@types/legacy/index.d.ts'), entryFile: modules('legacy/index.js') });
+        assert.deepEqual(resolver.resolve(src, 'plainjs'), { name: 'plainjs', typesFile: undefined, entryFile: modules('plainjs/lib.js') });
+        assert.equal(resolver.resolve(src, '@scope/tools')?.typesFile, modules('@scope/tools/index.d.ts'));
+        assert.deepEqual(resolver.resolve(src, 'node:fs'), { name: 'node:fs' });
+        // Fields of the wrong type, or a manifest that isn't an object, count as missing
+        assert.deepEqual(resolver.resolve(src, 'odd'), { name: 'odd', typesFile: modules('odd/lib/odd.d.ts'), entryFile: modules('odd/index.js') });
+        assert.deepEqual(resolver.resolve(src, 'nulled'), { name: 'nulled', typesFile: undefined, entryFile: modules('nulled/index.js') });
+        assert.equal(resolver.resolve(src, 'missing'), undefined);
+    });
+
+    it('reads exported functions with their parameters, return type and JSDoc', () => {
+        const [createClient] = resolver.findExport(modules('supa/dist/index.d.ts'), 'createClient')!;
+        assert.equal(createClient.kind, 'function');
+        assert.equal(createClient.signature, 'function createClient(url: string, key: string, options?: object): SupaClient');
+        assert.equal(createClient.documentation, 'Creates a client for the project at `url`.');
+        assert.deepEqual(createClient.params?.map(param => [param.name, param.type, param.optional ?? false]), [
+            ['url', 'string', false],
+            ['key', 'string', false],
+            ['options', 'object', true]
+        ]);
+        assert.equal(createClient.type, 'SupaClient');
+        assert.deepEqual(resolver.exportNames(modules('supa/dist/index.d.ts')), ['Query', 'SupaClient', 'VERSION', 'createClient']);
+    });
+
+    it('finds the members of returned types', () => {
+        const file = modules('supa/dist/index.d.ts');
+        const client = resolver.findType(file, namedType('SupaClient')!)!;
+        assert.deepEqual(resolver.membersOf(client).map(member => member.name), ['url', 'from']);
+        const query = resolver.findType(file, namedType('Query<any>')!)!;
+        assert.deepEqual(resolver.membersOf(query).map(member => [member.name, member.documentation]), [
+            ['select', 'Picks the columns to return.'],
+            ['limit', undefined]
+        ]);
+    });
+
+    it('follows export = and export * from', () => {
+        const legacy = modules('@types/legacy/index.d.ts');
+        assert.equal(resolver.findExport(legacy, 'get')?.[0].documentation, 'Fetches a page.');
+        // The namespace itself is the default import
+        assert.deepEqual(resolver.exportNames(legacy), ['Response', 'default', 'get']);
+        assert.deepEqual(resolver.findType(legacy, 'Response')?.members?.map(member => member.name), ['status', 'body']);
+        assert.equal(resolver.findExport(modules('@scope/tools/index.d.ts'), 'slugify')?.[0].type, 'string');
+    });
+
+    it('lists installed packages for completion, without @types', () => {
+        // Folders above the temporary directory may have packages of their own
+        const installed = resolver.installedPackages(path.join(project, 'src'));
+        for (const name of ['@scope/tools', 'legacy', 'nulled', 'odd', 'plainjs', 'supa']) {
+            assert.ok(installed.includes(name), name);
+        }
+        assert.ok(!installed.some(name => name.startsWith('@types')));
+    });
+});
+
+describe('npm types', () => {
+    it('maps TypeScript types to the names Flick looks members up on', () => {
+        assert.equal(namedType('Promise<SupaClient | null>'), 'SupaClient');
+        assert.equal(namedType('Stripe.Customer<Meta>'), 'Stripe.Customer');
+        assert.equal(namedType('(value: string) => void'), undefined);
+        assert.equal(flickType('Promise<string>'), 'literal');
+        assert.equal(flickType('number | undefined'), 'num');
+        assert.equal(flickType('ReadonlyArray<string>'), 'list');
+        assert.equal(flickType('object'), undefined);
+    });
+});
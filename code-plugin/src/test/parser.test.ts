@@ -0,0 +1,66 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parse } from '../parser';
+
+describe('parse', () => {
+    it('parses tasks with typed parameters and a body', () => {
+        const { program, errors } = parse('task greet with literal(name), num(times) =>\n    print name\nend\n');
+        assert.deepEqual(errors, []);
+        const task = program.body[0];
+        assert.equal(task.kind, 'TaskDeclaration');
+        if (task.kind !== 'TaskDeclaration') return;
+        assert.equal(task.name.name, 'greet');
+        assert.deepEqual(task.params.map(p => [p.typeAnnotation.name, p.name.name]), [['literal', 'name'], ['num', 'times']]);
+        assert.equal(task.body?.[0].kind, 'PrintStatement');
+        assert.deepEqual(task.range.end, { line: 2, character: 3 });
+    });
+
+    it('groups assume, maybe and otherwise branches under one statement', () => {
+        const { program, errors } = parse('assume x > 1 =>\n    print 1\nmaybe x > 0 =>\n    print 2\notherwise =>\n    print 3\nend\n');
+        assert.deepEqual(errors, []);
+        const statement = program.body[0];
+        assert.equal(statement.kind, 'AssumeStatement');
+        if (statement.kind !== 'AssumeStatement') return;
+        assert.deepEqual(statement.branches.map(branch => branch.keyword), ['assume', 'maybe', 'otherwise']);
+    });
+
+    it('parses groups with fields and member calls', () => {
+        const { program, errors } = parse('group Player {\n    free score := 0\n}\nfree p := Player\np/addScore 10, 2\n');
+        assert.deepEqual(errors, []);
+        assert.deepEqual(program.body.map(statement => statement.kind), ['GroupDeclaration', 'VariableDeclaration', 'ExpressionStatement']);
+        const call = program.body[2];
+        assert.ok(call.kind === 'ExpressionStatement' && call.expression.kind === 'CallExpression');
+        assert.equal(call.expression.args.length, 2);
+        assert.equal(call.expression.callee.kind, 'MemberExpression');
+    });
+
+    it('continues multi-line expressions inside brackets', () => {
+        const { program, errors } = parse('lock config := {\n    port: 8080,\n    host: "localhost"\n}\n');
+        assert.deepEqual(errors, []);
+        const declaration = program.body[0];
+        assert.ok(declaration.kind === 'VariableDeclaration' && declaration.initializer?.kind === 'ObjectLiteral');
+        assert.equal(declaration.initializer.properties.length, 2);
+    });
+
+    it('keeps # inside strings out of comments', () => {
+        const { program, comments } = parse('print "a # b" # trailing\n');
+        assert.equal(comments.length, 1);
+        assert.equal(comments[0].text, '# trailing');
+        const print = program.body[0];
+        assert.ok(print.kind === 'PrintStatement' && print.value?.kind === 'StringLiteral');
+        assert.equal(print.value.value, 'a # b');
+    });
+
+    it('reports unclosed blocks with the missing closer', () => {
+        const { errors } = parse('task run =>\n    print 1\n');
+        const unclosed = errors.find(error => error.block);
+        assert.ok(unclosed);
+        assert.equal(unclosed.closer, 'end');
+    });
+
+    it('recovers at the next line after a syntax error', () => {
+        const { program, errors } = parse('free := 3\nprint "still parsed"\n');
+        assert.ok(errors.length > 0);
+        assert.ok(program.body.some(statement => statement.kind === 'PrintStatement'));
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import { PluginRegistry } from '../plugins';
+
+describe('PluginRegistry', () => {
+    const bundled = path.join(__dirname, '..', '..', 'plugins');
+
+    it('reports malformed definitions instead of loading them', () => {
+        const errors: string[] = [];
+        const registry = new PluginRegistry(bundled, message => errors.push(message));
+        registry.loadDefinition({ name: 'clock', argument: null }, 'clock');
+        registry.loadDefinition({ name: 'chat', keywords: ['say', 3] }, 'chat');
+        registry.loadDefinition({ name: 'mail', tasks: [{ name: 'send', namedArguments: 'to' }] }, 'mail');
+        assert.deepEqual(errors, [
+            `Invalid plugin definition clock: 'argument.type' must be 'num' or 'literal'`,
+            `Invalid plugin definition chat: 'keywords' must be an array of strings`,
+            `Invalid plugin definition mail: 'namedArguments' of 'send' must be an array of strings`
+        ]);
+        assert.deepEqual(['clock', 'chat', 'mail'].map(name => registry.get(name)), [undefined, undefined, undefined]);
+    });
+
+    it('loads the bundled definitions', () => {
+        const errors: string[] = [];
+        const registry = new PluginRegistry(bundled, message => errors.push(message));
+        assert.equal(registry.get('web')?.name, 'web');
+        assert.deepEqual(errors, []);
+    });
+});
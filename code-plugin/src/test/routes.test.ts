@@ -0,0 +1,81 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { RouteEntry, collectRoutes, joinRoutePath } from '../routes';
+
+// `METHOD path` for endpoints and `path -> module` with the children for mounts
+function outline(entries: RouteEntry[]): unknown[] {
+    return entries.map(entry => entry.kind === 'route'
+        ? `${entry.method ?? 'ANY'} ${entry.path}`
+        : { [`${entry.path} -> ${entry.module}`]: outline(entry.children) });
+}
+
+describe('joinRoutePath', () => {
+    it('joins with a single slash and drops trailing ones', () => {
+        assert.equal(joinRoutePath('/api', '/users'), '/api/users');
+        assert.equal(joinRoutePath('/api/', 'users/'), '/api/users');
+        assert.equal(joinRoutePath('/api', '/'), '/api');
+        assert.equal(joinRoutePath('', '/'), '/');
+    });
+});
+
+describe('collectRoutes', () => {
+    let dir: string;
+    const file = (name: string) => path.join(dir, name);
+    const read = (name: string) => fs.existsSync(name) ? fs.readFileSync(name, 'utf8') : undefined;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flick-routes-'));
+        fs.writeFileSync(file('server.fk'), [
+            'declare web @8080',
+            'use api',
+            'route GET "/" =>',
+            '    respond "home"',
+            'end',
+            'route "/api" -> api',
+            ''
+        ].join('\n'));
+        fs.writeFileSync(file('api.fk'), [
+            'use users "./users"',
+            'route GET "/status" =>',
+            '    respond "ok"',
+            'end',
+            'route "/users" -> users',
+            ''
+        ].join('\n'));
+        // Forwards back to the module that mounts it
+        fs.writeFileSync(file('users.fk'), 'use api\nroute POST "/" =>\n    respond "created"\nend\nroute "/loop" -> api\n');
+        fs.writeFileSync(file('plain.fk'), 'print 1\n');
+    });
+
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    it('nests forwarded modules under their prefix and lists them only there', () => {
+        const routes = collectRoutes(['server.fk', 'api.fk', 'users.fk', 'plain.fk'].map(file), read);
+        assert.deepEqual(routes.map(routeFile => [path.basename(routeFile.file), routeFile.port]), [['server.fk', 8080]]);
+        assert.deepEqual(outline(routes[0].routes), [
+            'GET /',
+            {
+                '/api -> api': [
+                    'GET /api/status',
+                    { '/api/users -> users': ['POST /api/users', { '/api/users/loop -> api': [] }] }
+                ]
+            }
+        ]);
+    });
+
+    it('keeps mounts whose module cannot be found', () => {
+        const routes = collectRoutes([file('orphan.fk')], name => name === file('orphan.fk') ? 'route "/x" -> missing\n' : undefined);
+        assert.deepEqual(routes[0].routes, [{
+            kind: 'mount',
+            path: '/x',
+            module: 'missing',
+            file: file('orphan.fk'),
+            position: { line: 0, character: 0 },
+            moduleFile: undefined,
+            children: []
+        }]);
+    });
+});
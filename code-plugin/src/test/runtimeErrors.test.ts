@@ -0,0 +1,50 @@
+import './vscodeStub';
+import * as assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import { mapFrame } from '../runner';
+import { parseRuntimeErrors } from '../runtimeErrors';
+
+const cwd = path.resolve('/work');
+const entryFile = path.join(cwd, 'src', 'main.fk');
+
+describe('parseRuntimeErrors', () => {
+    it('reads stack traces, innermost frame first', () => {
+        const output = 'hello\nRuntimeError: Variable \'x\' is undefined\n    at greet (src/main.fk:12:5)\n    at src/main.fk:20:1\n';
+        assert.deepEqual(parseRuntimeErrors(output, entryFile, cwd), [{
+            message: 'Variable \'x\' is undefined',
+            frames: [
+                { task: 'greet', file: entryFile, line: 12, column: 5 },
+                { task: undefined, file: entryFile, line: 20, column: 1 }
+            ]
+        }]);
+    });
+
+    it('reads errors prefixed with a location and errors that only give a line', () => {
+        const output = 'src/util.fk:3:7: TypeError: bad\nError: boom at line 4, column 2\n';
+        assert.deepEqual(parseRuntimeErrors(output, entryFile, cwd), [
+            { message: 'bad', frames: [{ file: path.join(cwd, 'src', 'util.fk'), line: 3, column: 7 }] },
+            { message: 'boom', frames: [{ file: entryFile, line: 4, column: 2 }] }
+        ]);
+    });
+
+    it('ignores ordinary output', () => {
+        assert.deepEqual(parseRuntimeErrors('Score: 10\nat home\n', entryFile, cwd), []);
+    });
+});
+
+describe('mapFrame', () => {
+    const programFile = path.join(cwd, '.selection', 'main.selection.fk');
+    const sourceMap = { sourceFile: entryFile, sourceLines: [{ line: 2, columnOffset: 0 }, undefined, { line: 10, columnOffset: 4 }] };
+
+    it('moves frames in a generated program back to the original lines', () => {
+        assert.deepEqual(mapFrame({ file: programFile, line: 3, column: 2 }, programFile, sourceMap), { file: entryFile, line: 11, column: 6 });
+        assert.equal(mapFrame({ file: programFile, line: 2, column: 1 }, programFile, sourceMap), undefined);
+    });
+
+    it('leaves frames in other files as they are', () => {
+        const frame = { task: 'helper', file: path.join(cwd, 'src', 'util.fk'), line: 3, column: 1 };
+        assert.deepEqual(mapFrame(frame, programFile, sourceMap), frame);
+        assert.deepEqual(mapFrame(frame, programFile), frame);
+    });
+});
@@ -0,0 +1,114 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { resolveModuleFile } from '../modules';
+import { buildSelectionProgram, generatedProgramFile } from '../selection';
+
+describe('selection', () => {
+    let dir: string;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flick-selection-'));
+        fs.writeFileSync(path.join(dir, 'util.fk'), 'task helper =>\n    print 1\nend\n');
+        fs.mkdirSync(path.join(dir, 'lib'));
+        fs.writeFileSync(path.join(dir, 'lib', 'shapes.flick'), 'group Square {\n    free size := 1\n}\n');
+    });
+
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    describe('resolveModuleFile', () => {
+        it('finds `X.fk` or `X.flick` next to the file, or the explicit path', () => {
+            const main = path.join(dir, 'main.fk');
+            assert.equal(resolveModuleFile(main, 'util'), path.join(dir, 'util.fk'));
+            assert.equal(resolveModuleFile(main, 'shapes', './lib/shapes'), path.join(dir, 'lib', 'shapes.flick'));
+            assert.equal(resolveModuleFile(main, 'shapes'), undefined);
+            // A directory is not a module
+            assert.equal(resolveModuleFile(main, 'lib', './lib'), undefined);
+        });
+    });
+
+    describe('buildSelectionProgram', () => {
+        const text = [
+            'declare window',
+            'use util',
+            'task double with num(n) =>',
+            '    print n * 2',
+            'end',
+            'task unused =>',
+            '    print 0',
+            'end',
+            'free x := 1',
+            'assume x > 0 =>',
+            '    double x',
+            '    util/helper',
+            'end',
+            ''
+        ].join('\n');
+
+        it('carries declarations, used modules and called tasks ahead of the dedented selection', () => {
+            const program = buildSelectionProgram(text, path.join(dir, 'main.fk'), 10, 11);
+            assert.equal(program.text, [
+                'declare window',
+                `use util ${JSON.stringify(path.join(dir, 'util.fk'))}`,
+                'task double with num(n) =>',
+                '    print n * 2',
+                'end',
+                'free x := 1',
+                '',
+                'double x',
+                'util/helper',
+                ''
+            ].join('\n'));
+        });
+
+        it('carries the top-level variables the selection reads, with what their values need', () => {
+            const source = [
+                'lock base := 10',
+                'free unused := 0',
+                'task scale with num(n) =>',
+                '    give n * base',
+                'end',
+                'lock limit := scale 3',
+                'free count := 1',
+                'print count + limit',
+                ''
+            ].join('\n');
+            const program = buildSelectionProgram(source, path.join(dir, 'main.fk'), 7, 7);
+            assert.equal(program.text, [
+                'lock base := 10',
+                'task scale with num(n) =>',
+                '    give n * base',
+                'end',
+                'lock limit := scale 3',
+                'free count := 1',
+                '',
+                'print count + limit',
+                ''
+            ].join('\n'));
+        });
+
+        it('maps each generated line back to its source line and indentation', () => {
+            const program = buildSelectionProgram(text, path.join(dir, 'main.fk'), 10, 11);
+            assert.deepEqual(program.sourceLines.slice(4), [
+                { line: 4, columnOffset: 0 },
+                { line: 8, columnOffset: 0 },
+                undefined,
+                { line: 10, columnOffset: 4 },
+                { line: 11, columnOffset: 4 }
+            ]);
+        });
+    });
+
+    describe('generatedProgramFile', () => {
+        it('places each program in its own hidden file next to the source', () => {
+            const source = path.join(dir, 'main.fk');
+            const first = generatedProgramFile(source, 'selection');
+            const second = generatedProgramFile(source, 'selection');
+            assert.equal(path.dirname(first), dir);
+            assert.match(path.basename(first), /^\.main\.selection\..+\.fk$/);
+            assert.notEqual(first, second);
+        });
+    });
+});
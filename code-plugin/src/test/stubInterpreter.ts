@@ -0,0 +1,38 @@
+import { InterpreterConnection, InterpreterEvent, InterpreterLauncher, LaunchOptions } from '../debugConnection';
+
+/**
+ * Stands in for a running interpreter: records the requests the adapter sends,
+ * answers them from `responses`, and emits whatever events a test gives it.
+ */
+export class StubInterpreter implements InterpreterConnection {
+    public readonly requests: Array<{ command: string; args?: object }> = [];
+    public launchedWith: LaunchOptions | undefined;
+    public stopped = false;
+    private listeners: Array<(event: InterpreterEvent) => void> = [];
+
+    // A response that throws or rejects fails the request like an interpreter error
+    constructor(private readonly responses: Record<string, (args: any) => unknown> = {}) {}
+
+    public onEvent(listener: (event: InterpreterEvent) => void): void {
+        this.listeners.push(listener);
+    }
+
+    public async request(command: string, args?: object): Promise<unknown> {
+        this.requests.push({ command, args });
+        const respond = this.responses[command];
+        return respond ? await respond(args) : {};
+    }
+
+    public close(): void {
+        this.stopped = true;
+    }
+
+    public emit(event: InterpreterEvent): void {
+        this.listeners.forEach(listener => listener(event));
+    }
+
+    public readonly launcher: InterpreterLauncher = async options => {
+        this.launchedWith = options;
+        return { connection: this, stop: () => this.close() };
+    };
+}
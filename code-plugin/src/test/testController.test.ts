@@ -0,0 +1,58 @@
+import './vscodeStub';
+import * as assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import { buildTestProgram, testTasks } from '../testController';
+
+const text = [
+    'import { slugify } from "./strings"',
+    'lock expected := "a-b"',
+    'free unrelated := 0',
+    'task check with literal(value) =>',
+    '    assert value == expected',
+    'end',
+    'task test_slug =>',
+    '    check slugify "a b"',
+    'end',
+    'task test_needs_args with num(n) =>',
+    '    print n',
+    'end',
+    'task helper_test_like =>',
+    '    print 1',
+    'end',
+    'assume yes =>',
+    '    task test_nested =>',
+    '        print 1',
+    '    end',
+    'end',
+    ''
+].join('\n');
+
+describe('testTasks', () => {
+    it('finds top-level test_ tasks without parameters', () => {
+        assert.deepEqual(testTasks(text).map(task => task.name.name), ['test_slug']);
+    });
+});
+
+describe('buildTestProgram', () => {
+    it('carries the imports, constants and tasks the test uses, then calls it', () => {
+        const filePath = path.resolve('/work/strings_test.fk');
+        const program = buildTestProgram(text, filePath, testTasks(text)[0]);
+        assert.equal(program.text, [
+            'import { slugify } from "./strings"',
+            'lock expected := "a-b"',
+            'task check with literal(value) =>',
+            '    assert value == expected',
+            'end',
+            '',
+            'task test_slug =>',
+            '    check slugify "a b"',
+            'end',
+            'test_slug',
+            ''
+        ].join('\n'));
+        // The added call has no source line
+        assert.equal(program.sourceLines.length, program.text.split('\n').length - 1);
+        assert.deepEqual(program.sourceLines.slice(-2), [{ line: 8, columnOffset: 0 }, undefined]);
+    });
+});
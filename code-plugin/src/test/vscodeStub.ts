@@ -0,0 +1,30 @@
+import Module from 'module';
+
+// The `vscode` module only exists inside the extension host. Importing this
+// file first lets modules that need little more than its EventEmitter, such as
+// the debug adapter, load under the test runner.
+
+class EventEmitter<T> {
+    private listeners: Array<(value: T) => void> = [];
+
+    public readonly event = (listener: (value: T) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => { this.listeners = this.listeners.filter(candidate => candidate !== listener); } };
+    };
+
+    public fire(value: T): void {
+        this.listeners.slice().forEach(listener => listener(value));
+    }
+
+    public dispose(): void {
+        this.listeners = [];
+    }
+}
+
+const vscode = { EventEmitter };
+
+const loader = Module as unknown as { _load(request: string, ...rest: unknown[]): unknown };
+const load = loader._load;
+loader._load = function (request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? vscode : load.call(this, request, ...rest);
+};
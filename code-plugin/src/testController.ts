@@ -0,0 +1,288 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    CancellationToken,
+    CancellationTokenSource,
+    Disposable,
+    Location,
+    Position,
+    Range,
+    TestController,
+    TestItem,
+    TestMessage,
+    TestRunProfileKind,
+    TestRunRequest,
+    TextDocument,
+    Uri,
+    tests,
+    window,
+    workspace
+} from 'vscode';
+import { TaskDeclaration } from './ast';
+import { parse } from './parser';
+import { SourceMap, mapFrame } from './runner';
+import { RuntimeFrame, parseRuntimeErrors } from './runtimeErrors';
+import { SelectionProgram, buildSelectionProgram, generatedProgramFile } from './selection';
+
+// Test files are `*_test.fk` or `*_test.flick`; each top-level `test_*` task without parameters is a test
+const TEST_FILE_GLOB = '**/*_test.{fk,flick}';
+const TEST_FILE = /_test\.(fk|flick)$/;
+const TEST_TASK_PREFIX = 'test_';
+
+interface TestOutcome {
+    passed: boolean;
+    duration: number;
+    messages: TestMessage[];
+    output: string;
+}
+
+// Outcomes of a test file's tests, valid while the file still has `text`
+interface FileResults {
+    text: string;
+    outcomes: Map<string, TestOutcome>;
+}
+
+/**
+ * Shows the tests in `*_test.fk` files in the Test Explorer and runs each
+ * one through the interpreter as a program that calls the test task.
+ * Errors it prints, such as failed assertions, are reported at their line.
+ */
+export class FlickTestController implements Disposable {
+    private readonly controller: TestController;
+    private readonly disposables: Disposable[] = [];
+    // By test file path
+    private results: Map<string, FileResults> = new Map();
+
+    constructor(private readonly interpreterPath: () => string) {
+        this.controller = tests.createTestController('flickTests', 'Flick');
+        this.controller.resolveHandler = async item => {
+            if (!item) await this.discoverWorkspace();
+        };
+        this.controller.refreshHandler = () => this.discoverWorkspace();
+        this.controller.createRunProfile('Run', TestRunProfileKind.Run, (request, token) => this.runTests(request, token), true);
+
+        const watcher = workspace.createFileSystemWatcher(TEST_FILE_GLOB);
+        this.disposables.push(
+            this.controller,
+            watcher,
+            watcher.onDidCreate(uri => this.discoverFile(uri)),
+            watcher.onDidChange(uri => this.discoverFile(uri)),
+            watcher.onDidDelete(uri => {
+                this.controller.items.delete(uri.toString());
+                this.results.delete(uri.fsPath);
+            }),
+            workspace.onDidOpenTextDocument(document => this.updateFile(document)),
+            workspace.onDidChangeTextDocument(event => this.updateFile(event.document)),
+            workspace.onDidSaveTextDocument(document => this.documentSaved(document))
+        );
+        workspace.textDocuments.forEach(document => this.updateFile(document));
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private async discoverWorkspace(): Promise<void> {
+        const files = await workspace.findFiles(TEST_FILE_GLOB, '**/node_modules/**');
+        await Promise.all(files.map(uri => this.discoverFile(uri)));
+    }
+
+    private async discoverFile(uri: Uri): Promise<void> {
+        // Open documents are kept up to date from their unsaved text
+        const open = workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+        if (open) {
+            this.updateFile(open);
+            return;
+        }
+        try {
+            this.updateTests(uri, (await workspace.fs.readFile(uri)).toString());
+        } catch {
+            this.controller.items.delete(uri.toString());
+        }
+    }
+
+    private updateFile(document: TextDocument): void {
+        if (document.uri.scheme === 'file' && TEST_FILE.test(document.uri.fsPath)) {
+            this.updateTests(document.uri, document.getText());
+        }
+    }
+
+    private updateTests(uri: Uri, text: string): void {
+        const tasks = testTasks(text);
+        if (tasks.length === 0) {
+            this.controller.items.delete(uri.toString());
+            return;
+        }
+        let file = this.controller.items.get(uri.toString());
+        if (!file) {
+            file = this.controller.createTestItem(uri.toString(), path.basename(uri.fsPath), uri);
+            this.controller.items.add(file);
+        }
+        file.children.replace(tasks.map(task => {
+            const test = this.controller.createTestItem(`${uri.toString()}#${task.name.name}`, task.name.name, uri);
+            test.range = new Range(task.range.start.line, task.range.start.character, task.range.end.line, task.range.end.character);
+            return test;
+        }));
+    }
+
+    private documentSaved(document: TextDocument): void {
+        if (document.languageId !== 'flick') return;
+        if (!TEST_FILE.test(document.uri.fsPath)) {
+            // The tests may depend on it through `use`
+            this.results.clear();
+            return;
+        }
+        const file = this.controller.items.get(document.uri.toString());
+        if (file) {
+            const cancellation = new CancellationTokenSource();
+            this.runTests(new TestRunRequest([file]), cancellation.token, true)
+                .catch(error => window.showErrorMessage(`Running the tests in ${path.basename(document.uri.fsPath)} failed: ${error instanceof Error ? error.message : String(error)}`))
+                .finally(() => cancellation.dispose());
+        }
+    }
+
+    /**
+     * Runs the requested tests one after another. With `useCache`, tests whose
+     * file hasn't changed since they last ran report that result again.
+     */
+    private async runTests(request: TestRunRequest, token: CancellationToken, useCache = false): Promise<void> {
+        const run = this.controller.createTestRun(request);
+        const queue: TestItem[] = [];
+        const excluded = new Set(request.exclude ?? []);
+        const enqueue = (item: TestItem) => {
+            if (excluded.has(item)) return;
+            if (item.children.size > 0) {
+                item.children.forEach(enqueue);
+            } else if (item.parent) {
+                queue.push(item);
+                run.enqueued(item);
+            }
+        };
+        if (request.include) {
+            request.include.forEach(enqueue);
+        } else {
+            this.controller.items.forEach(enqueue);
+        }
+
+        // A run that isn't ended stays in progress in the Test Explorer
+        try {
+            for (const test of queue) {
+                if (token.isCancellationRequested) {
+                    run.skipped(test);
+                    continue;
+                }
+                const uri = test.uri!;
+                const text = await this.currentText(uri);
+                let cached = this.results.get(uri.fsPath);
+                if (!cached || cached.text !== text) {
+                    cached = { text, outcomes: new Map() };
+                    this.results.set(uri.fsPath, cached);
+                }
+
+                run.started(test);
+                let outcome = useCache ? cached.outcomes.get(test.label) : undefined;
+                if (!outcome) {
+                    outcome = await this.runTest(uri, text, test, token);
+                    cached.outcomes.set(test.label, outcome);
+                }
+                if (outcome.output.length > 0) {
+                    // The test output pane is a terminal
+                    run.appendOutput(outcome.output.replace(/\r?\n/g, '\r\n'), undefined, test);
+                }
+                if (outcome.passed) {
+                    run.passed(test, outcome.duration);
+                } else {
+                    run.failed(test, outcome.messages, outcome.duration);
+                }
+            }
+        } finally {
+            run.end();
+        }
+    }
+
+    private async runTest(uri: Uri, text: string, test: TestItem, token: CancellationToken): Promise<TestOutcome> {
+        const filePath = uri.fsPath;
+        const task = testTasks(text).find(candidate => candidate.name.name === test.label);
+        const taskLocation = new Location(uri, new Position(test.range?.start.line ?? 0, 0));
+        if (!task) {
+            const message = new TestMessage(`Test task '${test.label}' no longer exists.`);
+            message.location = taskLocation;
+            return { passed: false, duration: 0, messages: [message], output: '' };
+        }
+
+        const program = buildTestProgram(text, filePath, task);
+        const programFile = generatedProgramFile(filePath, test.label);
+        const sourceMap: SourceMap = { sourceFile: filePath, sourceLines: program.sourceLines };
+
+        const cwd = workspace.getWorkspaceFolder(uri)?.uri.fsPath ?? path.dirname(filePath);
+        fs.writeFileSync(programFile, program.text);
+        const started = Date.now();
+        const { code, output } = await this.execute(programFile, cwd, token).finally(() => fs.rmSync(programFile, { force: true }));
+        const duration = Date.now() - started;
+
+        const messages = parseRuntimeErrors(output, programFile, cwd).map(error => {
+            const message = new TestMessage(error.message);
+            // The innermost frame that is in a real file; the added call has none
+            const frame = error.frames
+                .map(candidate => mapFrame(candidate, programFile, sourceMap))
+                .find((candidate): candidate is RuntimeFrame => candidate !== undefined);
+            message.location = frame
+                ? new Location(Uri.file(frame.file), new Position(frame.line - 1, Math.max(frame.column - 1, 0)))
+                : taskLocation;
+            return message;
+        });
+        if (code !== 0 && messages.length === 0) {
+            const message = new TestMessage(code === null
+                ? 'The test was stopped or the interpreter could not be started.'
+                : `The interpreter exited with code ${code}.`);
+            message.location = taskLocation;
+            messages.push(message);
+        }
+        return { passed: code === 0 && messages.length === 0, duration, messages, output };
+    }
+
+    private execute(programFile: string, cwd: string, token: CancellationToken): Promise<{ code: number | null; output: string }> {
+        const interpreter = this.interpreterPath();
+        const child = spawn(interpreter, ['run', programFile], {
+            cwd,
+            shell: process.platform === 'win32'
+        });
+        child.stdin?.end();
+        const cancellation = token.onCancellationRequested(() => child.kill());
+
+        let output = '';
+        child.stdout?.on('data', (data: Buffer) => output += data.toString());
+        child.stderr?.on('data', (data: Buffer) => output += data.toString());
+        return new Promise(resolve => {
+            child.on('error', error => {
+                cancellation.dispose();
+                resolve({ code: null, output: `Could not start the Flick interpreter '${interpreter}': ${error.message}\n` });
+            });
+            child.on('close', code => {
+                cancellation.dispose();
+                resolve({ code, output });
+            });
+        });
+    }
+
+    private async currentText(uri: Uri): Promise<string> {
+        const open = workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+        return open ? open.getText() : (await workspace.fs.readFile(uri)).toString();
+    }
+}
+
+/** The top-level `test_*` tasks without parameters in a test file. */
+export function testTasks(text: string): TaskDeclaration[] {
+    return parse(text).program.body.filter((statement): statement is TaskDeclaration =>
+        statement.kind === 'TaskDeclaration' && statement.name.name.startsWith(TEST_TASK_PREFIX) && statement.params.length === 0);
+}
+
+/**
+ * A program that runs one test: the test task and what it depends on, as Run
+ * Selection would carry them, followed by a call to the task.
+ */
+export function buildTestProgram(text: string, filePath: string, task: TaskDeclaration): SelectionProgram {
+    const selection = buildSelectionProgram(text, filePath, task.range.start.line, task.range.end.line);
+    return { text: `${selection.text}${task.name.name}\n`, sourceLines: [...selection.sourceLines, undefined] };
+}